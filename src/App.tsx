@@ -5,6 +5,7 @@ import { TooltipProvider } from '@radix-ui/react-tooltip';
 import { Toaster } from '@/components/ui/sonner';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from '@/hooks/useAuth';
+import { RealtimeProvider } from '@/hooks/useRealtime';
 import { AnimatePresence } from 'framer-motion';
 import VersionBadge from '@/components/layout/VersionBadge';
 import { supabase, ensureCommentLikesTable, ensureNotificationsTable } from '@/integrations/supabase/client';
@@ -16,6 +17,14 @@ const Explore = lazy(() => import('@/pages/Explore'));
 const Create = lazy(() => import('@/pages/Create'));
 const Profile = lazy(() => import('@/pages/Profile'));
 const Notifications = lazy(() => import('@/pages/Notifications'));
+const PostDetail = lazy(() => import('@/pages/PostDetail'));
+const TagPage = lazy(() => import('@/pages/TagPage'));
+const Collection = lazy(() => import('@/pages/Collection'));
+const NotificationSettings = lazy(() => import('@/pages/NotificationSettings'));
+const PrivacySettings = lazy(() => import('@/pages/PrivacySettings'));
+const Messages = lazy(() => import('@/pages/Messages'));
+const Conversation = lazy(() => import('@/pages/Conversation'));
+const AdminModeration = lazy(() => import('@/pages/AdminModeration'));
 const NotFound = lazy(() => import('@/pages/NotFound'));
 
 // Criar um cliente com configuração melhorada
@@ -82,29 +91,39 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <BrowserRouter>
-            <VersionBadge />
-            <AnimatePresence mode="wait" initial={false}>
-              <Suspense fallback={
-                <div className="flex items-center justify-center h-screen">
-                  <div className="h-16 w-16 animate-spin rounded-full border-4 border-primary border-t-transparent" />
-                </div>
-              }>
-                <Routes>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/explore" element={<Explore />} />
-                  <Route path="/create" element={<Create />} />
-                  <Route path="/profile" element={<Profile />} />
-                  <Route path="/profile/:username" element={<Profile />} />
-                  <Route path="/notifications" element={<Notifications />} />
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </Suspense>
-            </AnimatePresence>
-            <Toaster position="top-center" />
-          </BrowserRouter>
-        </TooltipProvider>
+        <RealtimeProvider>
+          <TooltipProvider>
+            <BrowserRouter>
+              <VersionBadge />
+              <AnimatePresence mode="wait" initial={false}>
+                <Suspense fallback={
+                  <div className="flex items-center justify-center h-screen">
+                    <div className="h-16 w-16 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+                  </div>
+                }>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/explore" element={<Explore />} />
+                    <Route path="/create" element={<Create />} />
+                    <Route path="/profile" element={<Profile />} />
+                    <Route path="/profile/:username" element={<Profile />} />
+                    <Route path="/notifications" element={<Notifications />} />
+                    <Route path="/settings/notifications" element={<NotificationSettings />} />
+                    <Route path="/settings/privacy" element={<PrivacySettings />} />
+                    <Route path="/messages" element={<Messages />} />
+                    <Route path="/messages/:conversationId" element={<Conversation />} />
+                    <Route path="/admin/moderation" element={<AdminModeration />} />
+                    <Route path="/post/:id" element={<PostDetail />} />
+                    <Route path="/tag/:name" element={<TagPage />} />
+                    <Route path="/collections/:id" element={<Collection />} />
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </Suspense>
+              </AnimatePresence>
+              <Toaster position="top-center" />
+            </BrowserRouter>
+          </TooltipProvider>
+        </RealtimeProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
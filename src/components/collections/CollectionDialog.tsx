@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { createCollection, updateCollection } from '@/integrations/supabase/functions';
+import type { Tables } from '@/integrations/supabase/types';
+import { getErrorMessage } from '@/lib/errors';
+
+interface CollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Sem coleção, o diálogo cria uma nova
+  collection?: Tables<'collections'>;
+  onSaved?: (collection: Tables<'collections'>) => void;
+}
+
+const MAX_NAME_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const CollectionDialog: React.FC<CollectionDialogProps> = ({ open, onOpenChange, collection, onSaved }) => {
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(collection?.name || '');
+      setDescription(collection?.description || '');
+      setIsShared(collection?.is_shared ?? false);
+    }
+  }, [open, collection]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim()) return;
+
+    const changes = {
+      name: name.trim(),
+      description: description.trim() || null,
+      is_shared: isShared,
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = collection
+        ? await updateCollection(collection.id, changes)
+        : await createCollection(user.id, changes);
+
+      toast.success(collection ? 'Coleção atualizada' : 'Coleção criada');
+      onOpenChange(false);
+      if (onSaved) onSaved(saved);
+    } catch (error) {
+      console.error('Erro ao salvar coleção:', error);
+      toast.error('Não foi possível salvar a coleção', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{collection ? 'Editar coleção' : 'Nova coleção'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Nome</Label>
+            <Input
+              id="collection-name"
+              placeholder="Ex.: Ideias de negócio"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_NAME_LENGTH}
+              disabled={isSaving}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Descrição (opcional)</Label>
+            <Textarea
+              id="collection-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              className="min-h-[60px] resize-none"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="collection-shared">Compartilhar coleção</Label>
+              <p className="text-xs text-muted-foreground">
+                Qualquer pessoa com o link pode ver a coleção. Publicações restritas continuam visíveis só para o público delas.
+              </p>
+            </div>
+            <Switch
+              id="collection-shared"
+              checked={isShared}
+              onCheckedChange={setIsShared}
+              disabled={isSaving}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollectionDialog;
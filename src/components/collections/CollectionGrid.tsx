@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FolderOpen, Loader2, Lock, Plus, Users } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { getCollections } from '@/integrations/supabase/functions';
+import CollectionDialog from './CollectionDialog';
+
+// Coleções do usuário logado, exibidas na aba de salvos do perfil
+const CollectionGrid: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: collections = [], isPending, isError, refetch } = useQuery({
+    queryKey: ['collections', user?.id ?? null],
+    queryFn: () => getCollections(user!.id),
+    enabled: !!user,
+  });
+
+  if (isPending) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-sm text-muted-foreground">Não foi possível carregar suas coleções.</p>
+        <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-2">
+          Tentar novamente
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        {collections.map(collection => (
+          <Link key={collection.id} to={`/collections/${collection.id}`}>
+            <Card className="h-full transition-colors hover:bg-muted/40">
+              <CardContent className="p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <FolderOpen className="h-5 w-5 text-primary" />
+                  {collection.is_shared
+                    ? <Users className="h-3.5 w-3.5 text-muted-foreground" aria-label="Compartilhada" />
+                    : <Lock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Privada" />}
+                </div>
+                <p className="text-sm font-medium truncate">{collection.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {collection.item_count} {collection.item_count === 1 ? 'item' : 'itens'}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => setIsCreateOpen(true)}
+          className="rounded-lg border border-dashed p-3 text-left text-muted-foreground transition-colors hover:bg-muted/40"
+        >
+          <Plus className="h-5 w-5 mb-2" />
+          <p className="text-sm font-medium">Nova coleção</p>
+          <p className="text-xs">Organize seus salvos</p>
+        </button>
+      </div>
+
+      <CollectionDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSaved={(collection) => navigate(`/collections/${collection.id}`)}
+      />
+    </>
+  );
+};
+
+export default CollectionGrid;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Bookmark, Check, Loader2, Plus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { getCollections, getSavedPost, savePost, unsavePost } from '@/integrations/supabase/functions';
+import CollectionDialog from './CollectionDialog';
+import { getErrorMessage } from '@/lib/errors';
+
+interface SaveToCollectionDialogProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MAX_NOTE_LENGTH = 500;
+
+const SaveToCollectionDialog: React.FC<SaveToCollectionDialogProps> = ({ postId, open, onOpenChange }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const collectionsQuery = useQuery({
+    queryKey: ['collections', user?.id ?? null],
+    queryFn: () => getCollections(user!.id),
+    enabled: open && !!user,
+  });
+
+  const savedQuery = useQuery({
+    queryKey: ['saved_post', user?.id ?? null, postId],
+    queryFn: () => getSavedPost(user!.id, postId),
+    enabled: open && !!user,
+  });
+
+  const saved = savedQuery.data;
+
+  useEffect(() => {
+    if (open && !savedQuery.isPending) {
+      setCollectionId(saved?.collection_id ?? null);
+      setNote(saved?.note || '');
+    }
+  }, [open, saved, savedQuery.isPending]);
+
+  const refreshSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['saved_post', user?.id ?? null, postId] });
+    queryClient.invalidateQueries({ queryKey: ['collections'] });
+    queryClient.invalidateQueries({ queryKey: ['posts', 'saved'] });
+    queryClient.invalidateQueries({ queryKey: ['posts', 'collection'] });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    try {
+      setIsSaving(true);
+      await savePost(user.id, postId, collectionId, note);
+      refreshSaved();
+      toast.success(saved ? 'Item salvo atualizado' : 'Publicação salva');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Erro ao salvar publicação:', error);
+      toast.error('Não foi possível salvar a publicação', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnsave = async () => {
+    if (!user) return;
+
+    try {
+      setIsSaving(true);
+      await unsavePost(user.id, postId);
+      refreshSaved();
+      toast.success('Publicação removida dos salvos');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Erro ao remover dos salvos:', error);
+      toast.error('Não foi possível remover dos salvos', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOption = (id: string | null, label: string, detail: string, shared = false) => (
+    <button
+      key={id ?? 'none'}
+      type="button"
+      onClick={() => setCollectionId(id)}
+      className={cn(
+        "w-full flex items-center gap-3 p-2 rounded-md text-left hover:bg-muted/50",
+        collectionId === id && "bg-muted"
+      )}
+      disabled={isSaving}
+    >
+      <Bookmark className="h-4 w-4 text-muted-foreground shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate flex items-center gap-1">
+          {label}
+          {shared && <Users className="h-3 w-3 text-muted-foreground" aria-label="Compartilhada" />}
+        </p>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </div>
+      {collectionId === id && <Check className="h-4 w-4 text-primary" />}
+    </button>
+  );
+
+  const isLoading = collectionsQuery.isPending || savedQuery.isPending;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{saved ? 'Salvo em' : 'Salvar em'}</DialogTitle>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="max-h-56 overflow-y-auto space-y-1">
+                {renderOption(null, 'Sem coleção', 'Aparece apenas em Todos os salvos')}
+                {(collectionsQuery.data || []).map(collection =>
+                  renderOption(
+                    collection.id,
+                    collection.name,
+                    `${collection.item_count} ${collection.item_count === 1 ? 'item' : 'itens'}`,
+                    collection.is_shared
+                  )
+                )}
+              </div>
+
+              <Button variant="ghost" size="sm" className="justify-start" onClick={() => setIsCreateOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Nova coleção
+              </Button>
+
+              <div className="space-y-1">
+                <Label htmlFor="saved-post-note">Nota (opcional)</Label>
+                <Textarea
+                  id="saved-post-note"
+                  placeholder="Por que você salvou esta publicação?"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={MAX_NOTE_LENGTH}
+                  className="min-h-[70px] resize-none"
+                  disabled={isSaving}
+                />
+              </div>
+            </>
+          )}
+
+          <DialogFooter className="gap-2">
+            {saved && (
+              <Button variant="outline" onClick={handleUnsave} disabled={isSaving} className="sm:mr-auto">
+                Remover dos salvos
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isLoading || isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CollectionDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSaved={(collection) => {
+          setCollectionId(collection.id);
+          queryClient.invalidateQueries({ queryKey: ['collections'] });
+        }}
+      />
+    </>
+  );
+};
+
+export default SaveToCollectionDialog;
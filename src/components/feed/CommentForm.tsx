@@ -6,18 +6,36 @@ import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { SendHorizonal, Search, Loader2 } from 'lucide-react';
+import { SendHorizonal, Search, Loader2, X } from 'lucide-react';
 import { Card } from '@/components/ui/card';
-import { createNotification } from '@/integrations/supabase/functions';
+import {
+  createNotification,
+  invalidateCommentsCount,
+  getHiddenUsers,
+  blockedUserIds
+} from '@/integrations/supabase/functions';
 
 interface CommentFormProps {
   postId: string;
+  parentId?: string;
+  parentAuthorId?: string;
+  initialContent?: string;
+  autoFocus?: boolean;
   onCommentAdded?: () => void;
+  onCancel?: () => void;
 }
 
-const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) => {
+const CommentForm: React.FC<CommentFormProps> = ({
+  postId,
+  parentId,
+  parentAuthorId,
+  initialContent = '',
+  autoFocus = false,
+  onCommentAdded,
+  onCancel
+}) => {
   const { user, profile } = useAuth();
-  const [content, setContent] = useState('');
+  const [content, setContent] = useState(initialContent);
   const [isLoading, setIsLoading] = useState(false);
   const [isTypingMention, setIsTypingMention] = useState(false);
   const [mentionQuery, setMentionQuery] = useState('');
@@ -26,6 +44,15 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [mentionPosition, setMentionPosition] = useState({ start: 0, end: 0 });
 
+  // Place the cursor after the pre-filled @mention when replying
+  useEffect(() => {
+    if (autoFocus && textareaRef.current) {
+      const length = textareaRef.current.value.length;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(length, length);
+    }
+  }, [autoFocus]);
+
   // Fetch post author ID for notifications
   useEffect(() => {
     const fetchPostAuthor = async () => {
@@ -93,7 +120,9 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
         
       if (error) throw error;
       
-      setMentionResults(data || []);
+      // Blocked users (either way) can't be mentioned
+      const blockedIds = blockedUserIds(await getHiddenUsers(user?.id));
+      setMentionResults((data || []).filter(result => !blockedIds.includes(result.id)));
     } catch (error) {
       console.error('Error searching users:', error);
       setMentionResults([]);
@@ -144,13 +173,16 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
         .insert({
           content: content.trim(),
           post_id: postId,
-          user_id: user.id
+          user_id: user.id,
+          parent_id: parentId ?? null
         })
         .select()
         .single();
         
       if (commentError) throw commentError;
       
+      invalidateCommentsCount(postId);
+      
       // 2. Extract mentions and create notifications
       const mentions = extractMentions(content);
       
@@ -167,6 +199,7 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
           // Create notifications for each mentioned user
           const notificationsToSend = mentionedUsers
             .filter(mentionedUser => mentionedUser.id !== user.id) // Don't notify yourself
+            .filter(mentionedUser => mentionedUser.id !== parentAuthorId) // Already notified about the reply
             .map(async (mentionedUser) => {
               await createNotification(
                 'mention',
@@ -181,8 +214,19 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
         }
       }
       
-      // 3. Notify post owner about the comment (if different from commenter)
-      if (postAuthorId && postAuthorId !== user.id) {
+      // 3. Notify the author of the comment being replied to
+      if (parentId && parentAuthorId && parentAuthorId !== user.id) {
+        await createNotification(
+          'reply',
+          parentAuthorId,
+          user.id,
+          postId,
+          commentData.id
+        );
+      }
+      
+      // 4. Notify post owner about the comment (if different from commenter and not already notified)
+      if (postAuthorId && postAuthorId !== user.id && postAuthorId !== parentAuthorId) {
         await createNotification(
           'comment',
           postAuthorId,
@@ -194,7 +238,7 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
       
       // Clear form and update UI
       setContent('');
-      toast.success('Comentário adicionado com sucesso');
+      toast.success(parentId ? 'Resposta adicionada com sucesso' : 'Comentário adicionado com sucesso');
       
       if (onCommentAdded) {
         onCommentAdded();
@@ -218,9 +262,9 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
   }
 
   return (
-    <form onSubmit={handleSubmit} className="mb-4">
+    <form onSubmit={handleSubmit} className={parentId ? 'mt-3' : 'mb-4'}>
       <div className="flex gap-3">
-        <Avatar className="h-8 w-8">
+        <Avatar className={parentId ? 'h-6 w-6' : 'h-8 w-8'}>
           <AvatarImage src={profile?.avatar_url || undefined} alt={profile?.username || 'User'} />
           <AvatarFallback>{profile?.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
         </Avatar>
@@ -228,10 +272,10 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
         <div className="flex-1 relative">
           <Textarea
             ref={textareaRef}
-            placeholder="Escreva um comentário..."
+            placeholder={parentId ? 'Escreva uma resposta...' : 'Escreva um comentário...'}
             value={content}
             onChange={handleCommentChange}
-            className="min-h-[60px] resize-none"
+            className={parentId ? 'min-h-[44px] resize-none text-sm' : 'min-h-[60px] resize-none'}
           />
           
           {isTypingMention && mentionResults.length > 0 && (
@@ -267,19 +311,33 @@ const CommentForm: React.FC<CommentFormProps> = ({ postId, onCommentAdded }) =>
           )}
         </div>
         
-        <Button 
-          type="submit" 
-          variant="ghost" 
-          size="icon" 
-          className="h-9 w-9 rounded-full"
-          disabled={isLoading || !content.trim()}
-        >
-          {isLoading ? (
-            <Loader2 className="h-5 w-5 animate-spin" />
-          ) : (
-            <SendHorizonal className="h-5 w-5" />
+        <div className="flex flex-col">
+          <Button 
+            type="submit" 
+            variant="ghost" 
+            size="icon" 
+            className="h-9 w-9 rounded-full"
+            disabled={isLoading || !content.trim()}
+          >
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : (
+              <SendHorizonal className="h-5 w-5" />
+            )}
+          </Button>
+          {onCancel && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 rounded-full text-muted-foreground"
+              onClick={onCancel}
+              disabled={isLoading}
+            >
+              <X className="h-4 w-4" />
+            </Button>
           )}
-        </Button>
+        </div>
       </div>
     </form>
   );
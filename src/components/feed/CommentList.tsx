@@ -4,16 +4,49 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Heart, Loader2 } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Heart, Loader2, MessageCircle, MoreHorizontal, Pencil, Trash2, Flag } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
 import { Link, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
-import { getUserCommentLikes, createNotification } from '@/integrations/supabase/functions';
+import CommentForm from './CommentForm';
+import ReportDialog from '@/components/moderation/ReportDialog';
+import {
+  getUserCommentLikes,
+  createNotification,
+  getProfileByUserId,
+  updateComment,
+  deleteComment,
+  getHiddenUsers,
+  hiddenAuthorIds
+} from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
 
 interface CommentProps {
   id: string;
   content: string;
   created_at: string;
+  updated_at: string | null;
+  deleted_at: string | null;
+  hidden_at: string | null;
+  parent_id: string | null;
   user: {
     id: string;
     username: string;
@@ -25,10 +58,30 @@ interface CommentProps {
 
 interface CommentListProps {
   postId: string;
+  postAuthorId?: string;
   refreshComments?: boolean;
+  onReplyAdded?: () => void;
+  onCommentRemoved?: () => void;
 }
 
-const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) => {
+// Níveis de recuo; respostas mais profundas continuam no mesmo nível
+const MAX_REPLY_DEPTH = 3;
+// Respostas exibidas antes de "ver mais respostas"
+const REPLIES_PREVIEW = 2;
+
+// updated_at recebe o default do banco no insert; só conta como edição se vier depois
+const isCommentEdited = (comment: CommentProps) => {
+  if (!comment.updated_at) return false;
+  return new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+};
+
+const CommentList: React.FC<CommentListProps> = ({
+  postId,
+  postAuthorId,
+  refreshComments,
+  onReplyAdded,
+  onCommentRemoved
+}) => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [comments, setComments] = useState<CommentProps[]>([]);
@@ -36,6 +89,14 @@ const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) =>
   const [likeLoadingId, setLikeLoadingId] = useState<string | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<CommentProps | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [reportTargetId, setReportTargetId] = useState<string | null>(null);
 
   // Refresh comments when props change
   useEffect(() => {
@@ -48,18 +109,22 @@ const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) =>
     fetchComments();
   }, [postId, refreshKey]);
 
-  const fetchComments = async () => {
+  const fetchComments = async (silent = false) => {
     try {
-      setIsLoading(true);
+      if (!silent) setIsLoading(true);
       setLoadError(null);
       
       // First get the comments with profile data
-      const { data: commentsData, error: commentsError } = await supabase
+      const { data: allComments, error: commentsError } = await supabase
         .from('comments')
         .select(`
           id,
           content,
           created_at,
+          updated_at,
+          deleted_at,
+          hidden_at,
+          parent_id,
           user_id,
           profiles:user_id (
             id,
@@ -72,6 +137,10 @@ const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) =>
       
       if (commentsError) throw commentsError;
       
+      // Hide comments from blocked or muted users; their replies from others move up a level
+      const hiddenIds = hiddenAuthorIds(await getHiddenUsers(user?.id));
+      const commentsData = (allComments || []).filter(comment => !hiddenIds.includes(comment.user_id));
+      
       if (!commentsData || commentsData.length === 0) {
         setComments([]);
         setIsLoading(false);
@@ -109,6 +178,10 @@ const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) =>
         id: comment.id,
         content: comment.content,
         created_at: comment.created_at,
+        updated_at: comment.updated_at,
+        deleted_at: comment.deleted_at,
+        hidden_at: comment.hidden_at,
+        parent_id: comment.parent_id,
         user: {
           id: comment.user_id,
           username: (comment.profiles as any).username,
@@ -130,6 +203,139 @@ const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) =>
     }
   };
 
+  // Comentários, edições e remoções de outras pessoas chegam sem recarregar a lista
+  useRealtimeSubscription('comments', async (payload) => {
+    if (payload.eventType === 'DELETE') {
+      if (payload.old.post_id !== postId) return;
+      setComments(prev => prev.filter(comment => comment.id !== payload.old.id));
+      return;
+    }
+
+    if (payload.eventType === 'UPDATE') {
+      const updated = payload.new;
+      if (updated.post_id !== postId) return;
+
+      // Comentários ocultados pela moderação continuam visíveis só para o autor
+      if (updated.hidden_at && updated.user_id !== user?.id) {
+        setComments(prev => prev.filter(comment => comment.id !== updated.id));
+        return;
+      }
+
+      setComments(prev => prev.map(comment =>
+        comment.id === updated.id
+          ? { ...comment, content: updated.content, updated_at: updated.updated_at, deleted_at: updated.deleted_at }
+          : comment
+      ));
+      return;
+    }
+
+    const comment = payload.new;
+    if (comment.post_id !== postId || comment.user_id === user?.id) return;
+
+    const hiddenIds = hiddenAuthorIds(await getHiddenUsers(user?.id));
+    if (hiddenIds.includes(comment.user_id)) return;
+
+    const profile = await getProfileByUserId(comment.user_id);
+    if (!profile) return;
+
+    setComments(prev => prev.some(existing => existing.id === comment.id) ? prev : [
+      ...prev,
+      {
+        id: comment.id,
+        content: comment.content,
+        created_at: comment.created_at,
+        updated_at: comment.updated_at,
+        deleted_at: comment.deleted_at,
+        hidden_at: comment.hidden_at,
+        parent_id: comment.parent_id,
+        user: {
+          id: comment.user_id,
+          username: profile.username,
+          avatar_url: profile.avatar_url,
+        },
+        likes_count: 0,
+        has_liked: false
+      }
+    ]);
+  });
+
+  // Agrupar respostas pelo comentário pai; respostas cujo pai não existe mais sobem para o topo
+  const repliesByParent = useMemo(() => {
+    const ids = new Set(comments.map(comment => comment.id));
+    const map = new Map<string | null, CommentProps[]>();
+
+    for (const comment of comments) {
+      const parentKey = comment.parent_id && ids.has(comment.parent_id) ? comment.parent_id : null;
+      if (!map.has(parentKey)) map.set(parentKey, []);
+      map.get(parentKey)!.push(comment);
+    }
+
+    return map;
+  }, [comments]);
+
+  const handleReplyAdded = (parentId: string) => {
+    setReplyingTo(null);
+    setExpandedThreads(prev => new Set(prev).add(parentId));
+    fetchComments(true);
+    if (onReplyAdded) onReplyAdded();
+  };
+
+  const expandThread = (commentId: string) => {
+    setExpandedThreads(prev => new Set(prev).add(commentId));
+  };
+
+  const startEditing = (comment: CommentProps) => {
+    setReplyingTo(null);
+    setEditingId(comment.id);
+    setEditContent(comment.content);
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (!user || !editContent.trim()) return;
+
+    try {
+      setIsSavingEdit(true);
+      const updated = await updateComment(commentId, user.id, editContent.trim());
+
+      setComments(prev => prev.map(comment =>
+        comment.id === commentId
+          ? { ...comment, content: updated.content, updated_at: updated.updated_at }
+          : comment
+      ));
+      setEditingId(null);
+      toast.success('Comentário atualizado');
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      toast.error('Erro ao editar comentário', {
+        description: getErrorMessage(error)
+      });
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleDeleteComment = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      setIsDeleting(true);
+      await deleteComment(deleteTarget.id, postId);
+
+      toast.success('Comentário excluído');
+      setDeleteTarget(null);
+      // Placeholders sem respostas também podem ter sido removidos no banco
+      await fetchComments(true);
+      if (onCommentRemoved) onCommentRemoved();
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Erro ao excluir comentário', {
+        description: getErrorMessage(error)
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   const handleLikeComment = async (commentId: string, isLiked: boolean, authorId: string) => {
     if (!user) {
       toast.error('É necessário fazer login para curtir comentários');
@@ -263,59 +469,235 @@ const CommentList: React.FC<CommentListProps> = ({ postId, refreshComments }) =>
     );
   }
 
-  return (
-    <div className="space-y-4 mt-4">
-      {comments.map(comment => (
-        <div key={comment.id} className="border-t pt-4">
+  const renderComment = (comment: CommentProps, depth: number): React.ReactNode => {
+    const replies = repliesByParent.get(comment.id) || [];
+    const isExpanded = expandedThreads.has(comment.id);
+    const visibleReplies = isExpanded ? replies : replies.slice(0, REPLIES_PREVIEW);
+    const hiddenCount = replies.length - visibleReplies.length;
+    const isNested = depth < MAX_REPLY_DEPTH;
+
+    const repliesBlock = replies.length > 0 && (
+      <div className={cn("mt-3 space-y-3", isNested && "ml-11 pl-3 border-l")}>
+        {visibleReplies.map(reply => renderComment(reply, depth + 1))}
+
+        {hiddenCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-primary"
+            onClick={() => expandThread(comment.id)}
+          >
+            {hiddenCount === 1 ? 'Ver mais 1 resposta' : `Ver mais ${hiddenCount} respostas`}
+          </Button>
+        )}
+      </div>
+    );
+
+    if (comment.deleted_at) {
+      return (
+        <div key={comment.id} className={cn(depth === 0 && "border-t pt-4")}>
           <div className="flex gap-3">
-            <div className="cursor-pointer" onClick={() => navigateToProfile(comment.user.username)}>
-              <Avatar className="h-8 w-8">
-                <AvatarImage 
-                  src={comment.user.avatar_url || undefined} 
-                  alt={comment.user.username} 
-                  className="object-cover" 
-                />
-                <AvatarFallback>{comment.user.username[0]?.toUpperCase() || "U"}</AvatarFallback>
-              </Avatar>
+            <div className={cn("rounded-full bg-muted shrink-0", depth === 0 ? "h-8 w-8" : "h-6 w-6")} />
+            <p className="text-sm italic text-muted-foreground self-center">[comentário removido]</p>
+          </div>
+          {repliesBlock}
+        </div>
+      );
+    }
+
+    const isAuthor = user?.id === comment.user.id;
+    const canDelete = isAuthor || (!!user && user.id === postAuthorId);
+    const canReport = !!user && !isAuthor;
+    const isEditing = editingId === comment.id;
+
+    return (
+      <div key={comment.id} className={cn(depth === 0 && "border-t pt-4")}>
+        <div className="flex gap-3">
+          <div className="cursor-pointer" onClick={() => navigateToProfile(comment.user.username)}>
+            <Avatar className={depth === 0 ? "h-8 w-8" : "h-6 w-6"}>
+              <AvatarImage 
+                src={comment.user.avatar_url || undefined} 
+                alt={comment.user.username} 
+                className="object-cover" 
+              />
+              <AvatarFallback>{comment.user.username[0]?.toUpperCase() || "U"}</AvatarFallback>
+            </Avatar>
+          </div>
+          <div className="flex-1">
+            <div className="flex items-center gap-2">
+              <div 
+                className="font-medium text-sm hover:underline cursor-pointer"
+                onClick={() => navigateToProfile(comment.user.username)}
+              >
+                @{comment.user.username}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {formatCommentDate(comment.created_at)}
+              </span>
+              {isCommentEdited(comment) && (
+                <span className="text-xs text-muted-foreground">· editado</span>
+              )}
+              {comment.hidden_at && isAuthor && (
+                <span className="text-xs text-muted-foreground">· oculto pela moderação</span>
+              )}
+              {(canDelete || canReport) && !isEditing && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto">
+                      <MoreHorizontal className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {isAuthor && (
+                      <DropdownMenuItem onClick={() => startEditing(comment)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        <span>Editar comentário</span>
+                      </DropdownMenuItem>
+                    )}
+                    {canDelete && (
+                      <DropdownMenuItem
+                        onClick={() => setDeleteTarget(comment)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        <span>{isAuthor ? 'Excluir comentário' : 'Remover comentário'}</span>
+                      </DropdownMenuItem>
+                    )}
+                    {canReport && (
+                      <DropdownMenuItem
+                        onClick={() => setReportTargetId(comment.id)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Flag className="mr-2 h-4 w-4" />
+                        <span>Denunciar</span>
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
-            <div className="flex-1">
-              <div className="flex items-center gap-2">
-                <div 
-                  className="font-medium text-sm hover:underline cursor-pointer"
-                  onClick={() => navigateToProfile(comment.user.username)}
-                >
-                  @{comment.user.username}
+            {isEditing ? (
+              <div className="mt-2 space-y-2">
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  className="min-h-[60px] resize-none text-sm"
+                  disabled={isSavingEdit}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingId(null)}
+                    disabled={isSavingEdit}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSaveEdit(comment.id)}
+                    disabled={isSavingEdit || !editContent.trim() || editContent.trim() === comment.content}
+                  >
+                    {isSavingEdit ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar'}
+                  </Button>
                 </div>
-                <span className="text-xs text-muted-foreground">
-                  {formatCommentDate(comment.created_at)}
-                </span>
               </div>
+            ) : (
               <p className="mt-1 text-sm whitespace-pre-line">
                 {formatCommentText(comment.content)}
               </p>
-              <div className="mt-2 flex items-center gap-2">
+            )}
+            <div className="mt-2 flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn(
+                  "h-8 px-2 text-xs rounded-full",
+                  comment.has_liked ? "text-rose-500" : "text-muted-foreground"
+                )}
+                onClick={() => handleLikeComment(comment.id, comment.has_liked, comment.user.id)}
+                disabled={likeLoadingId === comment.id}
+              >
+                {likeLoadingId === comment.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                ) : (
+                  <Heart className={cn("h-3 w-3 mr-1", comment.has_liked ? "fill-rose-500" : "")} />
+                )}
+                <span>{comment.likes_count}</span>
+              </Button>
+              {user && (
                 <Button
                   variant="ghost"
                   size="sm"
-                  className={cn(
-                    "h-8 px-2 text-xs rounded-full",
-                    comment.has_liked ? "text-rose-500" : "text-muted-foreground"
-                  )}
-                  onClick={() => handleLikeComment(comment.id, comment.has_liked, comment.user.id)}
-                  disabled={likeLoadingId === comment.id}
+                  className="h-8 px-2 text-xs rounded-full text-muted-foreground"
+                  onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
                 >
-                  {likeLoadingId === comment.id ? (
-                    <Loader2 className="h-3 w-3 animate-spin mr-1" />
-                  ) : (
-                    <Heart className={cn("h-3 w-3 mr-1", comment.has_liked ? "fill-rose-500" : "")} />
-                  )}
-                  <span>{comment.likes_count}</span>
+                  <MessageCircle className="h-3 w-3 mr-1" />
+                  <span>Responder</span>
                 </Button>
-              </div>
+              )}
             </div>
+
+            {replyingTo === comment.id && (
+              <CommentForm
+                postId={postId}
+                parentId={comment.id}
+                parentAuthorId={comment.user.id}
+                initialContent={comment.user.id !== user?.id ? `@${comment.user.username} ` : ''}
+                autoFocus
+                onCommentAdded={() => handleReplyAdded(comment.id)}
+                onCancel={() => setReplyingTo(null)}
+              />
+            )}
           </div>
         </div>
-      ))}
+
+        {repliesBlock}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 mt-4">
+      {(repliesByParent.get(null) || []).map(comment => renderComment(comment, 0))}
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTarget?.user.id === user?.id ? 'Excluir comentário?' : 'Remover comentário?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget && repliesByParent.has(deleteTarget.id)
+                ? 'O texto será removido, mas as respostas continuarão visíveis.'
+                : 'O comentário e suas curtidas serão removidos permanentemente.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDeleteComment();
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Excluir'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {reportTargetId && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setReportTargetId(null)}
+          targetType="comment"
+          targetId={reportTargetId}
+        />
+      )}
     </div>
   );
 };
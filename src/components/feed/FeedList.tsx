@@ -1,167 +1,157 @@
-
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import Post from './Post';
+import LoadMoreTrigger from './LoadMoreTrigger';
 import { motion } from 'framer-motion';
-import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
-import { Loader2, RefreshCcw, AlertCircle } from 'lucide-react';
-import { getPostsWithProfiles, getUserLikedPostIds } from '@/integrations/supabase/utils';
+import { Loader2, RefreshCcw, AlertCircle, ArrowUp } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { PostsScope, PostWithProfile } from '@/integrations/supabase/utils';
+import { isPlainRepost } from '@/integrations/supabase/functions';
+import { useInfinitePosts, postsQueryKey } from '@/hooks/useInfinitePosts';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import type { PostAudience } from '@/lib/audience';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 
-interface PostType {
-  id: string;
-  content: string;
-  images: string[] | null;
-  created_at: string;
-  profiles: {
-    username: string;
-    avatar_url: string | null;
-    full_name: string | null;
-  };
-  likes: number;
-  comments: number;
-  has_liked: boolean;
-}
-
 interface FeedListProps {
+  scope?: PostsScope;
+  enabled?: boolean;
+  emptyState?: React.ReactNode;
   onLoadStateChange?: (isLoaded: boolean) => void;
 }
 
-const FeedList: React.FC<FeedListProps> = ({ onLoadStateChange }) => {
+const FeedList: React.FC<FeedListProps> = ({
+  scope = { type: 'global' },
+  enabled = true,
+  emptyState,
+  onLoadStateChange
+}) => {
   const { user } = useAuth();
-  const [posts, setPosts] = useState<PostType[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [refreshKey, setRefreshKey] = useState(0);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
   const [showLoadingHelp, setShowLoadingHelp] = useState(false);
-  const [retryCount, setRetryCount] = useState(0);
-  const [page, setPage] = useState(0);
-  const [hasMore, setHasMore] = useState(true);
+  const [newPostIds, setNewPostIds] = useState<string[]>([]);
+  const {
+    data,
+    error,
+    isPending,
+    isError,
+    isFetchingNextPage,
+    isFetchNextPageError,
+    hasNextPage,
+    fetchNextPage,
+    refetch,
+  } = useInfinitePosts(scope, enabled);
+
+  const isLoading = enabled && isPending;
+  const loadError = isError ? `Erro ao carregar publicações: ${error.message}` : null;
+
+  // Juntar as páginas descartando duplicados caso um post apareça em duas páginas
+  const posts = useMemo(() => {
+    const seen = new Set<string>();
+    const merged: PostWithProfile[] = [];
+
+    for (const page of data?.pages || []) {
+      for (const post of page.posts) {
+        if (!seen.has(post.id)) {
+          seen.add(post.id);
+          merged.push(post);
+        }
+      }
+    }
 
-  // Definir um limite máximo de tentativas
-  const MAX_RETRIES = 3;
+    return merged;
+  }, [data]);
 
   useEffect(() => {
     if (isLoading) {
       const timer = setTimeout(() => {
         setShowLoadingHelp(true);
       }, 1500); // Reduzido de 2000 para 1500 ms para feedback mais rápido
-      
+
       return () => clearTimeout(timer);
     } else {
       setShowLoadingHelp(false);
     }
   }, [isLoading]);
 
-  const fetchPosts = useCallback(async () => {
-    if (retryCount >= MAX_RETRIES) {
-      setLoadError("Não foi possível carregar os dados após várias tentativas. Por favor, tente novamente mais tarde.");
-      setIsLoading(false);
-      if (onLoadStateChange) onLoadStateChange(true);
-      return;
+  useEffect(() => {
+    if (onLoadStateChange) onLoadStateChange(!isLoading);
+  }, [isLoading, onLoadStateChange]);
+
+  useEffect(() => {
+    if (isFetchNextPageError) {
+      toast.error('Não foi possível carregar mais publicações', {
+        description: 'Verifique sua conexão e tente novamente',
+      });
     }
+  }, [isFetchNextPageError]);
 
-    try {
-      console.log('FeedList: Iniciando busca de posts');
-      setIsLoading(true);
-      setLoadError(null);
-      if (onLoadStateChange) onLoadStateChange(false);
+  // Uma nova lista começa sem publicações pendentes
+  const scopeKey = postsQueryKey(scope, user?.id).join(':');
+  useEffect(() => {
+    setNewPostIds([]);
+  }, [scopeKey]);
 
-      // Definir um timeout de 10 segundos
-      let postsData: any[] = [];
-      
-      try {
-        // Buscar posts com limite e paginação
-        postsData = await getPostsWithProfiles(20, page);
-      } catch (error: any) {
-        console.error('Erro na busca de posts:', error);
-        throw new Error('A conexão expirou, tente novamente');
-      }
-      
-      console.log('FeedList: Dados de posts recebidos:', { 
-        postCount: postsData?.length || 0,
-        success: !!postsData 
-      });
+  // Verifica se uma publicação recém-criada pertence a esta lista. O realtime só entrega
+  // publicações cujo público inclui o usuário, então aqui basta olhar o escopo.
+  const belongsToScope = useCallback(async (post: { user_id: string; tags: string[] | null }) => {
+    switch (scope.type) {
+      case 'global':
+        return true;
+      case 'user':
+        return post.user_id === scope.userId;
+      case 'tag':
+        return !!post.tags?.includes(scope.tag);
+      case 'following': {
+        const { data, error } = await supabase
+          .from('follows')
+          .select('id')
+          .eq('follower_id', scope.userId)
+          .eq('following_id', post.user_id)
+          .maybeSingle();
 
-      // Se não há posts ainda, retornar cedo
-      if (!postsData || postsData.length === 0) {
-        if (page === 0) {
-          setPosts([]);
+        if (error) {
+          console.error('Erro ao verificar seguidor:', error);
+          return false;
         }
-        setHasMore(false);
-        setIsLoading(false);
-        if (onLoadStateChange) onLoadStateChange(true);
-        return;
+        return !!data;
       }
+      default:
+        // Salvar não gera evento em posts
+        return false;
+    }
+  }, [scope]);
 
-      // Se o usuário estiver logado, verificar quais posts ele curtiu
-      let enhancedPosts = [...postsData];
-      
-      if (user) {
-        console.log('FeedList: Buscando posts curtidos pelo usuário');
-        const likedPostIds = await getUserLikedPostIds(user.id);
-        console.log('FeedList: Usuário curtiu', likedPostIds.length, 'posts');
-        
-        enhancedPosts = postsData.map(post => ({
-          ...post,
-          has_liked: likedPostIds.includes(post.id)
-        }));
-      }
+  useRealtimeSubscription('posts', async (payload) => {
+    if (payload.eventType !== 'INSERT') return;
 
-      // Atualizar o estado com os novos posts
-      if (page === 0) {
-        setPosts(enhancedPosts);
-      } else {
-        setPosts(prev => [...prev, ...enhancedPosts]);
-      }
-      
-      setHasMore(enhancedPosts.length === 20); // Se retornou menos de 20, não há mais
-      setRetryCount(0); // Resetar contagem de tentativas ao ter sucesso
-      console.log('FeedList: Processamento de posts completo');
-    } catch (error: any) {
-      console.error('Erro ao buscar posts:', error);
-      setLoadError(`Erro ao carregar publicações: ${error.message}`);
-      
-      // Incrementar contagem de tentativas e tentar novamente após um atraso
-      setRetryCount(prev => prev + 1);
-      
-      if (retryCount < MAX_RETRIES - 1) {
-        // Esperar mais tempo entre as tentativas
-        const retryDelay = 1000 * (retryCount + 1);
-        setTimeout(() => {
-          console.log(`Tentando buscar novamente (tentativa ${retryCount + 1})`);
-          setRefreshKey(prev => prev + 1);
-        }, retryDelay);
-      } else {
-        toast.error('Não foi possível carregar as publicações', {
-          description: 'Tente recarregar a página',
-        });
-      }
-    } finally {
-      setIsLoading(false);
-      if (onLoadStateChange) onLoadStateChange(true);
-      console.log('FeedList: Estado de carregamento definido como false');
+    const post = payload.new;
+    // As próprias publicações já entram na lista ao voltar do formulário
+    if (post.user_id === user?.id) return;
+    if (posts.some(existing => existing.id === post.id)) return;
+
+    if (await belongsToScope(post)) {
+      setNewPostIds(prev => (prev.includes(post.id) ? prev : [...prev, post.id]));
     }
-  }, [user, onLoadStateChange, retryCount, page, MAX_RETRIES]);
+  }, enabled);
+
+  const showNewPosts = () => {
+    setNewPostIds([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    queryClient.resetQueries({ queryKey: postsQueryKey(scope, user?.id) });
+  };
 
-  // Disparar atualização de posts
   const refreshPosts = useCallback(() => {
-    setPage(0); // Voltar para a primeira página
-    setRetryCount(0); // Resetar contagem de tentativas na atualização manual
-    setRefreshKey(prev => prev + 1);
-  }, []);
+    refetch();
+  }, [refetch]);
 
-  // Carregar mais posts
   const loadMorePosts = useCallback(() => {
-    if (!isLoading && hasMore) {
-      setPage(prev => prev + 1);
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
     }
-  }, [isLoading, hasMore]);
-
-  useEffect(() => {
-    fetchPosts();
-  }, [refreshKey, fetchPosts, page]);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const handleRetry = () => {
     setShowLoadingHelp(false);
@@ -171,46 +161,67 @@ const FeedList: React.FC<FeedListProps> = ({ onLoadStateChange }) => {
   // Memorizar componentes de post para reduzir re-renderizações
   const postComponents = useMemo(() => {
     if (posts.length === 0) return null;
-    
-    return posts.map((post, index) => (
-      <motion.div
-        key={post.id}
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: Math.min(index * 0.05, 0.5) }} // Limitar o atraso para melhor desempenho
-      >
-        <Post 
-          id={post.id}
-          author={{
-            name: post.profiles.full_name || post.profiles.username,
-            username: post.profiles.username,
-            avatar: post.profiles.avatar_url || 'https://via.placeholder.com/150',
-            verified: post.profiles.username?.toLowerCase() === 'outliersofc'
-          }}
-          content={post.content}
-          images={post.images || []}
-          timestamp={new Date(post.created_at).toLocaleString('pt-BR', {
-            day: '2-digit',
-            month: '2-digit',
-            year: 'numeric',
-            hour: '2-digit',
-            minute: '2-digit'
-          })}
-          likes={post.likes}
-          comments={post.comments}
-          hasLiked={post.has_liked}
-          onRefresh={refreshPosts}
-        />
-      </motion.div>
-    ));
+
+    return posts.map((item, index) => {
+      // Um repost aparece como a publicação original, com quem repostou no topo
+      const post = isPlainRepost(item) ? item.repost_of! : item;
+
+      return (
+        <motion.div
+          key={item.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: Math.min((index % 20) * 0.05, 0.5) }} // Limitar o atraso para melhor desempenho
+        >
+          <Post
+            id={post.id}
+            author={{
+              id: post.user_id,
+              name: post.profiles.full_name || post.profiles.username,
+              username: post.profiles.username,
+              avatar: post.profiles.avatar_url || 'https://via.placeholder.com/150',
+              verified: post.profiles.username?.toLowerCase() === 'outliersofc'
+            }}
+            content={post.content}
+            images={post.images || []}
+            media={post.media}
+            tags={post.tags || []}
+            audience={post.audience as PostAudience}
+            timestamp={new Date(post.created_at).toLocaleString('pt-BR', {
+              day: '2-digit',
+              month: '2-digit',
+              year: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit'
+            })}
+            createdAt={post.created_at}
+            updatedAt={post.updated_at}
+            hiddenAt={post.hidden_at}
+            likes={post.likes}
+            comments={post.comments}
+            reposts={post.reposts}
+            hasLiked={post.has_liked}
+            hasReposted={post.has_reposted}
+            quotedPost={post.repost_of}
+            hasPoll={post.has_poll}
+            repostedBy={post !== item ? {
+              name: item.profiles.full_name || item.profiles.username,
+              username: item.profiles.username
+            } : undefined}
+            savedNote={item.saved_note}
+            onRefresh={refreshPosts}
+          />
+        </motion.div>
+      );
+    });
   }, [posts, refreshPosts]);
 
-  if (isLoading && posts.length === 0) {
+  if ((isLoading || loadError) && posts.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-10">
-        <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
-        <p className="text-muted-foreground text-center">Carregando publicações...</p>
-        
+        {isLoading && <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />}
+        {isLoading && <p className="text-muted-foreground text-center">Carregando publicações...</p>}
+
         {(showLoadingHelp || loadError) && (
           <div className="mt-4 max-w-md text-center">
             <Alert variant="default" className="bg-background border-primary/50">
@@ -221,8 +232,8 @@ const FeedList: React.FC<FeedListProps> = ({ onLoadStateChange }) => {
               <AlertDescription className="text-muted-foreground">
                 {loadError || 'O sistema pode estar enfrentando dificuldades de conexão. Tente novamente.'}
               </AlertDescription>
-              <Button 
-                size="sm" 
+              <Button
+                size="sm"
                 className="mt-2 bg-primary text-primary-foreground hover:bg-primary/90"
                 onClick={handleRetry}
               >
@@ -236,7 +247,9 @@ const FeedList: React.FC<FeedListProps> = ({ onLoadStateChange }) => {
     );
   }
 
-  if (!posts || posts.length === 0) {
+  if (posts.length === 0) {
+    if (emptyState) return <>{emptyState}</>;
+
     return (
       <motion.div
         initial={{ opacity: 0 }}
@@ -246,7 +259,9 @@ const FeedList: React.FC<FeedListProps> = ({ onLoadStateChange }) => {
       >
         <p className="text-muted-foreground">Nenhuma publicação encontrada.</p>
         <p className="text-sm text-muted-foreground mt-2">
-          Seja o primeiro a compartilhar conteúdo com a comunidade!
+          {scope.type === 'following'
+            ? 'Siga outras pessoas para ver as publicações delas aqui.'
+            : 'Seja o primeiro a compartilhar conteúdo com a comunidade!'}
         </p>
       </motion.div>
     );
@@ -259,31 +274,30 @@ const FeedList: React.FC<FeedListProps> = ({ onLoadStateChange }) => {
       transition={{ duration: 0.5 }}
       className="w-full max-w-xl mx-auto"
     >
+      {newPostIds.length > 0 && (
+        <div className="sticky top-4 z-40 flex justify-center pointer-events-none">
+          <Button
+            size="sm"
+            className="rounded-full shadow-lg pointer-events-auto bg-primary text-primary-foreground hover:bg-primary/90"
+            onClick={showNewPosts}
+          >
+            <ArrowUp className="mr-2 h-4 w-4" />
+            {newPostIds.length === 1
+              ? '1 nova publicação'
+              : `${newPostIds.length} novas publicações`}
+          </Button>
+        </div>
+      )}
+
       <div className="space-y-4">
         {postComponents}
-        
-        {hasMore && (
-          <div className="flex justify-center py-4">
-            <Button 
-              variant="outline"
-              onClick={loadMorePosts}
-              disabled={isLoading}
-              className="w-full"
-            >
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin mr-2" />
-              ) : (
-                "Carregar mais"
-              )}
-            </Button>
-          </div>
-        )}
-        
-        {isLoading && posts.length > 0 && (
-          <div className="flex justify-center py-4">
-            <Loader2 className="h-6 w-6 animate-spin text-primary" />
-          </div>
-        )}
+
+        <LoadMoreTrigger
+          onLoadMore={loadMorePosts}
+          isLoading={isFetchingNextPage}
+          hasMore={!!hasNextPage}
+          paused={isFetchNextPageError}
+        />
       </div>
     </motion.div>
   );
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface LoadMoreTriggerProps {
+  onLoadMore: () => void;
+  isLoading: boolean;
+  hasMore: boolean;
+  paused?: boolean;
+}
+
+const LoadMoreTrigger: React.FC<LoadMoreTriggerProps> = ({ onLoadMore, isLoading, hasMore, paused = false }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Carregar a próxima página quando o sentinela se aproxima da área visível
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || paused) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoading, paused]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      ) : (
+        // Alternativa para navegadores sem IntersectionObserver e após falhas
+        <Button variant="ghost" size="sm" onClick={onLoadMore}>
+          {paused ? 'Tentar novamente' : 'Carregar mais'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LoadMoreTrigger;
@@ -0,0 +1,290 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { MediaAttachment } from '@/lib/media';
+import { getErrorMessage } from '@/lib/errors';
+
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface ZoomState {
+  scale: number;
+  offset: Point;
+}
+
+const INITIAL_ZOOM: ZoomState = { scale: 1, offset: { x: 0, y: 0 } };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+interface ZoomableImageProps {
+  attachment: MediaAttachment;
+  active: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+// Imagem com pinça, roda do mouse e toque duplo para ampliar; ampliada, arrastar move a imagem
+// em vez de trocar de slide
+const ZoomableImage: React.FC<ZoomableImageProps> = ({ attachment, active, onZoomChange }) => {
+  const [zoom, setZoom] = useState<ZoomState>(INITIAL_ZOOM);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchDistanceRef = useRef<number | null>(null);
+
+  // Voltar ao tamanho normal ao sair do slide
+  useEffect(() => {
+    if (!active) setZoom(INITIAL_ZOOM);
+  }, [active]);
+
+  useEffect(() => {
+    if (active) onZoomChange(zoom.scale > 1);
+  }, [active, zoom.scale, onZoomChange]);
+
+  // Não deixar a imagem ampliada sair da área visível
+  const update = (scale: number, offset: Point) => {
+    const nextScale = clamp(scale, 1, MAX_ZOOM);
+    const rect = containerRef.current?.getBoundingClientRect();
+    const maxX = rect ? (rect.width * (nextScale - 1)) / 2 : 0;
+    const maxY = rect ? (rect.height * (nextScale - 1)) / 2 : 0;
+
+    setZoom({
+      scale: nextScale,
+      offset: nextScale === 1 ? { x: 0, y: 0 } : { x: clamp(offset.x, -maxX, maxX), y: clamp(offset.y, -maxY, maxY) },
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (zoom.scale > 1 || pointersRef.current.size > 1) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointersRef.current.get(e.pointerId);
+    if (!previous) return;
+
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchDistanceRef.current) {
+        update(zoom.scale * (distance / pinchDistanceRef.current), zoom.offset);
+      }
+      pinchDistanceRef.current = distance;
+      return;
+    }
+
+    if (zoom.scale > 1) {
+      update(zoom.scale, {
+        x: zoom.offset.x + e.clientX - previous.x,
+        y: zoom.offset.y + e.clientY - previous.y,
+      });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchDistanceRef.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "h-full w-full flex items-center justify-center overflow-hidden select-none",
+        zoom.scale > 1 ? "cursor-grab touch-none" : "cursor-zoom-in touch-pan-y"
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={(e) => update(zoom.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1), zoom.offset)}
+      onDoubleClick={() => update(zoom.scale > 1 ? 1 : DOUBLE_TAP_ZOOM, { x: 0, y: 0 })}
+    >
+      <img
+        src={attachment.url}
+        alt={attachment.alt || ''}
+        draggable={false}
+        className="max-h-full max-w-full object-contain transition-transform duration-75"
+        style={{ transform: `translate(${zoom.offset.x}px, ${zoom.offset.y}px) scale(${zoom.scale})` }}
+      />
+    </div>
+  );
+};
+
+interface VideoSlideProps {
+  attachment: MediaAttachment;
+  active: boolean;
+}
+
+const VideoSlide: React.FC<VideoSlideProps> = ({ attachment, active }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!active) videoRef.current?.pause();
+  }, [active]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={attachment.url}
+      poster={attachment.poster_url ?? undefined}
+      controls
+      playsInline
+      preload="metadata"
+      aria-label={attachment.alt || undefined}
+      className="max-h-full max-w-full"
+    />
+  );
+};
+
+// Nome do arquivo baixado: o fim do caminho no Storage
+const fileNameFromUrl = (url: string) => decodeURIComponent(new URL(url).pathname.split('/').pop() || 'midia');
+
+interface MediaViewerProps {
+  media: MediaAttachment[];
+  // Mídia exibida ao abrir
+  startIndex: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Visualizador em tela cheia das mídias de uma publicação: deslizar ou setas para navegar,
+// pinça para ampliar, download e a descrição de cada mídia
+const MediaViewer: React.FC<MediaViewerProps> = ({ media, startIndex, open, onOpenChange }) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(startIndex);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    if (open) setCurrent(startIndex);
+  }, [open, startIndex]);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  const attachment = media[current];
+
+  // Baixar pelo blob, já que o atributo download é ignorado em URLs de outra origem
+  const handleDownload = async () => {
+    if (!attachment) return;
+
+    try {
+      setIsDownloading(true);
+      const response = await fetch(attachment.url);
+      if (!response.ok) throw new Error(`Falha ao baixar (${response.status})`);
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileNameFromUrl(attachment.url);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erro ao baixar mídia:', error);
+      toast.error('Não foi possível baixar a mídia', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  // O carrossel só trata as setas quando o foco está nele; aqui valem para o visualizador todo
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Nos controles do vídeo as setas avançam e voltam o próprio vídeo
+    if (e.defaultPrevented || e.target instanceof HTMLVideoElement) return;
+
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      api?.scrollPrev();
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      api?.scrollNext();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="flex h-[100dvh] w-screen max-w-none flex-col gap-0 border-none bg-black/95 p-0 text-white sm:rounded-none [&>button]:text-white [&>button]:opacity-90"
+        onKeyDown={handleKeyDown}
+      >
+        <DialogTitle className="sr-only">Mídia da publicação</DialogTitle>
+        <DialogDescription className="sr-only">
+          Use as setas ou deslize para navegar. Pince, use a roda do mouse ou toque duas vezes para ampliar.
+        </DialogDescription>
+
+        <div className="flex items-center gap-2 px-4 py-3 pr-12">
+          {media.length > 1 && (
+            <span className="text-sm text-white/70" aria-live="polite">
+              {current + 1} / {media.length}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDownload}
+            disabled={isDownloading || !attachment}
+            className="ml-auto text-white hover:bg-white/10 hover:text-white"
+          >
+            {isDownloading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Download className="h-4 w-4 mr-2" />}
+            Baixar
+          </Button>
+        </div>
+
+        <Carousel
+          setApi={setApi}
+          opts={{ startIndex, watchDrag: !isZoomed }}
+          className="flex-1 min-h-0 [&>div]:h-full"
+        >
+          <CarouselContent className="h-full">
+            {media.map((item, index) => (
+              <CarouselItem key={item.url} className="h-full flex items-center justify-center">
+                {item.kind === 'video' ? (
+                  <VideoSlide attachment={item} active={index === current} />
+                ) : (
+                  <ZoomableImage attachment={item} active={index === current} onZoomChange={setIsZoomed} />
+                )}
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {media.length > 1 && (
+            <>
+              <CarouselPrevious className="left-4 hidden sm:inline-flex text-foreground" />
+              <CarouselNext className="right-4 hidden sm:inline-flex text-foreground" />
+            </>
+          )}
+        </Carousel>
+
+        <div className="min-h-12 px-4 py-3">
+          {attachment?.alt && (
+            <p className="mx-auto max-w-2xl text-sm text-white/90 whitespace-pre-line break-words">
+              {attachment.alt}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaViewer;
@@ -4,56 +4,216 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Heart, MessageCircle, Share2, MoreHorizontal, CheckCircle, Link2, Loader2 } from 'lucide-react';
+import { Heart, MessageCircle, Share2, MoreHorizontal, CheckCircle, Link2, Loader2, Pencil, Trash2, BellOff, Flag, EyeOff, Repeat2, Quote, Bookmark, StickyNote } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { tagPath } from '@/lib/tags';
+import { audienceOption, PostAudience } from '@/lib/audience';
+import { getMediaAttachments } from '@/lib/media';
+import { getErrorMessage } from '@/lib/errors';
 import CommentList from './CommentList';
 import CommentForm from './CommentForm';
+import EditPostDialog from '@/components/post/EditPostDialog';
+import PostRevisionsDialog from '@/components/post/PostRevisionsDialog';
+import ReportDialog from '@/components/moderation/ReportDialog';
+import QuotePostDialog from '@/components/post/QuotePostDialog';
+import QuotedPostCard from './QuotedPostCard';
+import VideoPlayer from './VideoPlayer';
+import MediaViewer from './MediaViewer';
+import PollCard from '@/components/post/PollCard';
+import SaveToCollectionDialog from '@/components/collections/SaveToCollectionDialog';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  deletePost,
+  createNotification,
+  createRepost,
+  undoRepost,
+  getCommentsCountForPost,
+  invalidateCommentsCount
+} from '@/integrations/supabase/functions';
+import type { PostWithProfile } from '@/integrations/supabase/utils';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Json, Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
 import { toast } from 'sonner';
 import { Link, useNavigate } from 'react-router-dom';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface PostProps {
   id: string;
   author: {
+    id?: string;
     name: string;
     username: string;
     avatar: string;
     verified?: boolean;
   };
   content: string;
+  highlightedContent?: string;
   images?: string[];
+  // Metadados de cada mídia (posts.media)
+  media?: Json | null;
+  tags?: string[];
+  audience?: PostAudience;
   timestamp: string;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  hiddenAt?: string | null;
   likes: number;
   comments: number;
+  reposts?: number;
   hasLiked?: boolean;
+  hasReposted?: boolean;
+  // Publicação citada: null quando está indisponível, ausente quando não é uma citação
+  quotedPost?: PostWithProfile | null;
+  // Quem repostou, quando a publicação aparece por causa de um repost
+  repostedBy?: { name: string; username: string };
+  hasPoll?: boolean;
+  // Nota do item salvo, nas listas de salvos e coleções
+  savedNote?: string | null;
+  defaultShowComments?: boolean;
   onRefresh?: () => void;
+  onDeleted?: () => void;
 }
 
+// Destacar os trechos marcados pela busca (<mark>…</mark>) sem interpretar o resto como HTML
+const renderHighlightedContent = (text: string) => {
+  return text.split(/(<mark>.*?<\/mark>)/g).map((part, index) => {
+    if (part.startsWith('<mark>') && part.endsWith('</mark>')) {
+      return (
+        <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      );
+    }
+    return part;
+  });
+};
+
+// Considerar editado apenas quando a diferença supera a latência entre insert e defaults do banco
+const wasEdited = (createdAt?: string | null, updatedAt?: string | null) => {
+  if (!createdAt || !updatedAt) return false;
+  return new Date(updatedAt).getTime() - new Date(createdAt).getTime() > 1000;
+};
+
 const Post: React.FC<PostProps> = ({
   id,
   author,
   content,
+  highlightedContent,
   images = [],
+  media = null,
+  tags = [],
+  audience = 'public',
   timestamp,
+  createdAt,
+  updatedAt,
+  hiddenAt,
   likes,
   comments,
+  reposts = 0,
   hasLiked = false,
+  hasReposted = false,
+  quotedPost,
+  repostedBy,
+  hasPoll = false,
+  savedNote,
+  defaultShowComments = false,
   onRefresh,
+  onDeleted,
 }) => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { setMuted } = useNotificationPreferences(false);
+  const [postContent, setPostContent] = useState(content);
+  const [postImages, setPostImages] = useState(images);
+  const [postMedia, setPostMedia] = useState(media);
+  // Mídia aberta no visualizador em tela cheia
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [postTags, setPostTags] = useState(tags);
+  const [postAudience, setPostAudience] = useState<PostAudience>(audience);
+  const [postUpdatedAt, setPostUpdatedAt] = useState(updatedAt);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isRevisionsOpen, setIsRevisionsOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(false);
   const [liked, setLiked] = useState(hasLiked);
   const [likeCount, setLikeCount] = useState(likes);
-  const [showComments, setShowComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(comments);
+  const [commentsKey, setCommentsKey] = useState(0);
+  const [showComments, setShowComments] = useState(defaultShowComments);
   const [isLikeLoading, setIsLikeLoading] = useState(false);
   const [isShareLoading, setIsShareLoading] = useState(false);
+  const [reposted, setReposted] = useState(hasReposted);
+  const [repostCount, setRepostCount] = useState(reposts);
+  const [isRepostLoading, setIsRepostLoading] = useState(false);
+  const [isQuoteOpen, setIsQuoteOpen] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+
+  // Curtidas e comentários de outras pessoas chegam pelo canal de tempo real;
+  // as ações do próprio usuário já atualizam os contadores localmente
+  useRealtimeSubscription('likes', (payload) => {
+    const like = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    if (like.post_id !== id || like.user_id === user?.id) return;
+
+    if (payload.eventType === 'INSERT') {
+      setLikeCount((prev) => prev + 1);
+    } else if (payload.eventType === 'DELETE') {
+      setLikeCount((prev) => Math.max(0, prev - 1));
+    }
+  });
+
+  // Remoções podem vir de quem comentou ou do autor do post; recontar evita descontar duas vezes
+  const refreshCommentCount = async () => {
+    invalidateCommentsCount(id);
+    setCommentCount(await getCommentsCountForPost(id));
+  };
+
+  useRealtimeSubscription('comments', (payload) => {
+    const comment = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    if (comment.post_id !== id) return;
+
+    if (payload.eventType === 'INSERT') {
+      if (comment.user_id !== user?.id) setCommentCount((prev) => prev + 1);
+    } else if (payload.eventType === 'DELETE') {
+      if (!payload.old.deleted_at) refreshCommentCount();
+    } else if (payload.new.deleted_at && !payload.old.deleted_at) {
+      refreshCommentCount();
+    }
+  });
+
+  useRealtimeSubscription('posts', (payload) => {
+    if (payload.eventType === 'UPDATE' && payload.new.id === id) {
+      setPostContent(payload.new.content);
+      setPostImages(payload.new.images || []);
+      setPostMedia(payload.new.media);
+      setPostTags(payload.new.tags || []);
+      setPostAudience(payload.new.audience as PostAudience);
+      setPostUpdatedAt(payload.new.updated_at);
+    } else if (payload.eventType === 'DELETE' && payload.old.id === id) {
+      setIsDeleted(true);
+    }
+  });
 
   const handleLike = async () => {
     if (!user) {
@@ -83,6 +243,10 @@ const Post: React.FC<PostProps> = ({
         
         if (error) throw error;
         
+        if (author.id) {
+          await createNotification('like', author.id, user.id, id);
+        }
+        
         setLikeCount((prev) => prev + 1);
         setLiked(true);
       }
@@ -96,6 +260,42 @@ const Post: React.FC<PostProps> = ({
     }
   };
 
+  const handleRepost = async () => {
+    if (!user) {
+      toast.error('É necessário fazer login para repostar publicações');
+      return;
+    }
+
+    try {
+      setIsRepostLoading(true);
+
+      if (reposted) {
+        await undoRepost(user.id, id);
+        setRepostCount((prev) => Math.max(prev - 1, 0));
+        setReposted(false);
+      } else {
+        await createRepost(user.id, id);
+
+        if (author.id) {
+          await createNotification('repost', author.id, user.id, id);
+        }
+
+        setRepostCount((prev) => prev + 1);
+        setReposted(true);
+        toast.success('Publicação repostada para seus seguidores');
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+    } catch (error) {
+      console.error('Error toggling repost:', error);
+      toast.error('Erro ao repostar publicação', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsRepostLoading(false);
+    }
+  };
+
   const handleShare = async () => {
     try {
       setIsShareLoading(true);
@@ -106,7 +306,7 @@ const Post: React.FC<PostProps> = ({
       if (navigator.share) {
         await navigator.share({
           title: `Publicação de ${author.name}`,
-          text: content.substring(0, 100) + (content.length > 100 ? '...' : ''),
+          text: postContent.substring(0, 100) + (postContent.length > 100 ? '...' : ''),
           url: url,
         });
       } else {
@@ -158,10 +358,70 @@ const Post: React.FC<PostProps> = ({
     }
   };
 
+  const handleCommentAdded = () => {
+    setCommentCount((prev) => prev + 1);
+    setCommentsKey((prev) => prev + 1);
+    if (onRefresh) onRefresh();
+  };
+
+  const handleReplyAdded = () => {
+    setCommentCount((prev) => prev + 1);
+    if (onRefresh) onRefresh();
+  };
+
+  const handlePostSaved = (updated: Tables<'posts'>) => {
+    setPostContent(updated.content);
+    setPostImages(updated.images || []);
+    setPostMedia(updated.media);
+    setPostTags(updated.tags || []);
+    setPostAudience(updated.audience as PostAudience);
+    setPostUpdatedAt(updated.updated_at);
+    queryClient.invalidateQueries({ queryKey: ['posts'] });
+  };
+
+  const handleDelete = async () => {
+    if (!user) return;
+
+    try {
+      setIsDeleting(true);
+      await deletePost(id, user.id);
+      
+      toast.success('Publicação excluída');
+      setIsDeleteOpen(false);
+      setIsDeleted(true);
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      
+      if (onDeleted) onDeleted();
+    } catch (error) {
+      console.error('Error deleting post:', error);
+      toast.error('Erro ao excluir publicação', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleMuteNotifications = () => {
+    setMuted(
+      { target: 'post', targetId: id, muted: true },
+      { onSuccess: () => toast.success('Você não receberá mais notificações desta publicação') }
+    );
+  };
+
+  const isOwner = !!user && !!author.id && user.id === author.id;
+  const isEdited = wasEdited(createdAt, postUpdatedAt);
+  const audienceInfo = audienceOption(postAudience);
+  const attachments = getMediaAttachments(postImages, postMedia);
+  // Só publicações públicas podem ser repostadas ou citadas
+  const canRepost = postAudience === 'public' && !hiddenAt;
+
   const navigateToProfile = () => {
     navigate(`/profile/${author.username}`);
   };
 
+  if (isDeleted) return null;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -170,6 +430,15 @@ const Post: React.FC<PostProps> = ({
       className="w-full mb-4"
     >
       <Card className="overflow-hidden border-none shadow-sm">
+        {repostedBy && (
+          <Link
+            to={`/profile/${repostedBy.username}`}
+            className="flex items-center gap-2 px-4 pt-3 -mb-2 text-xs text-muted-foreground hover:underline"
+          >
+            <Repeat2 className="h-3.5 w-3.5" />
+            <span>{repostedBy.name} repostou</span>
+          </Link>
+        )}
         <CardHeader className="flex flex-row items-center gap-3 p-4">
           <Avatar className="h-10 w-10 cursor-pointer" onClick={navigateToProfile}>
             <AvatarImage src={author.avatar} alt={author.name} />
@@ -196,50 +465,153 @@ const Post: React.FC<PostProps> = ({
                   <Link2 className="mr-2 h-4 w-4" />
                   <span>Compartilhar perfil</span>
                 </DropdownMenuItem>
+                {user && (
+                  <DropdownMenuItem onClick={() => setIsSaveOpen(true)}>
+                    <Bookmark className="mr-2 h-4 w-4" />
+                    <span>Salvar</span>
+                  </DropdownMenuItem>
+                )}
+                {isOwner && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      <span>Editar publicação</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleMuteNotifications}>
+                      <BellOff className="mr-2 h-4 w-4" />
+                      <span>Silenciar notificações</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setIsDeleteOpen(true)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Excluir publicação</span>
+                    </DropdownMenuItem>
+                  </>
+                )}
+                {user && !isOwner && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => setIsReportOpen(true)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Flag className="mr-2 h-4 w-4" />
+                      <span>Denunciar</span>
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
         </CardHeader>
 
         <CardContent className="p-4 pt-0">
-          <p className="whitespace-pre-line mb-3 text-foreground">{content}</p>
+          {savedNote && (
+            <div className="flex items-start gap-2 mb-3 rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+              <StickyNote className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+              <span className="whitespace-pre-line">{savedNote}</span>
+            </div>
+          )}
+          {hiddenAt && isOwner && (
+            <div className="flex items-center gap-2 mb-3 rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+              <EyeOff className="h-3.5 w-3.5 shrink-0" />
+              <span>Esta publicação foi ocultada pela moderação e só é visível para você.</span>
+            </div>
+          )}
+          <p className="whitespace-pre-line mb-3 text-foreground">
+            {highlightedContent && postContent === content
+              ? renderHighlightedContent(highlightedContent)
+              : postContent}
+          </p>
           
-          {images && images.length > 0 && (
+          {postTags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {postTags.map(tag => (
+                <Link
+                  key={tag}
+                  to={tagPath(tag)}
+                  className="bg-primary/10 border border-primary/20 text-primary rounded-full px-3 py-0.5 text-xs hover:bg-primary/20 transition-colors"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </div>
+          )}
+          
+          {quotedPost !== undefined && (
+            <div className="mb-3">
+              <QuotedPostCard post={quotedPost} />
+            </div>
+          )}
+
+          {hasPoll && <PollCard postId={id} />}
+
+          {attachments.length > 0 && (
             <div className={cn(
               "rounded-xl overflow-hidden mt-2",
-              images.length > 1 ? "grid grid-cols-2 gap-1" : ""
+              attachments.length > 1 ? "grid grid-cols-2 gap-1" : ""
             )}>
-              {images.map((img, i) => (
+              {attachments.map((attachment, i) => (
                 <motion.div
-                  key={i}
+                  key={attachment.url}
                   className={cn(
-                    "overflow-hidden",
-                    images.length === 1 ? "max-h-[400px]" : "h-40"
+                    "overflow-hidden bg-cover bg-center",
+                    attachments.length === 1 ? "max-h-[400px]" : "h-40"
                   )}
+                  style={attachment.placeholder ? { backgroundImage: `url(${attachment.placeholder})` } : undefined}
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
                   transition={{ delay: 0.1 * i }}
                 >
-                  {img.includes('.mp4') || img.includes('.webm') || img.includes('.mov') ? (
-                    <video 
-                      src={img} 
-                      controls 
-                      className="w-full h-full object-cover"
-                    />
+                  {attachment.kind === 'video' ? (
+                    <VideoPlayer attachment={attachment} className={attachments.length === 1 ? "max-h-[400px]" : undefined} />
                   ) : (
-                    <img
-                      src={img}
-                      alt={`Post image ${i+1}`}
-                      className="w-full h-full object-cover"
-                    />
+                    <button
+                      type="button"
+                      onClick={() => setViewerIndex(i)}
+                      className="block w-full h-full cursor-zoom-in"
+                      aria-label="Ver em tela cheia"
+                    >
+                      <img
+                        src={attachment.url}
+                        alt={attachment.alt || `Post image ${i+1}`}
+                        width={attachment.width ?? undefined}
+                        height={attachment.height ?? undefined}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
                   )}
                 </motion.div>
               ))}
             </div>
           )}
           
-          <div className="text-xs text-muted-foreground mt-3">
-            {timestamp}
+          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-3">
+            <Link to={`/post/${id}`} className="hover:underline">
+              {timestamp}
+            </Link>
+            {postAudience !== 'public' && (
+              <>
+                <span>·</span>
+                <audienceInfo.icon className="h-3 w-3" aria-label={audienceInfo.label} />
+              </>
+            )}
+            {isEdited && (
+              <>
+                <span>·</span>
+                <button
+                  type="button"
+                  className="hover:underline"
+                  onClick={() => setIsRevisionsOpen(true)}
+                >
+                  editado
+                </button>
+              </>
+            )}
           </div>
         </CardContent>
 
@@ -270,9 +642,51 @@ const Post: React.FC<PostProps> = ({
               onClick={() => setShowComments(!showComments)}
             >
               <MessageCircle className="h-4 w-4" />
-              <span>{comments}</span>
+              <span>{commentCount}</span>
             </Button>
             
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn(
+                    "flex items-center gap-2 rounded-full",
+                    reposted ? "text-green-600" : ""
+                  )}
+                  disabled={isRepostLoading || (!canRepost && !reposted)}
+                  title={canRepost ? undefined : 'Apenas publicações públicas podem ser repostadas'}
+                >
+                  {isRepostLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Repeat2 className="h-4 w-4" />
+                  )}
+                  <span>{repostCount}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="center">
+                <DropdownMenuItem onClick={handleRepost}>
+                  <Repeat2 className="mr-2 h-4 w-4" />
+                  <span>{reposted ? 'Desfazer repost' : 'Repostar'}</span>
+                </DropdownMenuItem>
+                {canRepost && (
+                  <DropdownMenuItem
+                    onClick={() => {
+                      if (!user) {
+                        toast.error('É necessário fazer login para citar publicações');
+                        return;
+                      }
+                      setIsQuoteOpen(true);
+                    }}
+                  >
+                    <Quote className="mr-2 h-4 w-4" />
+                    <span>Citar</span>
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             <Button 
               variant="ghost" 
               size="sm" 
@@ -300,13 +714,110 @@ const Post: React.FC<PostProps> = ({
               className="overflow-hidden border-t"
             >
               <div className="p-4">
-                <CommentForm postId={id} onCommentAdded={onRefresh} />
-                <CommentList postId={id} />
+                <CommentForm postId={id} onCommentAdded={handleCommentAdded} />
+                <CommentList
+                  key={commentsKey}
+                  postId={id}
+                  postAuthorId={author.id}
+                  onReplyAdded={handleReplyAdded}
+                  onCommentRemoved={refreshCommentCount}
+                />
               </div>
             </motion.div>
           )}
         </AnimatePresence>
       </Card>
+
+      {attachments.length > 0 && (
+        <MediaViewer
+          media={attachments}
+          startIndex={viewerIndex ?? 0}
+          open={viewerIndex !== null}
+          onOpenChange={(open) => !open && setViewerIndex(null)}
+        />
+      )}
+
+      {isOwner && (
+        <EditPostDialog
+          post={{
+            id,
+            content: postContent,
+            images: postImages,
+            media: postMedia,
+            tags: postTags,
+            audience: postAudience
+          }}
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          onSaved={handlePostSaved}
+        />
+      )}
+
+      {user && canRepost && (
+        <QuotePostDialog
+          post={{
+            id,
+            content: postContent,
+            images: postImages,
+            media: postMedia,
+            created_at: createdAt ?? null,
+            profiles: { username: author.username, full_name: author.name, avatar_url: author.avatar }
+          }}
+          authorId={author.id}
+          open={isQuoteOpen}
+          onOpenChange={setIsQuoteOpen}
+          onQuoted={() => setRepostCount((prev) => prev + 1)}
+        />
+      )}
+
+      {user && (
+        <SaveToCollectionDialog
+          postId={id}
+          open={isSaveOpen}
+          onOpenChange={setIsSaveOpen}
+        />
+      )}
+
+      {user && !isOwner && (
+        <ReportDialog
+          open={isReportOpen}
+          onOpenChange={setIsReportOpen}
+          targetType="post"
+          targetId={id}
+        />
+      )}
+
+      {isEdited && (
+        <PostRevisionsDialog
+          postId={id}
+          open={isRevisionsOpen}
+          onOpenChange={setIsRevisionsOpen}
+        />
+      )}
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir publicação?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A publicação, suas curtidas, comentários e mídias serão removidos permanentemente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Excluir'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </motion.div>
   );
 };
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { EyeOff } from 'lucide-react';
+import type { PostWithProfile } from '@/integrations/supabase/utils';
+import { getMediaAttachments } from '@/lib/media';
+
+export type QuotedPost = Pick<PostWithProfile, 'id' | 'content' | 'images' | 'media' | 'created_at' | 'profiles'>;
+
+interface QuotedPostCardProps {
+  // null quando a original foi excluída ou deixou de ser visível para o visitante
+  post: QuotedPost | null;
+  linked?: boolean;
+}
+
+const QuotedPostCard: React.FC<QuotedPostCardProps> = ({ post, linked = true }) => {
+  if (!post) {
+    return (
+      <div className="flex items-center gap-2 rounded-xl border px-3 py-3 text-sm text-muted-foreground">
+        <EyeOff className="h-4 w-4 shrink-0" />
+        <span>Esta publicação não está mais disponível.</span>
+      </div>
+    );
+  }
+
+  const name = post.profiles.full_name || post.profiles.username;
+  // Primeira imagem, ou a capa do primeiro vídeo que tiver uma
+  const cover = getMediaAttachments(post.images, post.media)
+    .map(attachment => (attachment.kind === 'image' ? attachment.url : attachment.poster_url))
+    .find(Boolean);
+
+  const content = (
+    <div className="rounded-xl border p-3 transition-colors hover:bg-muted/40">
+      <div className="flex items-center gap-2 mb-1">
+        <Avatar className="h-5 w-5">
+          <AvatarImage src={post.profiles.avatar_url || undefined} alt={name} />
+          <AvatarFallback>{name[0]}</AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-medium truncate">{name}</span>
+        <span className="text-xs text-muted-foreground truncate">@{post.profiles.username}</span>
+        {post.created_at && (
+          <span className="text-xs text-muted-foreground ml-auto shrink-0">
+            {new Date(post.created_at).toLocaleDateString('pt-BR')}
+          </span>
+        )}
+      </div>
+      {post.content && (
+        <p className="text-sm whitespace-pre-line line-clamp-4 text-foreground">{post.content}</p>
+      )}
+      {cover && (
+        <img src={cover} alt="" className="mt-2 max-h-40 w-full rounded-lg object-cover" />
+      )}
+    </div>
+  );
+
+  if (!linked) return content;
+
+  return (
+    <Link to={`/post/${post.id}`} className="block" onClick={(e) => e.stopPropagation()}>
+      {content}
+    </Link>
+  );
+};
+
+export default QuotedPostCard;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import type { MediaAttachment } from '@/lib/media';
+
+// Fração do vídeo que precisa estar na tela para começar a tocar
+const AUTOPLAY_THRESHOLD = 0.6;
+
+interface VideoPlayerProps {
+  attachment: MediaAttachment;
+  className?: string;
+}
+
+// Vídeo do feed: toca sem som enquanto está visível e pausa ao sair da tela. Quem pausar
+// manualmente continua no controle até dar play de novo.
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ attachment, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const pausedByUserRef = useRef(false);
+  // Pausas feitas aqui disparam o mesmo evento que as do usuário
+  const autoPausingRef = useRef(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !('IntersectionObserver' in window)) return;
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const entry = entries[0];
+        if (!entry) return;
+
+        if (entry.intersectionRatio >= AUTOPLAY_THRESHOLD) {
+          if (!pausedByUserRef.current && video.paused) {
+            // O navegador pode recusar o autoplay (economia de dados, por exemplo); fica o play manual
+            video.play().catch(() => undefined);
+          }
+        } else if (!video.paused) {
+          autoPausingRef.current = true;
+          video.pause();
+        }
+      },
+      { threshold: [0, AUTOPLAY_THRESHOLD] }
+    );
+
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, []);
+
+  const handlePause = () => {
+    if (autoPausingRef.current) {
+      autoPausingRef.current = false;
+      return;
+    }
+    pausedByUserRef.current = true;
+  };
+
+  return (
+    <video
+      ref={videoRef}
+      src={attachment.url}
+      poster={attachment.poster_url ?? undefined}
+      width={attachment.width ?? undefined}
+      height={attachment.height ?? undefined}
+      muted
+      loop
+      playsInline
+      controls
+      preload="metadata"
+      onPlay={() => { pausedByUserRef.current = false; }}
+      onPause={handlePause}
+      className={cn("w-full h-full object-cover bg-black", className)}
+    />
+  );
+};
+
+export default VideoPlayer;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Search, Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { addCloseFriend, getCloseFriends, removeCloseFriend, MessageProfile } from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
+
+const CloseFriendsList: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<MessageProfile[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const queryKey = ['close_friends', user?.id ?? null];
+
+  const { data: friends = [], isPending } = useQuery({
+    queryKey,
+    queryFn: () => getCloseFriends(user!.id),
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (searchTerm.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const searchUsers = async () => {
+      setIsSearching(true);
+
+      try {
+        const term = searchTerm.trim().replace(/[%_\\,()]/g, '');
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, username, full_name, avatar_url')
+          .or(`username.ilike.%${term}%,full_name.ilike.%${term}%`)
+          .neq('id', user?.id || '')
+          .limit(5);
+
+        if (error) throw error;
+
+        setResults(data || []);
+      } catch (error) {
+        console.error('Erro ao buscar usuários:', error);
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    };
+
+    const timer = setTimeout(searchUsers, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, user?.id]);
+
+  const handleToggle = async (friendId: string, isFriend: boolean) => {
+    if (!user) return;
+
+    try {
+      setSavingId(friendId);
+      if (isFriend) {
+        await removeCloseFriend(user.id, friendId);
+      } else {
+        await addCloseFriend(user.id, friendId);
+        setSearchTerm('');
+      }
+      queryClient.invalidateQueries({ queryKey: ['close_friends'] });
+    } catch (error) {
+      console.error('Erro ao atualizar amigos próximos:', error);
+      toast.error('Não foi possível atualizar sua lista de amigos próximos', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const friendIds = new Set(friends.map(friend => friend.friend_id));
+  const suggestions = results.filter(profile => !friendIds.has(profile.id));
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Adicionar pessoas..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-9"
+        />
+        {isSearching && (
+          <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="space-y-1 rounded-md border p-1">
+          {suggestions.map(profile => (
+            <button
+              key={profile.id}
+              type="button"
+              onClick={() => handleToggle(profile.id, false)}
+              disabled={savingId === profile.id}
+              className="w-full flex items-center gap-3 p-2 rounded-md text-left hover:bg-muted/50"
+            >
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={profile.avatar_url || undefined} alt={profile.username} />
+                <AvatarFallback>{profile.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{profile.full_name || profile.username}</p>
+                <p className="text-xs text-muted-foreground truncate">@{profile.username}</p>
+              </div>
+              {savingId === profile.id
+                ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                : <Plus className="h-4 w-4 text-primary" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isPending ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : friends.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum amigo próximo ainda.</p>
+      ) : (
+        <div className="space-y-3">
+          {friends.map(friend => (
+            <div key={friend.friend_id} className="flex items-center gap-3">
+              <Link to={`/profile/${friend.profile?.username}`} className="flex items-center gap-3 flex-1 min-w-0">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={friend.profile?.avatar_url || undefined} alt={friend.profile?.username} />
+                  <AvatarFallback>{friend.profile?.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {friend.profile?.full_name || friend.profile?.username || 'Usuário'}
+                  </p>
+                  {friend.profile && (
+                    <p className="text-xs text-muted-foreground truncate">@{friend.profile.username}</p>
+                  )}
+                </div>
+              </Link>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleToggle(friend.friend_id, true)}
+                disabled={savingId === friend.friend_id}
+              >
+                Remover
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CloseFriendsList;
@@ -3,8 +3,16 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  createNotification,
+  getFollowStatus,
+  requestFollow,
+  cancelFollowRequest,
+  FollowStatus
+} from '@/integrations/supabase/functions';
+import { useUserBlocks } from '@/hooks/useUserBlocks';
 import { toast } from 'sonner';
-import { UserPlus, UserCheck, Loader2 } from 'lucide-react';
+import { UserPlus, UserCheck, Loader2, Ban, Clock } from 'lucide-react';
 
 interface FollowButtonProps {
   targetUserId: string;
@@ -22,8 +30,11 @@ const FollowButton: React.FC<FollowButtonProps> = ({
   size = 'default'
 }) => {
   const { user } = useAuth();
-  const [isFollowing, setIsFollowing] = useState(false);
+  const [status, setStatus] = useState<FollowStatus>('none');
+  const [isPrivate, setIsPrivate] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const { isBlocked, isBlockedBy, removeBlock, isSaving } = useUserBlocks();
+  const blocked = isBlocked(targetUserId);
 
   useEffect(() => {
     const checkFollowStatus = async () => {
@@ -33,15 +44,9 @@ const FollowButton: React.FC<FollowButtonProps> = ({
       }
 
       try {
-        const { data, error } = await supabase
-          .from('follows')
-          .select('*')
-          .eq('follower_id', user.id)
-          .eq('following_id', targetUserId)
-          .maybeSingle();
-
-        if (error) throw error;
-        setIsFollowing(!!data);
+        const followStatus = await getFollowStatus(user.id, targetUserId);
+        setStatus(followStatus.status);
+        setIsPrivate(followStatus.isPrivate);
       } catch (error: any) {
         console.error('Error checking follow status:', error);
       } finally {
@@ -50,7 +55,7 @@ const FollowButton: React.FC<FollowButtonProps> = ({
     };
 
     checkFollowStatus();
-  }, [user, targetUserId]);
+  }, [user, targetUserId, blocked]);
 
   const handleFollowToggle = async () => {
     if (!user) {
@@ -61,7 +66,7 @@ const FollowButton: React.FC<FollowButtonProps> = ({
     setIsLoading(true);
 
     try {
-      if (isFollowing) {
+      if (status === 'following') {
         // Unfollow
         const { error } = await supabase
           .from('follows')
@@ -70,9 +75,19 @@ const FollowButton: React.FC<FollowButtonProps> = ({
           .eq('following_id', targetUserId);
 
         if (error) throw error;
-        setIsFollowing(false);
+        setStatus('none');
         toast.success('Você deixou de seguir este usuário');
         if (onFollowChange) onFollowChange(false);
+      } else if (status === 'requested') {
+        await cancelFollowRequest(user.id, targetUserId);
+        setStatus('none');
+        toast.success('Solicitação cancelada');
+      } else if (isPrivate) {
+        // Contas privadas precisam aprovar quem as segue
+        await requestFollow(user.id, targetUserId);
+        await createNotification('follow_request', targetUserId, user.id);
+        setStatus('requested');
+        toast.success('Solicitação enviada');
       } else {
         // Follow
         const { error } = await supabase
@@ -83,7 +98,8 @@ const FollowButton: React.FC<FollowButtonProps> = ({
           });
 
         if (error) throw error;
-        setIsFollowing(true);
+        await createNotification('follow', targetUserId, user.id);
+        setStatus('following');
         toast.success('Você começou a seguir este usuário');
         if (onFollowChange) onFollowChange(true);
       }
@@ -101,21 +117,52 @@ const FollowButton: React.FC<FollowButtonProps> = ({
     return null; // Don't show follow button for own profile
   }
 
+  // Blocks remove follows in both directions; whoever was blocked doesn't see the button at all
+  if (isBlockedBy(targetUserId)) {
+    return null;
+  }
+
+  if (blocked) {
+    return (
+      <Button
+        onClick={() => removeBlock(targetUserId, { onSuccess: () => toast.success('Usuário desbloqueado') })}
+        disabled={isSaving}
+        variant="outline"
+        size={size}
+        className={className}
+      >
+        {isSaving ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <>
+            <Ban className="h-4 w-4 mr-2" />
+            Desbloquear
+          </>
+        )}
+      </Button>
+    );
+  }
+
   return (
     <Button
       onClick={handleFollowToggle}
       disabled={isLoading || !user}
-      variant={variant}
+      variant={status === 'requested' ? 'outline' : variant}
       size={size}
       className={className}
     >
       {isLoading ? (
         <Loader2 className="h-4 w-4 animate-spin" />
-      ) : isFollowing ? (
+      ) : status === 'following' ? (
         <>
           <UserCheck className="h-4 w-4 mr-2" />
           Seguindo
         </>
+      ) : status === 'requested' ? (
+        <>
+          <Clock className="h-4 w-4 mr-2" />
+          Solicitado
+        </>
       ) : (
         <>
           <UserPlus className="h-4 w-4 mr-2" />
@@ -15,13 +15,15 @@ interface FollowersDialogProps {
   username: string;
   followersCount: number;
   followingCount: number;
+  canViewConnections?: boolean;
 }
 
 const FollowersDialog: React.FC<FollowersDialogProps> = ({ 
   userId, 
   username,
   followersCount,
-  followingCount 
+  followingCount,
+  canViewConnections = true
 }) => {
   const { user } = useAuth();
   const [followers, setFollowers] = useState<any[]>([]);
@@ -105,7 +107,11 @@ const FollowersDialog: React.FC<FollowersDialogProps> = ({
 
   return (
     <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-      <div className="flex gap-2 text-sm cursor-pointer" onClick={() => setIsDialogOpen(true)}>
+      {/* Contas privadas só mostram as conexões para seguidores aprovados */}
+      <div
+        className={canViewConnections ? "flex gap-2 text-sm cursor-pointer" : "flex gap-2 text-sm"}
+        onClick={() => canViewConnections && setIsDialogOpen(true)}
+      >
         <span><strong>{followersCount}</strong> seguidores</span>
         <span><strong>{followingCount}</strong> seguindo</span>
       </div>
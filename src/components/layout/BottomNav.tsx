@@ -1,17 +1,22 @@
 
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Search, PlusSquare, Heart, User } from 'lucide-react';
+import { Home, Search, PlusSquare, Heart, MessageCircle, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 
 const BottomNav: React.FC = () => {
   const location = useLocation();
+  const unreadCount = useUnreadNotifications();
+  const unreadMessages = useUnreadMessages();
   
   const navItems = [
     { icon: Home, path: '/', label: 'Home' },
     { icon: Search, path: '/explore', label: 'Explore' },
     { icon: PlusSquare, path: '/create', label: 'Create' },
-    { icon: Heart, path: '/notifications', label: 'Activity' },
+    { icon: MessageCircle, path: '/messages', label: 'Messages', badge: unreadMessages },
+    { icon: Heart, path: '/notifications', label: 'Activity', badge: unreadCount },
     { icon: User, path: '/profile', label: 'Profile' },
   ];
 
@@ -19,7 +24,8 @@ const BottomNav: React.FC = () => {
     <nav className="fixed bottom-0 left-0 right-0 bg-white/80 dark:bg-black/80 backdrop-blur-lg border-t border-gray-200 dark:border-gray-800 z-50">
       <div className="flex justify-around items-center h-16">
         {navItems.map((item) => {
-          const isActive = location.pathname === item.path;
+          const isActive = location.pathname === item.path
+            || (item.path === '/messages' && location.pathname.startsWith('/messages/'));
           const IconComponent = item.icon;
           
           return (
@@ -31,10 +37,17 @@ const BottomNav: React.FC = () => {
                 isActive ? "text-primary" : "text-gray-500 hover:text-gray-900 dark:hover:text-gray-300"
               )}
             >
-              <IconComponent className={cn(
-                "h-6 w-6",
-                isActive ? "scale-110" : "scale-100"
-              )} />
+              <div className="relative">
+                <IconComponent className={cn(
+                  "h-6 w-6",
+                  isActive ? "scale-110" : "scale-100"
+                )} />
+                {!!item.badge && (
+                  <span className="absolute -top-1.5 -right-2.5 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+                    {item.badge > 99 ? '99+' : item.badge}
+                  </span>
+                )}
+              </div>
               <span className="text-xs mt-1">{item.label}</span>
             </Link>
           );
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Loader2, MessageCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserBlocks } from '@/hooks/useUserBlocks';
+import { canMessageUser, startConversation } from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
+
+interface MessageButtonProps {
+  targetUserId: string;
+}
+
+const MessageButton: React.FC<MessageButtonProps> = ({ targetUserId }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [isStarting, setIsStarting] = useState(false);
+  const { isBlocked, isBlockedBy } = useUserBlocks();
+
+  const { data: canMessage = false } = useQuery({
+    queryKey: ['can_message', user?.id ?? null, targetUserId],
+    queryFn: () => canMessageUser(targetUserId),
+    enabled: !!user && user.id !== targetUserId,
+  });
+
+  if (!user || user.id === targetUserId) return null;
+  if (isBlocked(targetUserId) || isBlockedBy(targetUserId)) return null;
+
+  const handleClick = async () => {
+    try {
+      setIsStarting(true);
+      const conversationId = await startConversation([targetUserId]);
+      navigate(`/messages/${conversationId}`);
+    } catch (error) {
+      console.error('Erro ao iniciar conversa:', error);
+      toast.error('Não foi possível iniciar a conversa', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      onClick={handleClick}
+      disabled={!canMessage || isStarting}
+      title={canMessage ? 'Enviar mensagem' : 'Recebe mensagens apenas de conexões mútuas'}
+    >
+      {isStarting ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageCircle className="h-4 w-4" />}
+    </Button>
+  );
+};
+
+export default MessageButton;
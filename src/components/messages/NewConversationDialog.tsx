@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Search, Loader2, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { startConversation, MessageProfile } from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
+
+interface NewConversationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Além de quem cria a conversa
+const MAX_GROUP_PARTICIPANTS = 7;
+
+const NewConversationDialog: React.FC<NewConversationDialogProps> = ({ open, onOpenChange }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<MessageProfile[]>([]);
+  const [selected, setSelected] = useState<MessageProfile[]>([]);
+  const [title, setTitle] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setSearchTerm('');
+      setResults([]);
+      setSelected([]);
+      setTitle('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (searchTerm.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const searchUsers = async () => {
+      setIsSearching(true);
+
+      try {
+        const term = searchTerm.trim().replace(/[%_\\,()]/g, '');
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, username, full_name, avatar_url')
+          .or(`username.ilike.%${term}%,full_name.ilike.%${term}%`)
+          .neq('id', user?.id || '')
+          .limit(10);
+
+        if (error) throw error;
+
+        setResults(data || []);
+      } catch (error) {
+        console.error('Erro ao buscar usuários:', error);
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    };
+
+    const timer = setTimeout(searchUsers, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, user?.id]);
+
+  const toggleSelected = (profile: MessageProfile) => {
+    if (selected.some(person => person.id === profile.id)) {
+      setSelected(prev => prev.filter(person => person.id !== profile.id));
+      return;
+    }
+
+    if (selected.length >= MAX_GROUP_PARTICIPANTS) {
+      toast.error(`Grupos podem ter no máximo ${MAX_GROUP_PARTICIPANTS + 1} pessoas`);
+      return;
+    }
+
+    setSelected(prev => [...prev, profile]);
+  };
+
+  const handleStart = async () => {
+    if (selected.length === 0) return;
+
+    try {
+      setIsStarting(true);
+      const conversationId = await startConversation(
+        selected.map(person => person.id),
+        selected.length > 1 ? title.trim() : undefined
+      );
+
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      onOpenChange(false);
+      navigate(`/messages/${conversationId}`);
+    } catch (error) {
+      console.error('Erro ao iniciar conversa:', error);
+      toast.error('Não foi possível iniciar a conversa', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Nova conversa</DialogTitle>
+        </DialogHeader>
+
+        {selected.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {selected.map(person => (
+              <span
+                key={person.id}
+                className="bg-primary/10 border border-primary/20 text-primary rounded-full px-3 py-1 text-sm flex items-center"
+              >
+                @{person.username}
+                <button
+                  type="button"
+                  onClick={() => toggleSelected(person)}
+                  className="ml-2 focus:outline-none"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Procurar pessoas..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9"
+            autoFocus
+          />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {results.map(profile => {
+            const isSelected = selected.some(person => person.id === profile.id);
+
+            return (
+              <button
+                key={profile.id}
+                type="button"
+                onClick={() => toggleSelected(profile)}
+                className={cn(
+                  "w-full flex items-center gap-3 p-2 rounded-md text-left hover:bg-muted/50",
+                  isSelected && "bg-muted"
+                )}
+              >
+                <Avatar className="h-9 w-9">
+                  <AvatarImage src={profile.avatar_url || undefined} alt={profile.username} />
+                  <AvatarFallback>{profile.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{profile.full_name || profile.username}</p>
+                  <p className="text-xs text-muted-foreground truncate">@{profile.username}</p>
+                </div>
+                {isSelected && <Check className="h-4 w-4 text-primary" />}
+              </button>
+            );
+          })}
+        </div>
+
+        {selected.length > 1 && (
+          <Input
+            placeholder="Nome do grupo (opcional)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={60}
+          />
+        )}
+
+        <Button onClick={handleStart} disabled={selected.length === 0 || isStarting}>
+          {isStarting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Conversar'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewConversationDialog;
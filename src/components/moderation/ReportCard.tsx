@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Ban, EyeOff, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { resolveReport, ModerationDecision, ReportGroup } from '@/integrations/supabase/functions';
+import { reportReasonLabel, REPORT_TARGET_LABELS, MODERATION_DECISION_LABELS } from '@/lib/reports';
+
+interface ReportCardProps {
+  group: ReportGroup;
+}
+
+const SUSPENSION_OPTIONS = [
+  { value: '1', label: '1 dia' },
+  { value: '7', label: '7 dias' },
+  { value: '30', label: '30 dias' },
+];
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const ReportCard: React.FC<ReportCardProps> = ({ group }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [suspensionDays, setSuspensionDays] = useState('7');
+
+  const { mutate, isPending, variables } = useMutation({
+    mutationFn: (decision: ModerationDecision) =>
+      resolveReport(group.reports[0].id, decision, note, Number(suspensionDays)),
+    onSuccess: (_, decision) => {
+      toast.success(MODERATION_DECISION_LABELS[decision]);
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation_actions'] });
+    },
+    onError: (error: Error) => {
+      console.error('Erro ao resolver denúncia:', error);
+      toast.error('Não foi possível resolver a denúncia', {
+        description: error.message,
+      });
+    },
+  });
+
+  // Contagem de denúncias por motivo, do mais citado para o menos citado
+  const reasonCounts = Object.entries(
+    group.reports.reduce<Record<string, number>>((counts, report) => {
+      counts[report.reason] = (counts[report.reason] || 0) + 1;
+      return counts;
+    }, {})
+  ).sort(([, a], [, b]) => b - a);
+
+  const targetUser = group.target_user;
+  const isSuspended = !!targetUser?.suspended_until && new Date(targetUser.suspended_until) > new Date();
+  const content = group.post?.content ?? group.comment?.content;
+  const isHidden = !!(group.post?.hidden_at || group.comment?.hidden_at);
+  const isMissing = group.target_type !== 'profile' && !group.post && !group.comment;
+  const targetLink = group.post
+    ? `/post/${group.post.id}`
+    : group.comment
+      ? `/post/${group.comment.post_id}`
+      : targetUser ? `/profile/${targetUser.username}` : null;
+
+  const renderActionIcon = (decision: ModerationDecision, icon: React.ReactNode) =>
+    isPending && variables === decision ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : icon;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-3 p-4 pb-2 space-y-0">
+        <Avatar className="h-9 w-9">
+          <AvatarImage src={targetUser?.avatar_url || undefined} alt={targetUser?.username} />
+          <AvatarFallback>{targetUser?.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          {targetUser ? (
+            <Link to={`/profile/${targetUser.username}`} className="text-sm font-medium hover:underline">
+              @{targetUser.username}
+            </Link>
+          ) : (
+            <span className="text-sm font-medium">Usuário removido</span>
+          )}
+          {isSuspended && (
+            <p className="text-xs text-destructive">Suspenso até {formatDate(targetUser!.suspended_until)}</p>
+          )}
+        </div>
+        <Badge variant="outline">{REPORT_TARGET_LABELS[group.target_type]}</Badge>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-2 space-y-3">
+        {isMissing ? (
+          <p className="text-sm italic text-muted-foreground">O conteúdo denunciado já foi removido.</p>
+        ) : content !== undefined ? (
+          <div className="rounded-md bg-muted px-3 py-2">
+            <p className="text-sm whitespace-pre-line line-clamp-4">
+              {content || (group.post?.images?.length ? 'Publicação com mídia' : '')}
+            </p>
+            {isHidden && (
+              <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                <EyeOff className="h-3 w-3" />
+                Já ocultado
+              </p>
+            )}
+          </div>
+        ) : null}
+
+        {targetLink && (
+          <Link to={targetLink} className="text-xs text-primary hover:underline">
+            Abrir {group.target_type === 'profile' ? 'perfil' : 'publicação'}
+          </Link>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {reasonCounts.map(([reason, count]) => (
+            <Badge key={reason} variant="secondary">
+              {reportReasonLabel(reason)}{count > 1 ? ` · ${count}` : ''}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {group.reports.map(report => (
+            <div key={report.id} className="text-xs">
+              <p className="text-muted-foreground">
+                @{report.reporter?.username || 'usuário'} · {reportReasonLabel(report.reason)} · {formatDate(report.created_at)}
+              </p>
+              {report.details && <p className="mt-0.5 whitespace-pre-line">{report.details}</p>}
+            </div>
+          ))}
+        </div>
+
+        <Input
+          placeholder="Nota para o histórico (opcional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          disabled={isPending}
+        />
+      </CardContent>
+
+      <CardFooter className="flex flex-wrap gap-2 p-4 pt-0">
+        {group.target_type !== 'profile' && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => mutate('hide')}
+            disabled={isPending || isHidden || isMissing}
+          >
+            {renderActionIcon('hide', <EyeOff className="mr-1 h-4 w-4" />)}
+            Ocultar
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => mutate('warn')} disabled={isPending || !targetUser}>
+          {renderActionIcon('warn', <AlertTriangle className="mr-1 h-4 w-4" />)}
+          Advertir
+        </Button>
+        <div className="flex items-center gap-1">
+          <Select value={suspensionDays} onValueChange={setSuspensionDays} disabled={isPending}>
+            <SelectTrigger className="h-9 w-[90px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUSPENSION_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => mutate('suspend')}
+            disabled={isPending || !targetUser}
+          >
+            {renderActionIcon('suspend', <Ban className="mr-1 h-4 w-4" />)}
+            Suspender
+          </Button>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => mutate('dismiss')} disabled={isPending} className="ml-auto">
+          {renderActionIcon('dismiss', <X className="mr-1 h-4 w-4" />)}
+          Descartar
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ReportCard;
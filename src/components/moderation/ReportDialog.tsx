@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { createReport, ReportReason, ReportTargetType } from '@/integrations/supabase/functions';
+import { REPORT_REASONS } from '@/lib/reports';
+import { getErrorMessage, getErrorCode } from '@/lib/errors';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+const TITLES: Record<ReportTargetType, string> = {
+  post: 'Denunciar publicação',
+  comment: 'Denunciar comentário',
+  profile: 'Denunciar perfil',
+};
+
+const MAX_DETAILS_LENGTH = 500;
+
+const ReportDialog: React.FC<ReportDialogProps> = ({ open, onOpenChange, targetType, targetId }) => {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setReason('');
+      setDetails('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!user) {
+      toast.error('Você precisa estar logado para denunciar');
+      return;
+    }
+    if (!reason) return;
+
+    try {
+      setIsSubmitting(true);
+      await createReport(user.id, targetType, targetId, reason, details);
+      toast.success('Denúncia enviada', {
+        description: 'Obrigado por ajudar a manter a comunidade segura. Nossa equipe vai analisar.',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Violação do índice único: já existe uma denúncia aberta desta pessoa para o mesmo alvo
+      if (getErrorCode(error) === '23505') {
+        toast.info('Você já denunciou este conteúdo. Nossa equipe vai analisar.');
+        onOpenChange(false);
+        return;
+      }
+
+      console.error('Erro ao enviar denúncia:', error);
+      toast.error('Não foi possível enviar a denúncia', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{TITLES[targetType]}</DialogTitle>
+          <DialogDescription>
+            Sua denúncia é anônima para quem foi denunciado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason}
+          onValueChange={(value) => setReason(value as ReportReason)}
+          className="gap-3"
+          disabled={isSubmitting}
+        >
+          {REPORT_REASONS.map(option => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} className="mt-0.5" />
+              <Label htmlFor={`report-reason-${option.value}`} className="font-normal cursor-pointer">
+                <span className="block text-sm font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-1">
+          <Textarea
+            placeholder="Detalhes adicionais (opcional)"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={MAX_DETAILS_LENGTH}
+            className="min-h-[80px] resize-none"
+            disabled={isSubmitting}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {details.length}/{MAX_DETAILS_LENGTH}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={!reason || isSubmitting}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Enviar denúncia'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AUDIENCE_OPTIONS, PostAudience } from '@/lib/audience';
+
+interface AudienceSelectProps {
+  value: PostAudience;
+  onChange: (audience: PostAudience) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+const AudienceSelect: React.FC<AudienceSelectProps> = ({ value, onChange, disabled, id }) => {
+  return (
+    <Select value={value} onValueChange={(audience) => onChange(audience as PostAudience)} disabled={disabled}>
+      <SelectTrigger id={id} className="h-8 w-auto gap-1 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent align="end">
+        {AUDIENCE_OPTIONS.map(({ value: optionValue, label, description, icon: Icon }) => (
+          <SelectItem key={optionValue} value={optionValue} title={description}>
+            <span className="flex items-center">
+              <Icon className="h-4 w-4 mr-1" />
+              <span className="text-xs">{label}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AudienceSelect;
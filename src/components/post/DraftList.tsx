@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertCircle, CalendarClock, CalendarX, FileText, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatScheduledAt } from '@/lib/drafts';
+import { useAuth } from '@/hooks/useAuth';
+import { deletePostDraft, getPostDrafts, PostDraft, unschedulePostDraft } from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
+
+interface DraftListProps {
+  // Rascunho aberto no formulário, destacado na lista
+  activeDraftId?: string | null;
+  onDeleted?: (draftId: string) => void;
+}
+
+const draftSummary = (draft: PostDraft) => {
+  if (draft.content.trim()) return draft.content;
+  if (draft.poll) return 'Enquete sem texto';
+  if (draft.images.length > 0) return `${draft.images.length} ${draft.images.length === 1 ? 'mídia' : 'mídias'}`;
+  return 'Rascunho vazio';
+};
+
+const DraftList: React.FC<DraftListProps> = ({ activeDraftId, onDeleted }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [draftToDelete, setDraftToDelete] = useState<PostDraft | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const queryKey = ['post_drafts', user?.id];
+  const { data: drafts = [], isPending } = useQuery({
+    queryKey,
+    queryFn: () => getPostDrafts(user!.id),
+    enabled: !!user,
+  });
+
+  const handleUnschedule = async (draft: PostDraft) => {
+    try {
+      setPendingId(draft.id);
+      await unschedulePostDraft(draft.id);
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Agendamento cancelado', {
+        description: 'A publicação continua nos seus rascunhos.',
+      });
+    } catch (error) {
+      console.error('Erro ao cancelar agendamento:', error);
+      toast.error('Não foi possível cancelar o agendamento', {
+        description: getErrorMessage(error),
+      });
+      queryClient.invalidateQueries({ queryKey });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draftToDelete) return;
+
+    const draftId = draftToDelete.id;
+
+    try {
+      setPendingId(draftId);
+      await deletePostDraft(draftId);
+      queryClient.invalidateQueries({ queryKey });
+      onDeleted?.(draftId);
+      toast.success(draftToDelete.scheduled_at ? 'Publicação agendada excluída' : 'Rascunho excluído');
+    } catch (error) {
+      console.error('Erro ao excluir rascunho:', error);
+      toast.error('Não foi possível excluir o rascunho', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setPendingId(null);
+      setDraftToDelete(null);
+    }
+  };
+
+  if (isPending) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold">Rascunhos e agendadas</h2>
+
+      {drafts.map(draft => (
+        <Card
+          key={draft.id}
+          className={cn("p-3", draft.id === activeDraftId && "border-primary")}
+        >
+          <p className="text-sm line-clamp-2 whitespace-pre-line break-words">{draftSummary(draft)}</p>
+
+          <p className="text-xs text-muted-foreground flex items-center gap-1 mt-2">
+            {draft.scheduled_at ? (
+              <>
+                <CalendarClock className="h-3 w-3" />
+                Agendada para {formatScheduledAt(draft.scheduled_at)}
+              </>
+            ) : (
+              <>
+                <FileText className="h-3 w-3" />
+                Editado em {formatScheduledAt(draft.updated_at || draft.created_at || '')}
+              </>
+            )}
+          </p>
+
+          {draft.publish_error && (
+            <p className="text-xs text-destructive flex items-start gap-1 mt-1">
+              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+              Não foi publicada: {draft.publish_error}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`/create?draft=${draft.id}`}>
+                <Pencil className="h-3.5 w-3.5 mr-1" />
+                Editar
+              </Link>
+            </Button>
+            {draft.scheduled_at && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleUnschedule(draft)}
+                disabled={pendingId === draft.id}
+              >
+                <CalendarX className="h-3.5 w-3.5 mr-1" />
+                Cancelar agendamento
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraftToDelete(draft)}
+              disabled={pendingId === draft.id}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-1" />
+              Excluir
+            </Button>
+          </div>
+        </Card>
+      ))}
+
+      <AlertDialog open={!!draftToDelete} onOpenChange={(open) => !open && setDraftToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {draftToDelete?.scheduled_at ? 'Excluir publicação agendada?' : 'Excluir rascunho?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              O texto e as mídias enviadas serão apagados. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!pendingId}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={!!pendingId}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {pendingId ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Excluir'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+};
+
+export default DraftList;
@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, X, Tag, Loader2 } from 'lucide-react';
+import { updatePost } from '@/integrations/supabase/functions';
+import { normalizeTag } from '@/lib/tags';
+import { PostAudience } from '@/lib/audience';
+import { getMediaAttachments } from '@/lib/media';
+import AudienceSelect from './AudienceSelect';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { getErrorMessage } from '@/lib/errors';
+
+export interface EditablePost {
+  id: string;
+  content: string;
+  images: string[];
+  // Metadados das mídias (tipo, capa, descrição), para exibir cada uma como foi enviada
+  media: Json | null;
+  tags: string[];
+  audience: PostAudience;
+}
+
+interface EditPostDialogProps {
+  post: EditablePost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (post: Tables<'posts'>) => void;
+}
+
+const EditPostDialog: React.FC<EditPostDialogProps> = ({ post, open, onOpenChange, onSaved }) => {
+  const { user } = useAuth();
+  const [content, setContent] = useState(post.content);
+  const [images, setImages] = useState<string[]>(post.images);
+  const [tags, setTags] = useState<string[]>(post.tags);
+  const [tagInput, setTagInput] = useState('');
+  const [audience, setAudience] = useState<PostAudience>(post.audience);
+  const [isSaving, setIsSaving] = useState(false);
+  // `post` chega como objeto novo a cada renderização de Post; lido por ref para que contagens
+  // atualizadas em tempo real não apaguem a edição em andamento
+  const postRef = useRef(post);
+  postRef.current = post;
+
+  // Restaurar os valores da publicação apenas quando o diálogo é aberto
+  useEffect(() => {
+    if (open) {
+      const current = postRef.current;
+      setContent(current.content);
+      setImages(current.images);
+      setTags(current.tags);
+      setTagInput('');
+      setAudience(current.audience);
+    }
+  }, [open]);
+
+  const moveImage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= images.length) return;
+
+    setImages(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeImage = (index: number) => {
+    setImages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const attachments = getMediaAttachments(images, post.media);
+
+  const addTag = () => {
+    const formatted = normalizeTag(tagInput);
+
+    if (formatted && !tags.includes(formatted)) {
+      if (tags.length >= 5) {
+        toast.error('Máximo de 5 tags permitidas');
+        return;
+      }
+
+      setTags([...tags, formatted]);
+      setTagInput('');
+    }
+  };
+
+  const handleTagInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (!content.trim() && images.length === 0) {
+      toast.error('Adicione texto ou mídia à sua publicação');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const updated = await updatePost(post.id, user.id, {
+        content: content.trim(),
+        images,
+        tags: tags.length > 0 ? tags : null,
+        audience
+      });
+
+      toast.success('Publicação atualizada');
+      onSaved(updated);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating post:', error);
+      toast.error('Erro ao atualizar publicação', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Editar publicação</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="min-h-[120px] text-base resize-none"
+            disabled={isSaving}
+          />
+
+          {attachments.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              {attachments.map((attachment, index) => (
+                <div key={attachment.url} className="relative rounded-md overflow-hidden border border-border h-32">
+                  {attachment.kind === 'video' ? (
+                    <video
+                      src={attachment.url}
+                      poster={attachment.poster_url ?? undefined}
+                      preload="metadata"
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <img src={attachment.url} alt={attachment.alt || `Mídia ${index + 1}`} className="w-full h-full object-cover" />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeImage(index)}
+                    className="absolute top-1 right-1 bg-background/80 text-foreground p-1 rounded-full"
+                    disabled={isSaving}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                  <div className="absolute bottom-1 left-1 right-1 flex justify-between">
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, -1)}
+                      className="bg-background/80 text-foreground p-1 rounded-full disabled:opacity-40"
+                      disabled={isSaving || index === 0}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, 1)}
+                      className="bg-background/80 text-foreground p-1 rounded-full disabled:opacity-40"
+                      disabled={isSaving || index === images.length - 1}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="edit-tags">Tags</Label>
+            <div className="flex mt-2">
+              <Input
+                id="edit-tags"
+                placeholder="Adicione tags (ex: #networking)"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={handleTagInputKeyDown}
+                disabled={isSaving || tags.length >= 5}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={addTag}
+                disabled={isSaving || !tagInput.trim() || tags.length >= 5}
+                className="ml-2"
+              >
+                <Tag className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="bg-primary/10 border border-primary/20 text-primary rounded-full px-3 py-1 text-sm flex items-center"
+                  >
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => setTags(prev => prev.filter(t => t !== tag))}
+                      className="ml-2 focus:outline-none"
+                      disabled={isSaving}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center">
+            <AudienceSelect
+              id="edit-post-visibility"
+              value={audience}
+              onChange={setAudience}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || (!content.trim() && images.length === 0)}>
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Salvando...
+              </>
+            ) : (
+              'Salvar'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditPostDialog;
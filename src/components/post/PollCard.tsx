@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatPollTimeLeft } from '@/lib/polls';
+import { useAuth } from '@/hooks/useAuth';
+import { getPollByPostId, votePoll } from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
+
+interface PollCardProps {
+  postId: string;
+}
+
+const PollCard: React.FC<PollCardProps> = ({ postId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isVoting, setIsVoting] = useState(false);
+
+  const queryKey = ['poll', postId, user?.id ?? null];
+  const { data: poll, isPending, isError } = useQuery({
+    queryKey,
+    queryFn: () => getPollByPostId(postId, user?.id),
+  });
+
+  if (isPending) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError || !poll) return null;
+
+  const hasVoted = poll.my_votes.length > 0;
+  const showResults = poll.voter_count !== null;
+  const canVote = !!user && !hasVoted && !poll.is_closed;
+
+  const toggleOption = (optionId: string) => {
+    if (!canVote) return;
+
+    if (!poll.allows_multiple) {
+      setSelected([optionId]);
+      return;
+    }
+
+    setSelected(prev =>
+      prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]
+    );
+  };
+
+  const handleVote = async () => {
+    if (selected.length === 0) return;
+
+    try {
+      setIsVoting(true);
+      await votePoll(poll.id, selected);
+      setSelected([]);
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      console.error('Erro ao votar na enquete:', error);
+      toast.error('Não foi possível registrar seu voto', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Maior contagem em destaque quando a enquete termina
+  const maxVotes = Math.max(0, ...poll.options.map(option => option.votes ?? 0));
+
+  return (
+    <div className="mb-3 space-y-2">
+      {poll.options.map(option => {
+        const isMine = poll.my_votes.includes(option.id);
+        const isSelected = selected.includes(option.id);
+
+        if (showResults && !canVote) {
+          const percent = poll.voter_count ? Math.round(((option.votes ?? 0) / poll.voter_count) * 100) : 0;
+          const isLeading = poll.is_closed && maxVotes > 0 && option.votes === maxVotes;
+
+          return (
+            <div key={option.id} className="relative overflow-hidden rounded-md border px-3 py-2 text-sm">
+              <div
+                className={cn("absolute inset-y-0 left-0", isLeading ? "bg-primary/25" : "bg-muted")}
+                style={{ width: `${percent}%` }}
+              />
+              <div className="relative flex items-center justify-between gap-2">
+                <span className={cn("flex items-center gap-1", isLeading && "font-medium")}>
+                  {option.label}
+                  {isMine && <Check className="h-3.5 w-3.5 text-primary" aria-label="Seu voto" />}
+                </span>
+                <span className="text-muted-foreground">{percent}%</span>
+              </div>
+            </div>
+          );
+        }
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => toggleOption(option.id)}
+            disabled={!canVote || isVoting}
+            className={cn(
+              "w-full flex items-center gap-2 rounded-md border px-3 py-2 text-left text-sm transition-colors",
+              canVote && "hover:bg-muted/50",
+              isSelected && "border-primary bg-primary/10"
+            )}
+          >
+            <span
+              className={cn(
+                "h-4 w-4 shrink-0 border border-primary flex items-center justify-center",
+                poll.allows_multiple ? "rounded-sm" : "rounded-full",
+                isSelected && "bg-primary text-primary-foreground"
+              )}
+            >
+              {isSelected && <Check className="h-3 w-3" />}
+            </span>
+            {option.label}
+          </button>
+        );
+      })}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {showResults && `${poll.voter_count} ${poll.voter_count === 1 ? 'voto' : 'votos'} · `}
+          {formatPollTimeLeft(poll.closes_at)}
+          {poll.allows_multiple && ' · Múltipla escolha'}
+        </span>
+        {canVote && (
+          <Button size="sm" onClick={handleVote} disabled={selected.length === 0 || isVoting}>
+            {isVoting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Votar'}
+          </Button>
+        )}
+      </div>
+      {!user && !poll.is_closed && (
+        <p className="text-xs text-muted-foreground">Entre na sua conta para votar.</p>
+      )}
+    </div>
+  );
+};
+
+export default PollCard;
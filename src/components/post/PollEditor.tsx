@@ -0,0 +1,105 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { MAX_POLL_OPTIONS, MAX_POLL_OPTION_LENGTH, MIN_POLL_OPTIONS, POLL_DURATIONS, PollDraft } from '@/lib/polls';
+
+interface PollEditorProps {
+  value: PollDraft;
+  onChange: (value: PollDraft) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+const PollEditor: React.FC<PollEditorProps> = ({ value, onChange, onRemove, disabled }) => {
+  const updateOption = (index: number, label: string) => {
+    onChange({ ...value, options: value.options.map((option, i) => (i === index ? label : option)) });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="mt-4 rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Enquete</span>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove} disabled={disabled}>
+          Remover enquete
+        </Button>
+      </div>
+
+      {value.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder={`Opção ${index + 1}`}
+            value={option}
+            onChange={(e) => updateOption(index, e.target.value)}
+            maxLength={MAX_POLL_OPTION_LENGTH}
+            disabled={disabled}
+          />
+          {value.options.length > MIN_POLL_OPTIONS && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeOption(index)}
+              disabled={disabled}
+              aria-label={`Remover opção ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {value.options.length < MAX_POLL_OPTIONS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, options: [...value.options, ''] })}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Adicionar opção
+        </Button>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="poll-duration" className="text-sm">Duração</Label>
+          <Select
+            value={value.duration}
+            onValueChange={(duration) => onChange({ ...value, duration })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="poll-duration" className="h-9 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POLL_DURATIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="poll-multiple"
+            checked={value.allowsMultiple}
+            onCheckedChange={(allowsMultiple) => onChange({ ...value, allowsMultiple })}
+            disabled={disabled}
+          />
+          <Label htmlFor="poll-multiple" className="text-sm">Múltipla escolha</Label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PollEditor;
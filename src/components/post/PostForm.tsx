@@ -1,86 +1,361 @@
 
-import React, { useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Image, X, Video, File, Loader2, Tag, Globe, Lock } from 'lucide-react';
+import { Image, X, Video, File, Loader2, Tag, BarChart3, CalendarClock, RotateCw, AlertCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { Switch } from '@/components/ui/switch';
+import { useQueryClient } from '@tanstack/react-query';
+import { cn } from '@/lib/utils';
+import { normalizeTag } from '@/lib/tags';
+import { PostAudience } from '@/lib/audience';
+import AudienceSelect from './AudienceSelect';
+import PollEditor from './PollEditor';
+import {
+  createPoll,
+  savePostDraft,
+  deletePostDraft,
+  unschedulePostDraft,
+  removeStorageFiles,
+  PostDraft,
+  PostDraftValues
+} from '@/integrations/supabase/functions';
+import { DEFAULT_POLL_DURATION, MIN_POLL_OPTIONS, PollDraft } from '@/lib/polls';
+import {
+  DRAFT_AUTOSAVE_DELAY,
+  MIN_SCHEDULE_MINUTES,
+  LocalPostDraft,
+  loadLocalDraft,
+  saveLocalDraft,
+  clearLocalDraft,
+  pollToDraftJson,
+  pollFromDraftJson,
+  toDateTimeLocalValue,
+  formatScheduledAt
+} from '@/lib/drafts';
+import {
+  MAX_ALT_TEXT_LENGTH,
+  MAX_IMAGE_INPUT_SIZE,
+  MAX_VIDEO_INPUT_SIZE,
+  POST_IMAGE_OPTIONS,
+  MediaAttachment,
+  MediaKind,
+  extensionForMimeType,
+  formatDuration,
+  getMediaAttachments,
+  mediaToJson,
+  processImage,
+  processVideo,
+  readFileAsDataUrl,
+  shouldProcessImage
+} from '@/lib/media';
+import { useUploadQueue, isUploadActive, UploadProgress } from '@/hooks/useUploadQueue';
+import { UploadCanceledError } from '@/lib/uploads';
+import { getErrorMessage } from '@/lib/errors';
 
-type MediaType = "image" | "video";
+const uploadLabel = (upload: UploadProgress) => {
+  switch (upload.status) {
+    case 'queued':
+      return 'Na fila';
+    case 'uploading':
+      return `${upload.total ? Math.round((upload.loaded / upload.total) * 100) : 0}%`;
+    case 'retrying':
+      return 'Tentando novamente...';
+    case 'error':
+      return 'Falhou';
+    case 'canceled':
+      return 'Cancelado';
+    default:
+      return '';
+  }
+};
 
 interface MediaFile {
-  url: string;
-  type: MediaType;
-  file: File;
+  id: string;
+  // Enquanto houver `file`, url e poster_url são prévias locais
+  attachment: MediaAttachment;
+  // Ausente quando a mídia já foi enviada (rascunhos salvos)
+  file?: File;
+  // Capa extraída do vídeo, enviada junto com ele
+  posterFile?: File;
+}
+
+const localAttachment = (url: string, kind: MediaKind, details: Partial<MediaAttachment> = {}): MediaAttachment => ({
+  url,
+  kind,
+  mime_type: null,
+  width: null,
+  height: null,
+  duration: null,
+  poster_url: null,
+  placeholder: null,
+  alt: null,
+  ...details
+});
+
+// A capa de um vídeo ocupa uma segunda entrada na fila de envio
+const posterUploadId = (mediaId: string) => `${mediaId}:poster`;
+
+const attachmentUrls = (media: Iterable<MediaAttachment>) =>
+  [...media].flatMap(item => (item.poster_url ? [item.url, item.poster_url] : [item.url]));
+
+const revokePreviews = (media: MediaFile) => {
+  [media.attachment.url, media.attachment.poster_url].forEach(url => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  });
+};
+
+type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface PostFormProps {
+  // Rascunho ou publicação agendada aberta para edição
+  draft?: PostDraft | null;
 }
 
-const PostForm: React.FC = () => {
+// Conteúdo inicial do formulário: o rascunho aberto ou a cópia local, o que for mais recente
+const getInitialDraft = (userId: string | undefined, draft?: PostDraft | null): LocalPostDraft | null => {
+  // Publicações agendadas só mudam ao salvar explicitamente, então não têm cópia local
+  const local = userId && !draft?.scheduled_at ? loadLocalDraft(userId) : null;
+
+  if (!draft) return local;
+
+  if (local && local.draftId === draft.id && new Date(local.savedAt) > new Date(draft.updated_at || 0)) {
+    return local;
+  }
+
+  return {
+    draftId: draft.id,
+    content: draft.content,
+    images: draft.images,
+    media: getMediaAttachments(draft.images, draft.media),
+    tags: draft.tags || [],
+    audience: draft.audience as PostAudience,
+    poll: pollFromDraftJson(draft.poll),
+    savedAt: draft.updated_at || '',
+  };
+};
+
+const PostForm: React.FC<PostFormProps> = ({ draft }) => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
-  const [content, setContent] = useState('');
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
-  const [tags, setTags] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const [initialDraft] = useState(() => getInitialDraft(user?.id, draft));
+  const [content, setContent] = useState(initialDraft?.content ?? '');
+  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>(
+    () => getMediaAttachments(initialDraft?.images, mediaToJson(initialDraft?.media ?? [])).map(attachment => ({
+      id: crypto.randomUUID(),
+      attachment
+    }))
+  );
+  const [tags, setTags] = useState<string[]>(initialDraft?.tags ?? []);
   const [tagInput, setTagInput] = useState('');
-  const [isPublic, setIsPublic] = useState(true);
+  const [audience, setAudience] = useState<PostAudience>(initialDraft?.audience ?? 'public');
+  const [poll, setPoll] = useState<PollDraft | null>(initialDraft?.poll ?? null);
+  const [isScheduledDraft, setIsScheduledDraft] = useState(!!draft?.scheduled_at);
+  const [isScheduling, setIsScheduling] = useState(!!draft?.scheduled_at);
+  const [scheduledAt, setScheduledAt] = useState(
+    draft?.scheduled_at ? toDateTimeLocalValue(new Date(draft.scheduled_at)) : ''
+  );
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [processingCount, setProcessingCount] = useState(0);
+  const { uploads, uploadAll, cancel: cancelUpload, cancelAll: cancelAllUploads, clear: clearUploads } = useUploadQueue();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const draftIdRef = useRef<string | null>(initialDraft?.draftId ?? null);
+  // Salvamentos no servidor em fila, para que o primeiro crie o rascunho e os seguintes o atualizem
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const isFirstRenderRef = useRef(true);
+  
+  const userId = user?.id;
+  const isBusy = isSubmitting || isSavingDraft;
+  const uploadedMedia = useMemo(
+    () => mediaFiles.filter(media => !media.file).map(media => media.attachment),
+    [mediaFiles]
+  );
+  const hasPendingFiles = mediaFiles.some(media => media.file);
+  const hasActiveUploads = Object.values(uploads).some(isUploadActive);
+  
+  const getDraftValues = useCallback((media: MediaAttachment[], scheduled: string | null): PostDraftValues => ({
+    content,
+    images: media.map(item => item.url),
+    media: mediaToJson(media),
+    tags: tags.length > 0 ? tags : null,
+    audience,
+    poll: pollToDraftJson(poll),
+    scheduled_at: scheduled
+  }), [content, tags, audience, poll]);
+  
+  const queueDraftSave = useCallback((values: PostDraftValues) => {
+    const save = saveQueueRef.current.then(async () => {
+      const saved = await savePostDraft(userId!, draftIdRef.current, values);
+      draftIdRef.current = saved.id;
+      return saved;
+    });
+    saveQueueRef.current = save.catch(() => undefined);
+    return save;
+  }, [userId]);
+  
+  // Só impedem o salvamento automático; o fim de um envio ou de um salvamento manual não deve
+  // disparar outro salvamento dos mesmos valores
+  const autosavePausedRef = useRef(false);
+  autosavePausedRef.current = isScheduledDraft || isBusy;
+  
+  // Cópia local a cada alteração e rascunho no servidor depois de uma pausa na digitação
+  useEffect(() => {
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false;
+      return;
+    }
+    
+    if (!userId || autosavePausedRef.current) return;
+    
+    const isEmpty = !content.trim() && uploadedMedia.length === 0 && tags.length === 0 && !poll;
+    if (isEmpty && !draftIdRef.current) {
+      clearLocalDraft(userId);
+      return;
+    }
+    
+    saveLocalDraft(userId, {
+      draftId: draftIdRef.current,
+      content,
+      images: uploadedMedia.map(item => item.url),
+      media: uploadedMedia,
+      tags,
+      audience,
+      poll,
+      savedAt: new Date().toISOString()
+    });
+    
+    const values = getDraftValues(uploadedMedia, null);
+    autosaveTimerRef.current = setTimeout(async () => {
+      try {
+        setAutosaveStatus('saving');
+        const saved = await queueDraftSave(values);
+        const local = loadLocalDraft(userId);
+        if (local) saveLocalDraft(userId, { ...local, draftId: saved.id });
+        setLastSavedAt(new Date());
+        setAutosaveStatus('saved');
+        queryClient.invalidateQueries({ queryKey: ['post_drafts', userId] });
+      } catch (error) {
+        console.error('Erro ao salvar rascunho automaticamente:', error);
+        setAutosaveStatus('error');
+      }
+    }, DRAFT_AUTOSAVE_DELAY);
+    
+    return () => clearTimeout(autosaveTimerRef.current);
+  }, [content, uploadedMedia, tags, audience, poll, userId, getDraftValues, queueDraftSave, queryClient]);
 
   const handleMediaChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const files = Array.from(e.target.files);
       
-      if (mediaFiles.length + files.length > 5) {
+      if (mediaFiles.length + processingCount + files.length > 5) {
         toast.error('Máximo de 5 arquivos permitidos');
         return;
       }
       
-      files.forEach(file => {
-        if (file.size > 20 * 1024 * 1024) { // 20MB limit
-          toast.error(`O arquivo ${file.name} é muito grande (máximo 20MB)`);
+      files.forEach(async file => {
+        const maxSize = file.type.startsWith('video/') ? MAX_VIDEO_INPUT_SIZE : MAX_IMAGE_INPUT_SIZE;
+        if (file.size > maxSize) {
+          toast.error(`O arquivo ${file.name} é muito grande (máximo ${maxSize / (1024 * 1024)}MB)`);
           return;
         }
         
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            const type: MediaType = file.type.startsWith('image/') ? 'image' : 'video';
-            
-            setMediaFiles(prev => [
-              ...prev, 
-              { 
-                url: e.target!.result as string, 
-                type, 
-                file 
-              }
-            ]);
-          }
-        };
-        reader.readAsDataURL(file);
+        try {
+          setProcessingCount(count => count + 1);
+          const media = await prepareMedia(file);
+          setMediaFiles(prev => [...prev, media]);
+        } catch (error) {
+          console.error('Erro ao processar mídia:', error);
+          toast.error(`Não foi possível processar ${file.name}`, {
+            description: getErrorMessage(error),
+          });
+        } finally {
+          setProcessingCount(count => count - 1);
+        }
       });
+      
+      e.target.value = '';
+    }
+  };
+  
+  // Imagens são processadas já na seleção, para que a prévia mostre exatamente o que será enviado
+  const prepareMedia = async (file: File): Promise<MediaFile> => {
+    const id = crypto.randomUUID();
+    
+    // Vídeos grandes demais para virar data URL; a prévia aponta direto para o arquivo
+    if (file.type.startsWith('video/')) {
+      const processed = await processVideo(file);
+      return {
+        id,
+        attachment: localAttachment(URL.createObjectURL(file), 'video', {
+          mime_type: file.type,
+          width: processed.width,
+          height: processed.height,
+          duration: processed.duration,
+          poster_url: URL.createObjectURL(processed.poster),
+          placeholder: processed.placeholder
+        }),
+        file,
+        posterFile: processed.poster
+      };
     }
+    
+    if (!shouldProcessImage(file)) {
+      return { id, attachment: localAttachment(await readFileAsDataUrl(file), 'image', { mime_type: file.type }), file };
+    }
+    
+    const processed = await processImage(file, POST_IMAGE_OPTIONS);
+    return {
+      id,
+      attachment: localAttachment(await readFileAsDataUrl(processed.file), 'image', {
+        mime_type: processed.file.type,
+        width: processed.width,
+        height: processed.height,
+        placeholder: processed.placeholder
+      }),
+      file: processed.file
+    };
+  };
+  
+  const removeMedia = (media: MediaFile) => {
+    revokePreviews(media);
+    setMediaFiles(prev => prev.filter(item => item.id !== media.id));
+    clearUploads([media.id, posterUploadId(media.id)]);
+  };
+  
+  const setMediaAlt = (mediaId: string, alt: string) => {
+    setMediaFiles(prev => prev.map(media => (
+      media.id === mediaId ? { ...media, attachment: { ...media.attachment, alt: alt || null } } : media
+    )));
   };
   
-  const removeMedia = (index: number) => {
-    setMediaFiles(prev => prev.filter((_, i) => i !== index));
+  const cancelMediaUpload = (media: MediaFile) => {
+    cancelUpload(media.id);
+    cancelUpload(posterUploadId(media.id));
   };
   
   const addTag = () => {
-    if (tagInput.trim() && !tags.includes(tagInput.trim())) {
+    const formatted = normalizeTag(tagInput);
+    
+    if (formatted && !tags.includes(formatted)) {
       if (tags.length >= 5) {
         toast.error('Máximo de 5 tags permitidas');
         return;
       }
-      
-      const formatted = tagInput.trim().startsWith('#') 
-        ? tagInput.trim() 
-        : `#${tagInput.trim()}`;
         
       setTags([...tags, formatted]);
       setTagInput('');
@@ -91,6 +366,126 @@ const PostForm: React.FC = () => {
     setTags(prev => prev.filter(t => t !== tag));
   };
   
+  // Enviar os arquivos ainda locais, em paralelo. Se algum falhar ou for cancelado, os que
+  // chegaram nesta rodada são apagados para não sobrarem arquivos sem publicação.
+  const uploadPendingMedia = async (): Promise<{ media: MediaAttachment[]; uploaded: Map<string, MediaAttachment> }> => {
+    const pending = mediaFiles.filter(media => media.file);
+    
+    const results = await uploadAll(pending.flatMap(media => {
+      const path = `${user!.id}-${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+      const items = [{ id: media.id, file: media.file!, bucket: 'posts', path: `${path}.${extensionForMimeType(media.file!.type)}` }];
+      
+      if (media.posterFile) {
+        items.push({
+          id: posterUploadId(media.id),
+          file: media.posterFile,
+          bucket: 'posts',
+          path: `${path}-poster.${extensionForMimeType(media.posterFile.type)}`
+        });
+      }
+      
+      return items;
+    }));
+    
+    const urls = new Map(results.filter(result => result.url).map(result => [result.id, result.url!]));
+    const failure = results.find(result => result.error);
+    
+    if (failure) {
+      await removeStorageFiles('posts', [...urls.values()]);
+      throw failure.error;
+    }
+    
+    const uploaded = new Map(pending.map(media => [media.id, {
+      ...media.attachment,
+      url: urls.get(media.id)!,
+      poster_url: media.posterFile ? urls.get(posterUploadId(media.id))! : media.attachment.poster_url
+    }]));
+    
+    return { media: mediaFiles.map(media => uploaded.get(media.id) ?? media.attachment), uploaded };
+  };
+  
+  // Depois de salvar, as mídias enviadas passam a ser URLs e não são enviadas de novo
+  const markMediaUploaded = (uploaded: Map<string, MediaAttachment>) => {
+    setMediaFiles(prev => prev.map(media => {
+      const attachment = uploaded.get(media.id);
+      if (!attachment) return media;
+      
+      revokePreviews(media);
+      // A descrição pode ter sido editada durante o envio
+      return { id: media.id, attachment: { ...attachment, alt: media.attachment.alt } };
+    }));
+    clearUploads([...uploaded.keys()].flatMap(id => [id, posterUploadId(id)]));
+  };
+  
+  // Voltar ao formulário vazio, fora de qualquer rascunho
+  const finishDraft = () => {
+    clearTimeout(autosaveTimerRef.current);
+    clearLocalDraft(user!.id);
+    draftIdRef.current = null;
+    queryClient.invalidateQueries({ queryKey: ['post_drafts', user!.id] });
+  };
+  
+  const resetForm = () => {
+    setContent('');
+    mediaFiles.forEach(revokePreviews);
+    setMediaFiles([]);
+    clearUploads(Object.keys(uploads));
+    setTags([]);
+    setTagInput('');
+    setAudience('public');
+    setPoll(null);
+    setIsScheduledDraft(false);
+    setIsScheduling(false);
+    setScheduledAt('');
+    setAutosaveStatus('idle');
+    setLastSavedAt(null);
+    
+    if (searchParams.has('draft')) {
+      navigate('/create', { replace: true });
+    }
+  };
+  
+  const handleSaveDraft = async () => {
+    if (!user) return;
+    
+    try {
+      setIsSavingDraft(true);
+      clearTimeout(autosaveTimerRef.current);
+      
+      const { media, uploaded } = await uploadPendingMedia();
+      
+      try {
+        await queueDraftSave(getDraftValues(media, null));
+      } catch (saveError) {
+        await removeStorageFiles('posts', attachmentUrls(uploaded.values()));
+        throw saveError;
+      }
+      markMediaUploaded(uploaded);
+      
+      const local = loadLocalDraft(user.id);
+      if (local) {
+        saveLocalDraft(user.id, { ...local, draftId: draftIdRef.current, images: media.map(item => item.url), media });
+      }
+      
+      setIsScheduledDraft(false);
+      setLastSavedAt(new Date());
+      setAutosaveStatus('saved');
+      queryClient.invalidateQueries({ queryKey: ['post_drafts', user.id] });
+      toast.success('Rascunho salvo');
+    } catch (error) {
+      if (error instanceof UploadCanceledError) {
+        toast.info('Envio cancelado');
+        return;
+      }
+      console.error('Erro ao salvar rascunho:', error);
+      toast.error('Não foi possível salvar o rascunho', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -100,54 +495,107 @@ const PostForm: React.FC = () => {
       return;
     }
     
-    if (!content.trim() && mediaFiles.length === 0) {
+    if (!content.trim() && mediaFiles.length === 0 && !poll) {
       toast.error('Adicione texto ou mídia à sua publicação');
       return;
     }
     
+    const pollOptions = poll ? poll.options.map(option => option.trim()).filter(Boolean) : [];
+    if (poll && pollOptions.length < MIN_POLL_OPTIONS) {
+      toast.error(`Preencha pelo menos ${MIN_POLL_OPTIONS} opções da enquete`);
+      return;
+    }
+    
+    const scheduledDate = isScheduling && scheduledAt ? new Date(scheduledAt) : null;
+    if (isScheduling) {
+      if (!scheduledDate || scheduledDate.getTime() < Date.now() + MIN_SCHEDULE_MINUTES * 60 * 1000) {
+        toast.error(`Escolha um horário daqui a pelo menos ${MIN_SCHEDULE_MINUTES} minutos`);
+        return;
+      }
+    }
+    
+    // Arquivos enviados nesta tentativa; apagados se a publicação não chegar a ser salva
+    let uploaded = new Map<string, MediaAttachment>();
+    let saved = false;
+    
     try {
       setIsSubmitting(true);
+      clearTimeout(autosaveTimerRef.current);
+      // Esperar um salvamento automático em andamento para saber qual rascunho está aberto
+      await saveQueueRef.current;
       
-      let imageUrls: string[] = [];
+      const result = await uploadPendingMedia();
+      const media = result.media;
+      uploaded = result.uploaded;
       
-      // Upload images if any
-      if (mediaFiles.length > 0) {
-        for (const mediaFile of mediaFiles) {
-          const fileExt = mediaFile.file.name.split('.').pop();
-          const fileName = `${user.id}-${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`;
-          
-          const { error: uploadError, data } = await supabase.storage
-            .from('posts')
-            .upload(fileName, mediaFile.file);
-            
-          if (uploadError) throw uploadError;
-          
-          const { data: { publicUrl } } = supabase.storage
-            .from('posts')
-            .getPublicUrl(fileName);
-            
-          imageUrls.push(publicUrl);
-        }
+      if (scheduledDate) {
+        await queueDraftSave(getDraftValues(media, scheduledDate.toISOString()));
+        saved = true;
+        
+        finishDraft();
+        toast.success('Publicação agendada', {
+          description: `Será publicada em ${formatScheduledAt(scheduledDate.toISOString())}`,
+        });
+        resetForm();
+        return;
+      }
+      
+      // Tirar do agendamento antes de publicar; falha se o agendamento já foi publicado
+      if (isScheduledDraft && draftIdRef.current) {
+        await unschedulePostDraft(draftIdRef.current);
       }
       
       // Create post
-      const { error } = await supabase
+      const { data: post, error } = await supabase
         .from('posts')
         .insert({
           content: content.trim(),
           user_id: user.id,
-          images: imageUrls,
+          images: media.map(item => item.url),
+          media: mediaToJson(media),
           tags: tags.length > 0 ? tags : null,
-          is_public: isPublic
-        });
+          audience
+        })
+        .select('id')
+        .single();
         
       if (error) throw error;
       
+      // Sem a enquete a publicação fica pela metade; desfazer em caso de erro
+      if (poll) {
+        try {
+          const closesAt = new Date(Date.now() + Number(poll.duration) * 60 * 1000);
+          await createPoll(post.id, pollOptions, closesAt, poll.allowsMultiple);
+        } catch (pollError) {
+          await supabase.from('posts').delete().eq('id', post.id);
+          throw pollError;
+        }
+      }
+      saved = true;
+      
+      // O rascunho virou publicação; as mídias continuam em uso
+      if (draftIdRef.current) {
+        try {
+          await deletePostDraft(draftIdRef.current, true);
+        } catch (draftError) {
+          console.error('Erro ao excluir rascunho publicado:', draftError);
+        }
+      }
+      
+      finishDraft();
       toast.success('Publicação criada com sucesso!');
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
       navigate('/');
-    } catch (error: any) {
-      toast.error('Erro ao criar publicação', {
-        description: error.message,
+    } catch (error) {
+      if (!saved && uploaded.size > 0) {
+        await removeStorageFiles('posts', attachmentUrls(uploaded.values()));
+      }
+      if (error instanceof UploadCanceledError) {
+        toast.info('Envio cancelado');
+        return;
+      }
+      toast.error(isScheduling ? 'Erro ao agendar publicação' : 'Erro ao criar publicação', {
+        description: getErrorMessage(error),
       });
       console.error('Error creating post:', error);
     } finally {
@@ -170,79 +618,150 @@ const PostForm: React.FC = () => {
           value={content}
           onChange={(e) => setContent(e.target.value)}
           className="min-h-[150px] text-base resize-none"
-          disabled={isSubmitting}
+          disabled={isBusy}
         />
         
         {mediaFiles.length > 0 && (
           <div className="grid grid-cols-2 gap-2 mt-4">
-            {mediaFiles.map((media, index) => (
-              <div key={index} className="relative rounded-md overflow-hidden border border-border h-40">
-                {media.type === 'image' ? (
+            {mediaFiles.map((media, index) => {
+              const { attachment } = media;
+              const upload = uploads[media.id];
+              const active = isUploadActive(upload) || isUploadActive(uploads[posterUploadId(media.id)]);
+              
+              return (
+              <div
+                key={media.id}
+                className="relative rounded-md overflow-hidden border border-border h-40 bg-cover bg-center"
+                style={attachment.placeholder ? { backgroundImage: `url(${attachment.placeholder})` } : undefined}
+              >
+                {attachment.kind === 'image' ? (
                   <img
-                    src={media.url}
-                    alt={`Uploaded ${index}`}
+                    src={attachment.url}
+                    alt={attachment.alt || `Uploaded ${index}`}
                     className="w-full h-full object-cover"
                   />
                 ) : (
-                  <video
-                    src={media.url}
-                    className="w-full h-full object-cover"
-                    controls
-                  />
+                  <>
+                    <video
+                      src={attachment.url}
+                      poster={attachment.poster_url ?? undefined}
+                      preload="metadata"
+                      className="w-full h-full object-cover"
+                      controls={!upload}
+                    />
+                    {attachment.duration !== null && !upload && (
+                      <span className="absolute top-1 left-1 rounded bg-background/80 px-1.5 text-xs">
+                        {formatDuration(attachment.duration)}
+                      </span>
+                    )}
+                  </>
+                )}
+                {upload && upload.status !== 'done' && (
+                  <div className="absolute inset-x-0 bottom-0 bg-background/80 px-2 py-1.5 space-y-1">
+                    <p
+                      className={cn(
+                        "text-xs flex items-center gap-1",
+                        upload.status === 'error' ? "text-destructive" : "text-muted-foreground"
+                      )}
+                      title={upload.error}
+                    >
+                      {upload.status === 'retrying' && <RotateCw className="h-3 w-3 animate-spin" />}
+                      {upload.status === 'error' && <AlertCircle className="h-3 w-3" />}
+                      {uploadLabel(upload)}
+                    </p>
+                    {active && <Progress value={upload.total ? (upload.loaded / upload.total) * 100 : 0} className="h-1" />}
+                  </div>
+                )}
+                {!upload && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button
+                        type="button"
+                        disabled={isBusy}
+                        aria-label="Descrição da mídia"
+                        className={cn(
+                          "absolute bottom-1 left-1 rounded bg-background/80 px-1.5 text-xs font-semibold",
+                          attachment.alt ? "text-primary" : "text-foreground"
+                        )}
+                      >
+                        ALT
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent align="start" className="space-y-2">
+                      <Label htmlFor={`alt-${media.id}`}>Descrição</Label>
+                      <Textarea
+                        id={`alt-${media.id}`}
+                        value={attachment.alt ?? ''}
+                        onChange={(e) => setMediaAlt(media.id, e.target.value)}
+                        maxLength={MAX_ALT_TEXT_LENGTH}
+                        placeholder="Descreva a mídia para quem usa leitor de tela"
+                        className="min-h-[80px] resize-none text-sm"
+                      />
+                    </PopoverContent>
+                  </Popover>
                 )}
                 <button
                   type="button"
-                  onClick={() => removeMedia(index)}
-                  className="absolute top-1 right-1 bg-background/80 text-foreground p-1 rounded-full"
+                  onClick={() => active ? cancelMediaUpload(media) : removeMedia(media)}
+                  disabled={isBusy && !active}
+                  aria-label={active ? 'Cancelar envio' : 'Remover mídia'}
+                  className="absolute top-1 right-1 bg-background/80 text-foreground p-1 rounded-full disabled:opacity-50"
                 >
                   <X className="h-4 w-4" />
                 </button>
               </div>
-            ))}
+              );
+            })}
           </div>
         )}
         
+        {poll && (
+          <PollEditor
+            value={poll}
+            onChange={setPoll}
+            onRemove={() => setPoll(null)}
+            disabled={isBusy}
+          />
+        )}
+        
         <div className="flex flex-wrap gap-2 mt-4">
           <Button
             type="button"
             variant="outline"
             size="sm"
             onClick={() => fileInputRef.current?.click()}
-            disabled={isSubmitting || mediaFiles.length >= 5}
+            disabled={isBusy || mediaFiles.length + processingCount >= 5}
           >
-            <Image className="h-4 w-4 mr-2" />
+            {processingCount > 0 ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Image className="h-4 w-4 mr-2" />}
             <span>Mídia</span>
           </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setPoll({ options: ['', ''], duration: DEFAULT_POLL_DURATION, allowsMultiple: false })}
+            disabled={isBusy || !!poll}
+          >
+            <BarChart3 className="h-4 w-4 mr-2" />
+            <span>Enquete</span>
+          </Button>
           <input
             ref={fileInputRef}
             type="file"
             multiple
-            accept="image/*,video/*"
+            accept="image/*,video/mp4,video/webm,video/quicktime"
             className="hidden"
             onChange={handleMediaChange}
-            disabled={isSubmitting}
+            disabled={isBusy}
           />
           
           <div className="flex items-center ml-auto">
-            <Switch
-              checked={isPublic}
-              onCheckedChange={setIsPublic}
-              disabled={isSubmitting}
+            <AudienceSelect
               id="post-visibility"
+              value={audience}
+              onChange={setAudience}
+              disabled={isBusy}
             />
-            <Label htmlFor="post-visibility" className="ml-2 flex items-center">
-              {isPublic ? (
-                <>
-                  <Globe className="h-4 w-4 mr-1" />
-                  <span className="text-xs">Público</span>
-                </>
-              ) : (
-                <>
-                  <Lock className="h-4 w-4 mr-1" />
-                  <span className="text-xs">Privado</span>
-                </>
-              )}
-            </Label>
           </div>
         </div>
       </Card>
@@ -256,14 +775,14 @@ const PostForm: React.FC = () => {
             value={tagInput}
             onChange={(e) => setTagInput(e.target.value)}
             onKeyDown={handleTagInputKeyDown}
-            disabled={isSubmitting || tags.length >= 5}
+            disabled={isBusy || tags.length >= 5}
             className="flex-1"
           />
           <Button
             type="button"
             variant="outline"
             onClick={addTag}
-            disabled={isSubmitting || !tagInput.trim() || tags.length >= 5}
+            disabled={isBusy || !tagInput.trim() || tags.length >= 5}
             className="ml-2"
           >
             <Tag className="h-4 w-4" />
@@ -284,7 +803,7 @@ const PostForm: React.FC = () => {
                   type="button"
                   onClick={() => removeTag(tag)}
                   className="ml-2 focus:outline-none"
-                  disabled={isSubmitting}
+                  disabled={isBusy}
                 >
                   <X className="h-3 w-3" />
                 </button>
@@ -294,20 +813,77 @@ const PostForm: React.FC = () => {
         )}
       </div>
       
-      <Button
-        type="submit"
-        disabled={isSubmitting || (!content.trim() && mediaFiles.length === 0)}
-        className="w-full"
-      >
-        {isSubmitting ? (
-          <>
-            <Loader2 className="h-4 w-4 animate-spin mr-2" />
-            Publicando...
-          </>
-        ) : (
-          'Publicar'
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="schedule-post" className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Agendar publicação
+          </Label>
+          <Switch
+            id="schedule-post"
+            checked={isScheduling}
+            onCheckedChange={setIsScheduling}
+            disabled={isBusy}
+          />
+        </div>
+        {isScheduling && (
+          <Input
+            type="datetime-local"
+            value={scheduledAt}
+            min={toDateTimeLocalValue(new Date(Date.now() + MIN_SCHEDULE_MINUTES * 60 * 1000))}
+            onChange={(e) => setScheduledAt(e.target.value)}
+            disabled={isBusy}
+            aria-label="Data e hora da publicação"
+          />
+        )}
+      </div>
+      
+      <div className="flex gap-2">
+        {isBusy && hasActiveUploads && (
+          <Button type="button" variant="outline" onClick={cancelAllUploads}>
+            Cancelar envio
+          </Button>
         )}
-      </Button>
+        {!isScheduling && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSaveDraft}
+            disabled={isBusy || processingCount > 0}
+          >
+            {isSavingDraft ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar rascunho'}
+          </Button>
+        )}
+        <Button
+          type="submit"
+          disabled={isBusy || processingCount > 0 || (!content.trim() && mediaFiles.length === 0 && !poll) || (isScheduling && !scheduledAt)}
+          className="flex-1"
+        >
+          {isSubmitting ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              {isScheduling ? 'Agendando...' : 'Publicando...'}
+            </>
+          ) : isScheduling ? (
+            isScheduledDraft ? 'Salvar agendamento' : 'Agendar'
+          ) : (
+            'Publicar'
+          )}
+        </Button>
+      </div>
+      
+      <p className="text-xs text-muted-foreground text-center">
+        {isScheduledDraft
+          ? 'Alterações em publicações agendadas só valem depois de salvar.'
+          : autosaveStatus === 'saving'
+            ? 'Salvando rascunho...'
+            : autosaveStatus === 'error'
+              ? 'Não foi possível salvar o rascunho automaticamente.'
+              : lastSavedAt
+                ? `Rascunho salvo às ${lastSavedAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`
+                : 'O rascunho é salvo automaticamente enquanto você escreve.'}
+        {hasPendingFiles && ' Mídias novas entram no rascunho ao salvar, agendar ou publicar.'}
+      </p>
     </form>
   );
 };
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, History } from 'lucide-react';
+import { getPostRevisions } from '@/integrations/supabase/functions';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface PostRevisionsDialogProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const PostRevisionsDialog: React.FC<PostRevisionsDialogProps> = ({ postId, open, onOpenChange }) => {
+  const [revisions, setRevisions] = useState<Tables<'post_revisions'>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchRevisions = async () => {
+      setIsLoading(true);
+      const data = await getPostRevisions(postId);
+      setRevisions(data);
+      setIsLoading(false);
+    };
+
+    fetchRevisions();
+  }, [open, postId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Histórico de edições</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <History className="h-8 w-8 mx-auto mb-2 opacity-40" />
+            Nenhuma versão anterior
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[400px] overflow-y-auto">
+            {revisions.map(revision => (
+              <div key={revision.id} className="border-b pb-4 last:border-b-0">
+                <p className="text-xs text-muted-foreground mb-2">
+                  Versão de {formatDate(revision.edited_at)} · substituída em {formatDate(revision.created_at)}
+                </p>
+                <p className="whitespace-pre-line text-sm">{revision.content}</p>
+                {revision.tags && revision.tags.length > 0 && (
+                  <p className="text-xs text-primary mt-2">{revision.tags.join(' ')}</p>
+                )}
+                {revision.images && revision.images.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {revision.images.length} {revision.images.length === 1 ? 'mídia' : 'mídias'}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PostRevisionsDialog;
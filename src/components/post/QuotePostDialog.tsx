@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { createNotification, createRepost } from '@/integrations/supabase/functions';
+import { PostAudience } from '@/lib/audience';
+import QuotedPostCard, { QuotedPost } from '@/components/feed/QuotedPostCard';
+import AudienceSelect from './AudienceSelect';
+import { getErrorMessage } from '@/lib/errors';
+
+interface QuotePostDialogProps {
+  post: QuotedPost;
+  authorId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onQuoted?: () => void;
+}
+
+const QuotePostDialog: React.FC<QuotePostDialogProps> = ({ post, authorId, open, onOpenChange, onQuoted }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [content, setContent] = useState('');
+  const [audience, setAudience] = useState<PostAudience>('public');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setContent('');
+      setAudience('public');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!user) {
+      toast.error('Você precisa estar logado para citar publicações');
+      return;
+    }
+    if (!content.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      const quote = await createRepost(user.id, post.id, content, audience);
+
+      if (authorId) {
+        await createNotification('quote', authorId, user.id, quote.id);
+      }
+
+      toast.success('Publicação citada');
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      onOpenChange(false);
+      if (onQuoted) onQuoted();
+    } catch (error) {
+      console.error('Erro ao citar publicação:', error);
+      toast.error('Não foi possível citar a publicação', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Citar publicação</DialogTitle>
+        </DialogHeader>
+
+        <Textarea
+          placeholder="Adicione um comentário..."
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="min-h-[100px] resize-none"
+          disabled={isSubmitting}
+          autoFocus
+        />
+
+        <QuotedPostCard post={post} linked={false} />
+
+        <DialogFooter className="flex-row items-center sm:justify-between gap-2">
+          <AudienceSelect
+            id="quote-post-visibility"
+            value={audience}
+            onChange={setAudience}
+            disabled={isSubmitting}
+          />
+          <Button onClick={handleSubmit} disabled={!content.trim() || isSubmitting}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Publicar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuotePostDialog;
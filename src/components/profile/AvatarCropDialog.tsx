@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import ImageCropper, { CroppedImage, ImageSize } from './ImageCropper';
+import type { CropArea } from '@/lib/media';
+
+interface AvatarCropDialogProps {
+  // Imagem escolhida; o diálogo fica aberto enquanto houver uma
+  file: File | null;
+  // Banner atual, para a prévia mostrar a foto como ela aparece no perfil
+  bannerUrl?: string | null;
+  isProcessing?: boolean;
+  onCancel: () => void;
+  onConfirm: (crop: CropArea) => void;
+}
+
+const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ file, bannerUrl, isProcessing, onCancel, onConfirm }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropArea | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    setCrop(null);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isProcessing && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ajustar foto de perfil</DialogTitle>
+          <DialogDescription>Arraste para posicionar e use o zoom para enquadrar.</DialogDescription>
+        </DialogHeader>
+
+        {src && (
+          <ImageCropper
+            key={src}
+            src={src}
+            aspect={1}
+            round
+            onCropChange={(area, size) => {
+              setCrop(area);
+              setImageSize(size);
+            }}
+          />
+        )}
+
+        {src && (
+          <div>
+            <p className="text-xs text-muted-foreground mb-2">Prévia no perfil</p>
+            <div className="rounded-md overflow-hidden border border-border">
+              <div className="h-16 bg-gradient-to-r from-primary/20 to-primary/40 relative">
+                {bannerUrl && (
+                  <img src={bannerUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="px-4 pb-3 flex items-end gap-3 -mt-8">
+                <CroppedImage
+                  src={src}
+                  imageSize={imageSize}
+                  crop={crop}
+                  className="h-16 w-16 rounded-full border-4 border-background"
+                />
+                <CroppedImage
+                  src={src}
+                  imageSize={imageSize}
+                  crop={crop}
+                  className="h-10 w-10 rounded-full"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isProcessing}>
+            Cancelar
+          </Button>
+          <Button onClick={() => crop && onConfirm(crop)} disabled={!crop || isProcessing}>
+            {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Aplicar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AvatarCropDialog;
@@ -1,60 +1,101 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Image, Loader2, X } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  BANNER_IMAGE_OPTIONS,
+  MAX_IMAGE_INPUT_SIZE,
+  CropArea,
+  extensionForMimeType,
+  processImage
+} from '@/lib/media';
+import ImageCropper, { CroppedImage, ImageSize } from './ImageCropper';
+
+// Proporção do banner no perfil
+const BANNER_ASPECT = 3;
 
 interface BannerUploadProps {
   userId: string;
   currentBanner: string | null;
+  // Foto e nome do perfil, para a prévia mostrar o banner como ele aparece no perfil
+  avatarUrl?: string | null;
+  username?: string;
   onBannerChange: (url: string | null) => void;
 }
 
-const BannerUpload: React.FC<BannerUploadProps> = ({ userId, currentBanner, onBannerChange }) => {
+const BannerUpload: React.FC<BannerUploadProps> = ({ userId, currentBanner, avatarUrl, username, onBannerChange }) => {
   const { user } = useAuth();
   const [isUploading, setIsUploading] = useState(false);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
+  // Selected image waiting to be cropped
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropArea | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
 
   const canEdit = user?.id === userId;
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => {
+    if (!selectedFile) {
+      setSelectedUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(selectedFile);
+    setSelectedUrl(url);
+    setCrop(null);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFile]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (isUploading) return;
+
+    setIsOpen(open);
+    if (!open) setSelectedFile(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) {
       return;
     }
 
     const file = e.target.files[0];
+    e.target.value = '';
     
     // Basic validation
-    if (file.size > 3 * 1024 * 1024) {
-      toast.error('O arquivo é muito grande', {
-        description: 'O tamanho máximo permitido é 3MB'
+    if (!file.type.startsWith('image/')) {
+      toast.error('Tipo de arquivo inválido', {
+        description: 'Por favor, selecione uma imagem'
       });
       return;
     }
 
-    if (!file.type.startsWith('image/')) {
-      toast.error('Tipo de arquivo inválido', {
-        description: 'Por favor, selecione uma imagem'
+    if (file.size > MAX_IMAGE_INPUT_SIZE) {
+      toast.error('O arquivo é muito grande', {
+        description: 'O tamanho máximo permitido é 20MB'
       });
       return;
     }
 
-    // Create preview
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setPreviewUrl(e.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    setSelectedFile(file);
+  };
+
+  const handleSaveCrop = async () => {
+    if (!selectedFile || !crop) return;
 
     try {
       setIsUploading(true);
       
+      // Only the cropped area is resized, re-encoded (dropping EXIF metadata) and uploaded
+      const { file } = await processImage(selectedFile, BANNER_IMAGE_OPTIONS, crop);
+      
       // Upload to Supabase Storage
-      const fileExt = file.name.split('.').pop();
+      const fileExt = extensionForMimeType(file.type);
       const fileName = `banner-${userId}-${Date.now()}.${fileExt}`;
       
       const { data, error } = await supabase.storage
@@ -97,6 +138,7 @@ const BannerUpload: React.FC<BannerUploadProps> = ({ userId, currentBanner, onBa
 
       onBannerChange(publicUrl);
       toast.success('Banner atualizado com sucesso');
+      setSelectedFile(null);
       setIsOpen(false);
     } catch (error: any) {
       console.error('Error uploading banner:', error);
@@ -156,7 +198,7 @@ const BannerUpload: React.FC<BannerUploadProps> = ({ userId, currentBanner, onBa
   if (!canEdit) return null;
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button 
           variant="ghost" 
@@ -172,59 +214,83 @@ const BannerUpload: React.FC<BannerUploadProps> = ({ userId, currentBanner, onBa
           <DialogTitle>{currentBanner ? 'Alterar Banner' : 'Adicionar Banner'}</DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4">
-          {previewUrl && (
-            <div className="relative">
-              <img 
-                src={previewUrl} 
-                alt="Preview" 
-                className="w-full h-40 object-cover rounded-md"
-              />
-              <Button
-                variant="ghost"
-                size="icon"
-                className="absolute top-2 right-2 bg-black/40 hover:bg-black/60 text-white rounded-full h-8 w-8 p-1"
-                onClick={() => setPreviewUrl(null)}
-              >
-                <X className="h-4 w-4" />
+        {selectedUrl ? (
+          <div className="space-y-4">
+            <ImageCropper
+              key={selectedUrl}
+              src={selectedUrl}
+              aspect={BANNER_ASPECT}
+              onCropChange={(area, size) => {
+                setCrop(area);
+                setImageSize(size);
+              }}
+            />
+
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">Prévia no perfil</p>
+              <div className="rounded-md overflow-hidden border border-border pb-3">
+                <CroppedImage
+                  src={selectedUrl}
+                  imageSize={imageSize}
+                  crop={crop}
+                  className="w-full aspect-[3/1]"
+                />
+                <Avatar className="h-16 w-16 border-4 border-background -mt-8 ml-4">
+                  <AvatarImage src={avatarUrl || undefined} alt={username} />
+                  <AvatarFallback className="bg-primary/20 font-bold">
+                    {username?.[0]?.toUpperCase() || 'U'}
+                  </AvatarFallback>
+                </Avatar>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" disabled={isUploading} onClick={() => setSelectedFile(null)}>
+                Cancelar
+              </Button>
+              <Button disabled={isUploading || !crop} onClick={handleSaveCrop}>
+                {isUploading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Salvar Banner
               </Button>
             </div>
-          )}
-
-          <div className="flex justify-between">
-            <Button
-              variant="outline"
-              disabled={isUploading}
-              onClick={() => document.getElementById('banner-upload')?.click()}
-            >
-              {isUploading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Image className="h-4 w-4 mr-2" />}
-              Selecionar Imagem
-            </Button>
-
-            {currentBanner && (
-              <Button 
-                variant="destructive" 
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
                 disabled={isUploading}
-                onClick={removeBanner}
+                onClick={() => document.getElementById('banner-upload')?.click()}
               >
-                <X className="h-4 w-4 mr-2" />
-                Remover Banner
+                {isUploading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Image className="h-4 w-4 mr-2" />}
+                Selecionar Imagem
               </Button>
-            )}
+
+              {currentBanner && (
+                <Button 
+                  variant="destructive" 
+                  disabled={isUploading}
+                  onClick={removeBanner}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Remover Banner
+                </Button>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Formatos aceitos: JPG, PNG, WebP, GIF. Tamanho máximo: 20MB. Depois de escolher, ajuste o enquadramento na proporção 3:1.
+            </p>
           </div>
+        )}
 
-          <input
-            id="banner-upload"
-            type="file"
-            accept="image/*"
-            className="hidden"
-            onChange={handleFileChange}
-          />
-
-          <p className="text-xs text-muted-foreground">
-            Formatos aceitos: JPG, PNG, GIF. Tamanho máximo: 3MB.
-          </p>
-        </div>
+        <input
+          id="banner-upload"
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleFileChange}
+        />
       </DialogContent>
     </Dialog>
   );
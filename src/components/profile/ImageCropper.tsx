@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CropArea } from '@/lib/media';
+
+const MAX_ZOOM = 4;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface CropState {
+  zoom: number;
+  center: Point;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Área visível para um zoom e um centro; com zoom 1 o recorte é o maior possível na proporção
+function getCropArea(imageSize: ImageSize, aspect: number, zoom: number, center: Point): CropArea {
+  const width = Math.min(imageSize.width, imageSize.height * aspect) / zoom;
+  const height = width / aspect;
+
+  return {
+    x: clamp(center.x - width / 2, 0, imageSize.width - width),
+    y: clamp(center.y - height / 2, 0, imageSize.height - height),
+    width,
+    height,
+  };
+}
+
+interface CroppedImageProps {
+  src: string;
+  imageSize: ImageSize | null;
+  crop: CropArea | null;
+  alt?: string;
+  className?: string;
+}
+
+// Exibir só a área recortada; o contêiner precisa ter a mesma proporção do recorte
+export const CroppedImage: React.FC<CroppedImageProps> = ({ src, imageSize, crop, alt = '', className }) => (
+  <div className={cn("relative overflow-hidden bg-muted", className)}>
+    {imageSize && crop && (
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="absolute max-w-none select-none pointer-events-none"
+        style={{
+          width: `${(imageSize.width / crop.width) * 100}%`,
+          height: `${(imageSize.height / crop.height) * 100}%`,
+          left: `${(-crop.x / crop.width) * 100}%`,
+          top: `${(-crop.y / crop.height) * 100}%`,
+        }}
+      />
+    )}
+  </div>
+);
+
+interface ImageCropperProps {
+  src: string;
+  // Largura dividida pela altura do recorte
+  aspect: number;
+  round?: boolean;
+  onCropChange: (crop: CropArea, imageSize: ImageSize) => void;
+}
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ src, aspect, round = false, onCropChange }) => {
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+  const [state, setState] = useState<CropState>({ zoom: 1, center: { x: 0, y: 0 } });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const pinchDistanceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const image = new window.Image();
+    image.onload = () => {
+      const size = { width: image.naturalWidth, height: image.naturalHeight };
+      setImageSize(size);
+      setState({ zoom: 1, center: { x: size.width / 2, y: size.height / 2 } });
+    };
+    image.src = src;
+  }, [src]);
+
+  // Os pais passam o callback inline; pela ref, uma nova renderização deles não reenvia o recorte
+  const onCropChangeRef = useRef(onCropChange);
+  onCropChangeRef.current = onCropChange;
+
+  const crop = useMemo(
+    () => (imageSize ? getCropArea(imageSize, aspect, state.zoom, state.center) : null),
+    [imageSize, aspect, state]
+  );
+
+  useEffect(() => {
+    if (imageSize && crop) onCropChangeRef.current(crop, imageSize);
+  }, [imageSize, crop]);
+
+  // Manter o centro coerente com o recorte limitado, para não haver "zona morta" ao arrastar
+  const update = (zoom: number, center: Point) => {
+    if (!imageSize) return;
+
+    const nextZoom = clamp(zoom, 1, MAX_ZOOM);
+    const area = getCropArea(imageSize, aspect, nextZoom, center);
+    setState({
+      zoom: nextZoom,
+      center: { x: area.x + area.width / 2, y: area.y + area.height / 2 },
+    });
+  };
+
+  const panBy = (dx: number, dy: number) => {
+    update(state.zoom, { x: state.center.x + dx, y: state.center.y + dy });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointersRef.current.get(e.pointerId);
+    if (!previous || !crop || !viewportRef.current) return;
+
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // Dois dedos: pinça para zoom
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchDistanceRef.current) {
+        update(state.zoom * (distance / pinchDistanceRef.current), state.center);
+      }
+      pinchDistanceRef.current = distance;
+      return;
+    }
+
+    // Converter o arraste em pixels da tela para pixels da imagem
+    const scale = crop.width / viewportRef.current.getBoundingClientRect().width;
+    panBy(-(e.clientX - previous.x) * scale, -(e.clientY - previous.y) * scale);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchDistanceRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!crop) return;
+
+    const step = crop.width * 0.05;
+    const moves: Record<string, Point> = {
+      ArrowLeft: { x: -step, y: 0 },
+      ArrowRight: { x: step, y: 0 },
+      ArrowUp: { x: 0, y: -step },
+      ArrowDown: { x: 0, y: step },
+    };
+
+    if (moves[e.key]) {
+      e.preventDefault();
+      panBy(moves[e.key].x, moves[e.key].y);
+    } else if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      update(state.zoom * 1.1, state.center);
+    } else if (e.key === '-') {
+      e.preventDefault();
+      update(state.zoom / 1.1, state.center);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={viewportRef}
+        role="application"
+        aria-label="Área de recorte. Arraste ou use as setas para mover e + ou - para aproximar"
+        tabIndex={0}
+        className="relative w-full overflow-hidden rounded-md cursor-move touch-none select-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        style={{ aspectRatio: String(aspect) }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={(e) => update(state.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1), state.center)}
+        onKeyDown={handleKeyDown}
+      >
+        <CroppedImage src={src} imageSize={imageSize} crop={crop} className="absolute inset-0" />
+        {round ? (
+          <div className="absolute inset-0 rounded-full pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+        ) : (
+          <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+            {Array.from({ length: 9 }).map((_, index) => (
+              <div key={index} className="border border-white/20" />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <ZoomOut className="h-4 w-4 text-muted-foreground shrink-0" />
+        <Slider
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={[state.zoom]}
+          onValueChange={([zoom]) => update(zoom, state.center)}
+          disabled={!imageSize}
+          aria-label="Zoom"
+        />
+        <ZoomIn className="h-4 w-4 text-muted-foreground shrink-0" />
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -10,6 +10,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import {
+  AVATAR_IMAGE_OPTIONS,
+  MAX_IMAGE_INPUT_SIZE,
+  CropArea,
+  extensionForMimeType,
+  processImage,
+  readFileAsDataUrl
+} from '@/lib/media';
+import AvatarCropDialog from './AvatarCropDialog';
+import { getErrorMessage } from '@/lib/errors';
 
 interface ProfileFormProps {
   initialData?: {
@@ -17,9 +27,11 @@ interface ProfileFormProps {
     bio?: string;
     industry?: string;
     avatar_url?: string;
+    banner_url?: string | null;
     linkedin_url?: string;
     website_url?: string;
     is_public?: boolean;
+    messages_mutuals_only?: boolean;
   };
   onSuccess?: () => void;
 }
@@ -33,8 +45,13 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
   const [linkedin, setLinkedin] = useState(initialData?.linkedin_url || '');
   const [website, setWebsite] = useState(initialData?.website_url || '');
   const [isPublic, setIsPublic] = useState(initialData?.is_public !== false);
+  const [messagesMutualsOnly, setMessagesMutualsOnly] = useState(!!initialData?.messages_mutuals_only);
   const [avatar, setAvatar] = useState<string | null>(initialData?.avatar_url || null);
   const [uploadPreview, setUploadPreview] = useState<string | null>(null);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  // Imagem escolhida aguardando o recorte
+  const [cropFile, setCropFile] = useState<File | null>(null);
+  const [isProcessingImage, setIsProcessingImage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const isVerified = username.toLowerCase() === 'outliersofc';
@@ -53,9 +70,9 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
       let avatarUrl = avatar;
       
       // If there's a new image to upload
-      if (uploadPreview && user) {
-        const file = await (await fetch(uploadPreview)).blob();
-        const fileExt = 'jpg';
+      if (uploadFile && user) {
+        const file = uploadFile;
+        const fileExt = extensionForMimeType(file.type);
         const fileName = `${user.id}-${Date.now()}.${fileExt}`;
         const filePath = `${fileName}`;
         
@@ -83,6 +100,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
         website_url: website,
         avatar_url: avatarUrl,
         is_public: isPublic,
+        messages_mutuals_only: messagesMutualsOnly,
         updated_at: new Date().toISOString(),
       });
       
@@ -91,6 +109,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
       toast.success('Perfil atualizado com sucesso!');
       setAvatar(avatarUrl);
       setUploadPreview(null);
+      setUploadFile(null);
       
       if (onSuccess) {
         onSuccess();
@@ -106,24 +125,42 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
+    
     if (file) {
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error('A imagem deve ter no máximo 5MB');
+      if (file.size > MAX_IMAGE_INPUT_SIZE) {
+        toast.error('A imagem deve ter no máximo 20MB');
         return;
       }
       
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          setUploadPreview(e.target.result as string);
-        }
-      };
-      reader.readAsDataURL(file);
+      setCropFile(file);
+    }
+  };
+  
+  // Apenas a área recortada é processada e enviada
+  const handleCropConfirm = async (crop: CropArea) => {
+    if (!cropFile) return;
+    
+    try {
+      setIsProcessingImage(true);
+      const processed = await processImage(cropFile, AVATAR_IMAGE_OPTIONS, crop);
+      
+      setUploadFile(processed.file);
+      setUploadPreview(await readFileAsDataUrl(processed.file));
+      setCropFile(null);
+    } catch (error) {
+      console.error('Erro ao processar imagem:', error);
+      toast.error('Não foi possível processar a imagem', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsProcessingImage(false);
     }
   };
 
   const removeImage = () => {
     setUploadPreview(null);
+    setUploadFile(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -163,8 +200,13 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
                 variant="secondary" 
                 className="absolute -bottom-2 -right-2 rounded-full w-8 h-8 p-0"
                 onClick={() => fileInputRef.current?.click()}
+                disabled={isProcessingImage}
               >
-                <Upload className="h-4 w-4" />
+                {isProcessingImage ? (
+                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                ) : (
+                  <Upload className="h-4 w-4" />
+                )}
               </Button>
               <input 
                 ref={fileInputRef}
@@ -175,6 +217,13 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
                 accept="image/*"
               />
             </div>
+            <AvatarCropDialog
+              file={cropFile}
+              bannerUrl={initialData?.banner_url}
+              isProcessing={isProcessingImage}
+              onCancel={() => setCropFile(null)}
+              onConfirm={handleCropConfirm}
+            />
             {uploadPreview && (
               <Button 
                 type="button" 
@@ -270,7 +319,24 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
               <span>Perfil Público</span>
             </Label>
             <p className="text-xs text-muted-foreground">
-              {isPublic ? "Seu perfil pode ser visto por todos" : "Seu perfil só pode ser visto pelas suas conexões"}
+              {isPublic ? "Seu perfil pode ser visto por todos" : "Só seguidores aprovados por você veem suas publicações e conexões"}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-foreground flex items-center gap-2">
+              <input 
+                type="checkbox" 
+                checked={messagesMutualsOnly} 
+                onChange={() => setMessagesMutualsOnly(!messagesMutualsOnly)}
+                className="w-4 h-4"
+              />
+              <span>Mensagens apenas de conexões mútuas</span>
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              {messagesMutualsOnly
+                ? "Somente quem você segue e também segue você pode iniciar uma conversa"
+                : "Qualquer pessoa pode enviar mensagens para você"}
             </p>
           </div>
 
@@ -280,7 +346,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ initialData, onSuccess }) =>
               "w-full bg-primary text-primary-foreground hover:bg-primary/90",
               isLoading && "opacity-70 cursor-not-allowed"
             )} 
-            disabled={isLoading}
+            disabled={isLoading || isProcessingImage}
           >
             {isLoading ? (
               <div className="flex items-center gap-2">
@@ -0,0 +1,360 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Search, Loader2, SlidersHorizontal, X, Tag, FileSearch } from 'lucide-react';
+import { motion } from 'framer-motion';
+import Post from '@/components/feed/Post';
+import LoadMoreTrigger from '@/components/feed/LoadMoreTrigger';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { searchPosts, PostSearchFilters } from '@/integrations/supabase/utils';
+import { normalizeTag } from '@/lib/tags';
+import type { PostAudience } from '@/lib/audience';
+
+type MediaFilter = 'all' | 'with' | 'without';
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+// Atrasar a atualização de um valor enquanto o usuário digita
+const useDebouncedValue = <T,>(value: T, delay: number) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+// Datas do input são dias locais; o fim do intervalo inclui o dia inteiro
+const toStartOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const toEndOfDay = (date: string) => {
+  const end = new Date(`${date}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.toISOString();
+};
+
+const PostSearch: React.FC = () => {
+  const { user } = useAuth();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [authorInput, setAuthorInput] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [mediaFilter, setMediaFilter] = useState<MediaFilter>('all');
+
+  const debouncedTerm = useDebouncedValue(searchTerm.trim(), SEARCH_DEBOUNCE_MS);
+  const debouncedAuthor = useDebouncedValue(authorInput.trim().replace(/^@/, ''), SEARCH_DEBOUNCE_MS);
+
+  // Resolver o @usuário digitado para o id do autor
+  const { data: author, isFetching: isResolvingAuthor } = useQuery({
+    queryKey: ['profiles', 'by-username', debouncedAuthor],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .ilike('username', debouncedAuthor.replace(/[%_\\]/g, '\\$&'))
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: debouncedAuthor.length > 0,
+  });
+
+  // Enquanto o autor não é resolvido, a busca não roda sem esse filtro
+  const authorPending = debouncedAuthor.length > 0 && !author;
+  const authorNotFound = authorPending && !isResolvingAuthor;
+
+  const filters = useMemo<PostSearchFilters>(() => ({
+    query: debouncedTerm.length >= 2 ? debouncedTerm : undefined,
+    tags,
+    authorId: author?.id,
+    dateFrom: dateFrom ? toStartOfDay(dateFrom) : undefined,
+    dateTo: dateTo ? toEndOfDay(dateTo) : undefined,
+    hasMedia: mediaFilter === 'all' ? undefined : mediaFilter === 'with',
+  }), [debouncedTerm, tags, author, dateFrom, dateTo, mediaFilter]);
+
+  const hasCriteria = !!filters.query
+    || tags.length > 0
+    || !!filters.authorId
+    || !!dateFrom
+    || !!dateTo
+    || mediaFilter !== 'all';
+
+  const {
+    data,
+    isPending,
+    isError,
+    error,
+    isFetchingNextPage,
+    isFetchNextPageError,
+    hasNextPage,
+    fetchNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ['posts', 'search', filters, user?.id ?? null],
+    queryFn: ({ pageParam }) => searchPosts(filters, pageParam, user?.id),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset,
+    enabled: hasCriteria && !authorPending,
+    staleTime: 60 * 1000,
+  });
+
+  const posts = useMemo(() => {
+    const seen = new Set<string>();
+    return (data?.pages || []).flatMap(page => page.posts).filter(post => {
+      if (seen.has(post.id)) return false;
+      seen.add(post.id);
+      return true;
+    });
+  }, [data]);
+
+  const addTag = () => {
+    const formatted = normalizeTag(tagInput);
+    if (!formatted) return;
+
+    if (!tags.includes(formatted)) {
+      setTags([...tags, formatted]);
+    }
+    setTagInput('');
+  };
+
+  const handleTagInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    }
+  };
+
+  const clearFilters = () => {
+    setTags([]);
+    setTagInput('');
+    setAuthorInput('');
+    setDateFrom('');
+    setDateTo('');
+    setMediaFilter('all');
+  };
+
+  const activeFilterCount = [tags.length > 0, !!authorInput, !!dateFrom, !!dateTo, mediaFilter !== 'all']
+    .filter(Boolean).length;
+
+  const isSearching = hasCriteria && !authorNotFound && (isPending || isResolvingAuthor);
+
+  return (
+    <div className="w-full max-w-xl mx-auto">
+      <div className="flex gap-2 mb-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Procurar publicações..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9 py-5"
+          />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        <Button
+          variant={showFilters ? 'secondary' : 'outline'}
+          onClick={() => setShowFilters(prev => !prev)}
+          className="h-auto"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          {activeFilterCount > 0 && <span className="ml-1 text-xs">{activeFilterCount}</span>}
+        </Button>
+      </div>
+
+      {showFilters && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4 mb-4 p-3 rounded-md border bg-card"
+        >
+          <div>
+            <Label htmlFor="search-tags">Tags</Label>
+            <div className="flex mt-2">
+              <Input
+                id="search-tags"
+                placeholder="#networking"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={handleTagInputKeyDown}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={addTag}
+                disabled={!tagInput.trim()}
+                className="ml-2"
+              >
+                <Tag className="h-4 w-4" />
+              </Button>
+            </div>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {tags.map(tag => (
+                  <span
+                    key={tag}
+                    className="bg-primary/10 border border-primary/20 text-primary rounded-full px-3 py-1 text-sm flex items-center"
+                  >
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => setTags(prev => prev.filter(t => t !== tag))}
+                      className="ml-2 focus:outline-none"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="search-author">Autor</Label>
+            <Input
+              id="search-author"
+              placeholder="@usuario"
+              value={authorInput}
+              onChange={(e) => setAuthorInput(e.target.value)}
+              className="mt-2"
+            />
+            {authorNotFound && (
+              <p className="text-xs text-destructive mt-1">Usuário não encontrado</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="search-date-from">De</Label>
+              <Input
+                id="search-date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="search-date-to">Até</Label>
+              <Input
+                id="search-date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Mídia</Label>
+            <Select value={mediaFilter} onValueChange={(value) => setMediaFilter(value as MediaFilter)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as publicações</SelectItem>
+                <SelectItem value="with">Com fotos ou vídeos</SelectItem>
+                <SelectItem value="without">Somente texto</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {activeFilterCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="mr-2 h-4 w-4" />
+              Limpar filtros
+            </Button>
+          )}
+        </motion.div>
+      )}
+
+      {!hasCriteria ? (
+        <div className="text-center py-8">
+          <FileSearch className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">Digite pelo menos 2 caracteres ou use os filtros</p>
+        </div>
+      ) : isError ? (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">{error.message}</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+            Tentar novamente
+          </Button>
+        </div>
+      ) : !isSearching && !authorNotFound && posts.length === 0 ? (
+        <div className="text-center py-8">
+          <FileSearch className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">Nenhuma publicação encontrada</p>
+          <p className="text-sm text-muted-foreground mt-1">Tente uma busca diferente</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {posts.map(post => (
+            <Post
+              key={post.id}
+              id={post.id}
+              author={{
+                id: post.user_id,
+                name: post.profiles.full_name || post.profiles.username,
+                username: post.profiles.username,
+                avatar: post.profiles.avatar_url || 'https://via.placeholder.com/150',
+                verified: post.profiles.username?.toLowerCase() === 'outliersofc'
+              }}
+              content={post.content}
+              highlightedContent={post.highlighted_content}
+              images={post.images || []}
+              media={post.media}
+              tags={post.tags || []}
+              audience={post.audience as PostAudience}
+              timestamp={new Date(post.created_at).toLocaleString('pt-BR', {
+                day: '2-digit',
+                month: '2-digit',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+              createdAt={post.created_at}
+              updatedAt={post.updated_at}
+              likes={post.likes}
+              comments={post.comments}
+              reposts={post.reposts}
+              hasLiked={post.has_liked}
+              hasReposted={post.has_reposted}
+              quotedPost={post.repost_of}
+              hasPoll={post.has_poll}
+            />
+          ))}
+
+          <LoadMoreTrigger
+            onLoadMore={() => fetchNextPage()}
+            isLoading={isFetchingNextPage}
+            hasMore={!!hasNextPage}
+            paused={isFetchNextPageError}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostSearch;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Flame, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { getTrendingTags, TrendingTag } from '@/integrations/supabase/utils';
+import { tagPath } from '@/lib/tags';
+
+const TRENDING_WINDOW_HOURS = 24;
+
+// Crescimento em relação à janela anterior; tags novas aparecem como "Nova"
+const formatGrowth = (trend: TrendingTag) => {
+  if (trend.previous_count === 0) return 'Nova';
+
+  const growth = Math.round(((trend.recent_count - trend.previous_count) / trend.previous_count) * 100);
+  return `${growth > 0 ? '+' : ''}${growth}%`;
+};
+
+const TrendingTags: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: trends = [], isPending, isError, refetch } = useQuery({
+    queryKey: ['trending_tags', TRENDING_WINDOW_HOURS],
+    queryFn: () => getTrendingTags(TRENDING_WINDOW_HOURS),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Flame className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold">Em alta</h2>
+        <span className="text-xs text-muted-foreground">últimas {TRENDING_WINDOW_HOURS}h</span>
+      </div>
+
+      {isPending ? (
+        <div className="space-y-4">
+          <Skeleton className="h-12 w-full bg-gray-800/50" />
+          <Skeleton className="h-12 w-full bg-gray-800/50" />
+          <Skeleton className="h-12 w-full bg-gray-800/50" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-6">
+          <p className="text-muted-foreground">Não foi possível carregar as tags em alta.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+            Tentar novamente
+          </Button>
+        </div>
+      ) : trends.length === 0 ? (
+        <p className="text-muted-foreground text-center py-6">
+          Nenhuma tag em alta no momento. Adicione tags às suas publicações!
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {trends.map((trend, index) => (
+            <motion.div
+              key={trend.tag}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="flex items-center gap-3 p-3 rounded-md border bg-card transition-colors hover:bg-accent/50 cursor-pointer"
+              onClick={() => navigate(tagPath(trend.tag))}
+            >
+              <span className="w-6 text-center text-sm text-muted-foreground">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground truncate">{trend.tag}</p>
+                <p className="text-xs text-muted-foreground">
+                  {trend.recent_count} {trend.recent_count === 1 ? 'publicação' : 'publicações'}
+                </p>
+              </div>
+              <span className="flex items-center text-xs text-muted-foreground">
+                {trend.velocity > 0 ? (
+                  <TrendingUp className="h-4 w-4 mr-1 text-green-500" />
+                ) : trend.velocity < 0 ? (
+                  <TrendingDown className="h-4 w-4 mr-1 text-rose-500" />
+                ) : (
+                  <Minus className="h-4 w-4 mr-1" />
+                )}
+                {formatGrowth(trend)}
+              </span>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendingTags;
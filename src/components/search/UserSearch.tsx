@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Search, Loader2, UserRound } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { blockedUserIds } from '@/integrations/supabase/functions';
+import { useUserBlocks } from '@/hooks/useUserBlocks';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 
@@ -22,6 +24,7 @@ const UserSearch: React.FC = () => {
   const [isSearching, setIsSearching] = useState(false);
   const [showNoResults, setShowNoResults] = useState(false);
   const navigate = useNavigate();
+  const { hidden } = useUserBlocks();
 
   useEffect(() => {
     if (searchTerm.length >= 2) {
@@ -45,8 +48,12 @@ const UserSearch: React.FC = () => {
         
       if (error) throw error;
       
-      setResults(data || []);
-      setShowNoResults(data.length === 0);
+      // Usuários bloqueados (nos dois sentidos) não aparecem na busca
+      const blockedIds = blockedUserIds(hidden);
+      const visible = (data || []).filter(result => !blockedIds.includes(result.id));
+      
+      setResults(visible);
+      setShowNoResults(visible.length === 0);
     } catch (error) {
       console.error('Error searching users:', error);
       setResults([]);
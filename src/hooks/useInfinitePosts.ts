@@ -0,0 +1,24 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { getPostsPage, PostsCursor, PostsScope } from '@/integrations/supabase/utils';
+
+// Chave de cache de uma lista de posts; cada origem (feed, perfil, salvos, coleção) tem a sua
+export const postsQueryKey = (scope: PostsScope, viewerId?: string) => [
+  'posts',
+  scope.type,
+  'userId' in scope ? scope.userId : 'tag' in scope ? scope.tag : 'collectionId' in scope ? scope.collectionId : null,
+  viewerId ?? null,
+];
+
+export function useInfinitePosts(scope: PostsScope, enabled = true) {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: postsQueryKey(scope, user?.id),
+    queryFn: ({ pageParam }) => getPostsPage(scope, pageParam, user?.id),
+    initialPageParam: null as PostsCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+    staleTime: 60 * 1000, // 1 minuto
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { isModerator } from '@/integrations/supabase/functions';
+
+// Se o usuário logado faz parte da equipe de moderação
+export function useModerator() {
+  const { user } = useAuth();
+
+  const { data = false, isPending } = useQuery({
+    queryKey: ['moderator', user?.id ?? null],
+    queryFn: isModerator,
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { isModerator: data, isLoading: isPending && !!user };
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  setNotificationMute
+} from '@/integrations/supabase/functions';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+
+export const notificationPreferencesQueryKey = (userId?: string) => ['notification_preferences', userId ?? null];
+
+type PreferencesChanges = Omit<TablesUpdate<'notification_preferences'>, 'user_id' | 'updated_at'>;
+
+// Preferências de notificação do usuário logado, com ações para salvar e silenciar
+export function useNotificationPreferences(enabled = true) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = notificationPreferencesQueryKey(user?.id);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getNotificationPreferences(user!.id),
+    enabled: !!user && enabled,
+  });
+
+  const onSaved = (preferences: Tables<'notification_preferences'>) => {
+    queryClient.setQueryData(queryKey, preferences);
+  };
+
+  const onError = (error: Error) => {
+    console.error('Erro ao salvar preferências de notificação:', error);
+    toast.error('Erro ao salvar preferências', {
+      description: error.message,
+    });
+  };
+
+  const update = useMutation({
+    mutationFn: (changes: PreferencesChanges) => updateNotificationPreferences(user!.id, changes),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const mute = useMutation({
+    mutationFn: ({ target, targetId, muted }: { target: 'actor' | 'post'; targetId: string; muted: boolean }) =>
+      setNotificationMute(user!.id, target, targetId, muted),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  return {
+    preferences: query.data,
+    isLoading: query.isPending && !!user && enabled,
+    error: query.error,
+    refetch: query.refetch,
+    updatePreferences: update.mutate,
+    isSaving: update.isPending || mute.isPending,
+    setMuted: mute.mutate,
+  };
+}
@@ -0,0 +1,75 @@
+import React, { useCallback, useEffect, useRef, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  RealtimeContext,
+  AnyRealtimePayload,
+  RealtimeListener,
+  RealtimeTable
+} from '@/hooks/useRealtimeSubscription';
+
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const listenersRef = useRef(new Map<RealtimeTable, Set<RealtimeListener>>());
+
+  const emit = useCallback((table: RealtimeTable, payload: AnyRealtimePayload) => {
+    listenersRef.current.get(table)?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Erro ao processar evento de tempo real (${table}):`, error);
+      }
+    });
+  }, []);
+
+  // Um único canal por sessão; os componentes se inscrevem localmente por tabela
+  useEffect(() => {
+    const channel = supabase
+      .channel(`app-realtime-${user?.id ?? 'anon'}`)
+      .on<Tables<'posts'>>('postgres_changes', { event: '*', schema: 'public', table: 'posts' }, payload => emit('posts', payload))
+      .on<Tables<'likes'>>('postgres_changes', { event: '*', schema: 'public', table: 'likes' }, payload => emit('likes', payload))
+      .on<Tables<'comments'>>('postgres_changes', { event: '*', schema: 'public', table: 'comments' }, payload => emit('comments', payload));
+
+    if (user) {
+      channel.on<Tables<'notifications'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        payload => emit('notifications', payload)
+      );
+
+      // As políticas de RLS limitam esses eventos às conversas das quais o usuário participa
+      channel
+        .on<Tables<'messages'>>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, payload => emit('messages', payload))
+        .on<Tables<'conversation_participants'>>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'conversation_participants' },
+          payload => emit('conversation_participants', payload)
+        );
+    }
+
+    channel.subscribe((status) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Falha no canal de tempo real:', status);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, emit]);
+
+  const subscribe = useCallback((table: RealtimeTable, listener: RealtimeListener) => {
+    const listeners = listenersRef.current;
+    if (!listeners.has(table)) {
+      listeners.set(table, new Set());
+    }
+    listeners.get(table)!.add(listener);
+
+    return () => {
+      listeners.get(table)?.delete(listener);
+    };
+  }, []);
+
+  return <RealtimeContext.Provider value={{ subscribe }}>{children}</RealtimeContext.Provider>;
+};
@@ -0,0 +1,47 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Tabelas observadas pelo canal de tempo real da aplicação
+export type RealtimeTable =
+  | 'posts'
+  | 'likes'
+  | 'comments'
+  | 'notifications'
+  | 'messages'
+  | 'conversation_participants';
+
+export type RealtimePayload<T extends RealtimeTable> = RealtimePostgresChangesPayload<Tables<T>>;
+
+export type AnyRealtimePayload = RealtimePayload<RealtimeTable>;
+
+export type RealtimeListener = (payload: AnyRealtimePayload) => void;
+
+type RealtimeContextType = {
+  subscribe: (table: RealtimeTable, listener: RealtimeListener) => () => void;
+};
+
+// Preenchido pelo RealtimeProvider (useRealtime.tsx), que mantém o canal
+export const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+// Executa o handler para cada mudança na tabela; o handler mais recente é sempre usado
+export const useRealtimeSubscription = <T extends RealtimeTable>(
+  table: T,
+  handler: (payload: RealtimePayload<T>) => void,
+  enabled = true
+) => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtimeSubscription deve ser usado dentro de um RealtimeProvider');
+  }
+
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const { subscribe } = context;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return subscribe(table, (payload) => handlerRef.current(payload as RealtimePayload<T>));
+  }, [subscribe, table, enabled]);
+};
@@ -0,0 +1,28 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { getUnreadConversationsCount } from '@/integrations/supabase/functions';
+
+export const unreadMessagesQueryKey = (userId?: string) => ['conversations', 'unread', userId ?? null];
+
+// Número de conversas com mensagens não lidas; novas mensagens e confirmações de leitura atualizam o contador
+export function useUnreadMessages() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: unreadMessagesQueryKey(user?.id) });
+  };
+
+  useRealtimeSubscription('messages', invalidate, !!user);
+  useRealtimeSubscription('conversation_participants', invalidate, !!user);
+
+  const { data } = useQuery({
+    queryKey: unreadMessagesQueryKey(user?.id),
+    queryFn: getUnreadConversationsCount,
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+
+  return data ?? 0;
+}
@@ -0,0 +1,25 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { getUnreadNotificationsCount } from '@/integrations/supabase/functions';
+
+export const unreadNotificationsQueryKey = (userId?: string) => ['notifications', 'unread', userId ?? null];
+
+// Contador de notificações não lidas, atualizado a cada evento da tabela de notificações
+export function useUnreadNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useRealtimeSubscription('notifications', () => {
+    queryClient.invalidateQueries({ queryKey: unreadNotificationsQueryKey(user?.id) });
+  }, !!user);
+
+  const { data } = useQuery({
+    queryKey: unreadNotificationsQueryKey(user?.id),
+    queryFn: () => getUnreadNotificationsCount(user!.id),
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+
+  return data ?? 0;
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { MAX_PARALLEL_UPLOADS, StorageUpload, UploadCanceledError, uploadFileWithRetry } from '@/lib/uploads';
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'done' | 'error' | 'canceled';
+
+export interface UploadProgress {
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  error?: string;
+}
+
+export interface QueuedUpload extends StorageUpload {
+  id: string;
+}
+
+export interface UploadResult {
+  id: string;
+  // URL pública, presente apenas quando o envio terminou
+  url?: string;
+  error?: Error;
+}
+
+export const isUploadActive = (upload?: UploadProgress) =>
+  !!upload && (upload.status === 'queued' || upload.status === 'uploading' || upload.status === 'retrying');
+
+// Fila de envios para o Storage: no máximo `concurrency` arquivos ao mesmo tempo, com progresso
+// por arquivo e cancelamento individual ou de todos
+export function useUploadQueue(concurrency = MAX_PARALLEL_UPLOADS) {
+  const [uploads, setUploads] = useState<Record<string, UploadProgress>>({});
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Sair da tela interrompe o que ainda estiver sendo enviado
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const update = (id: string, changes: Partial<UploadProgress>) => {
+    setUploads(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  // Resolve quando todos terminam, com sucesso ou não, para quem chamou decidir o que desfazer
+  const uploadAll = async (items: QueuedUpload[]): Promise<UploadResult[]> => {
+    setUploads(prev => ({
+      ...prev,
+      ...Object.fromEntries(items.map(item => [item.id, { status: 'queued', loaded: 0, total: item.file.size }]))
+    }));
+    items.forEach(item => controllersRef.current.set(item.id, new AbortController()));
+
+    const results: UploadResult[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        const item = items[index];
+        const controller = controllersRef.current.get(item.id)!;
+
+        try {
+          if (controller.signal.aborted) throw new UploadCanceledError();
+
+          update(item.id, { status: 'uploading' });
+          const url = await uploadFileWithRetry(item, {
+            signal: controller.signal,
+            onProgress: (loaded, total) => update(item.id, { status: 'uploading', loaded, total }),
+            onRetry: () => update(item.id, { status: 'retrying' }),
+          });
+
+          update(item.id, { status: 'done', loaded: item.file.size });
+          results[index] = { id: item.id, url };
+        } catch (error) {
+          const failure = error instanceof Error ? error : new Error(String(error));
+          update(item.id, {
+            status: failure instanceof UploadCanceledError ? 'canceled' : 'error',
+            error: failure.message,
+          });
+          results[index] = { id: item.id, error: failure };
+        } finally {
+          controllersRef.current.delete(item.id);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+  };
+
+  const cancel = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+  };
+
+  const cancelAll = () => {
+    controllersRef.current.forEach(controller => controller.abort());
+  };
+
+  const clear = (ids: string[]) => {
+    setUploads(prev => {
+      const next = { ...prev };
+      ids.forEach(id => delete next[id]);
+      return next;
+    });
+  };
+
+  return { uploads, uploadAll, cancel, cancelAll, clear };
+}
@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  getHiddenUsers,
+  invalidateHiddenUsers,
+  setUserBlock,
+  removeUserBlock,
+  BlockKind,
+  HiddenUsers
+} from '@/integrations/supabase/functions';
+
+export const hiddenUsersQueryKey = (userId?: string) => ['user_blocks', userId ?? null];
+
+const EMPTY: HiddenUsers = { blocked: [], muted: [], blockedBy: [] };
+
+// Bloqueios e silenciamentos do usuário logado, com ações para alterá-los
+export function useUserBlocks() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: hidden = EMPTY, isPending } = useQuery({
+    queryKey: hiddenUsersQueryKey(user?.id),
+    queryFn: () => getHiddenUsers(user!.id),
+    enabled: !!user,
+  });
+
+  // Feeds, comentários e permissões de mensagem dependem dos bloqueios
+  const onChanged = () => {
+    if (user) invalidateHiddenUsers(user.id);
+    queryClient.invalidateQueries({ queryKey: ['user_blocks'] });
+    queryClient.invalidateQueries({ queryKey: ['posts'] });
+    queryClient.invalidateQueries({ queryKey: ['can_message'] });
+  };
+
+  const onError = (error: Error) => {
+    console.error('Erro ao atualizar bloqueio:', error);
+    toast.error('Não foi possível concluir a ação', {
+      description: error.message,
+    });
+  };
+
+  const block = useMutation({
+    mutationFn: ({ targetUserId, kind }: { targetUserId: string; kind: BlockKind }) =>
+      setUserBlock(user!.id, targetUserId, kind),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const unblock = useMutation({
+    mutationFn: (targetUserId: string) => removeUserBlock(user!.id, targetUserId),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  return {
+    hidden,
+    isLoading: isPending && !!user,
+    isBlocked: (userId: string) => hidden.blocked.includes(userId),
+    isMuted: (userId: string) => hidden.muted.includes(userId),
+    isBlockedBy: (userId: string) => hidden.blockedBy.includes(userId),
+    setBlock: block.mutate,
+    removeBlock: unblock.mutate,
+    isSaving: block.isPending || unblock.isPending,
+  };
+}
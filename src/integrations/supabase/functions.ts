@@ -1,5 +1,7 @@
 
 import { supabase } from './client';
+import type { Json, Tables, TablesInsert, TablesUpdate } from './types';
+import type { PostWithProfile } from './utils';
 
 // Helper function to get profile data by user ID with caching
 const profileCache = new Map();
@@ -142,6 +144,7 @@ const commentsCountCache = new Map();
 const commentsCountExpiry = new Map();
 const COMMENTS_CACHE_DURATION = 60 * 1000; // 1 minute
 
+// Counts every comment on the post, top-level comments and replies alike, skipping removed placeholders
 export async function getCommentsCountForPost(postId: string): Promise<number> {
   try {
     const now = Date.now();
@@ -155,7 +158,8 @@ export async function getCommentsCountForPost(postId: string): Promise<number> {
     const { count, error } = await supabase
       .from('comments')
       .select('*', { count: 'exact', head: true })
-      .eq('post_id', postId);
+      .eq('post_id', postId)
+      .is('deleted_at', null);
       
     if (error) throw error;
     
@@ -170,206 +174,10 @@ export async function getCommentsCountForPost(postId: string): Promise<number> {
   }
 }
 
-// Helper function to get posts with profile data - optimized with caching and parallel requests
-const postsCache = {
-  data: null as any[] | null,
-  expiry: 0,
-  loading: false,
-  lastError: null as Error | null,
-  errorCount: 0,
-  lastErrorTime: 0
-};
-const POSTS_CACHE_DURATION = 60 * 1000; // Increased to 60 seconds
-const ERROR_RESET_TIME = 5 * 60 * 1000; // 5 minutes to reset error count
-
-export async function getPostsWithProfiles() {
-  try {
-    const now = Date.now();
-    console.log('Starting getPostsWithProfiles function');
-    
-    // Check if we need to reset error counter
-    if (postsCache.errorCount > 0 && (now - postsCache.lastErrorTime) > ERROR_RESET_TIME) {
-      postsCache.errorCount = 0;
-      postsCache.lastError = null;
-    }
-    
-    // If too many errors recently, add exponential backoff
-    if (postsCache.errorCount > 3) {
-      const backoffTime = Math.min(Math.pow(2, postsCache.errorCount - 3) * 1000, 60000); // Max 1 minute backoff
-      console.log(`Too many errors recently, backing off for ${backoffTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, backoffTime));
-    }
-    
-    // Return cached data if available and not expired
-    if (postsCache.data && now < postsCache.expiry && !postsCache.loading) {
-      console.log('Returning cached posts data');
-      return postsCache.data;
-    }
-    
-    // If already loading, wait for it to complete rather than starting another request
-    if (postsCache.loading) {
-      console.log('Posts already loading, waiting...');
-      
-      // Wait for up to 8 seconds for loading to complete
-      for (let i = 0; i < 80; i++) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-        if (!postsCache.loading && postsCache.data) {
-          console.log('Using freshly loaded posts data');
-          return postsCache.data;
-        }
-      }
-      
-      // If still loading after timeout, throw error to trigger fallback
-      if (postsCache.data) {
-        console.log('Loading taking too long, returning stale data');
-        return postsCache.data; // Return stale data instead of throwing
-      }
-      
-      throw new Error('Timeout waiting for posts data');
-    }
-    
-    // Set loading flag
-    postsCache.loading = true;
-    
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-      
-      // First, fetch posts with a timeout
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .abortSignal(controller.signal);
-        
-      clearTimeout(timeoutId);
-  
-      if (postsError) throw postsError;
-      
-      if (!postsData || postsData.length === 0) {
-        console.log('No posts found');
-        postsCache.data = [];
-        postsCache.expiry = now + POSTS_CACHE_DURATION;
-        return [];
-      }
-  
-      console.log(`Found ${postsData.length} posts`);
-  
-      // Get all user IDs from the posts to fetch their profiles
-      const userIds = [...new Set(postsData.map(post => post.user_id))];
-      
-      // Create a new controller for the next fetch
-      const profileController = new AbortController();
-      const profileTimeoutId = setTimeout(() => profileController.abort(), 10000);
-      
-      // Fetch all profiles for these users
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, username, avatar_url, full_name')
-        .in('id', userIds)
-        .abortSignal(profileController.signal);
-        
-      clearTimeout(profileTimeoutId);
-        
-      if (profilesError) throw profilesError;
-      
-      // Create a map of user_id to profile data for quick lookup
-      const profilesMap = (profilesData || []).reduce((acc, profile) => {
-        acc[profile.id] = profile;
-        return acc;
-      }, {} as Record<string, any>);
-      
-      // Count likes and comments in parallel using Promise.all with timeouts
-      const postIds = postsData.map(post => post.id);
-      
-      // Create promise with timeout wrapper
-      const withTimeout = (promise: Promise<any>, ms: number) => {
-        let timeoutId: NodeJS.Timeout;
-        const timeoutPromise = new Promise((_, reject) => {
-          timeoutId = setTimeout(() => reject(new Error('Operation timed out')), ms);
-        });
-        return Promise.race([
-          promise,
-          timeoutPromise,
-        ]).finally(() => clearTimeout(timeoutId));
-      };
-      
-      let likesCounts, commentsCounts;
-      
-      try {
-        // Try to get all counts, but catch and provide fallbacks if it fails
-        [likesCounts, commentsCounts] = await Promise.all([
-          withTimeout(Promise.all(postIds.map(id => getLikesCountForPost(id))), 10000),
-          withTimeout(Promise.all(postIds.map(id => getCommentsCountForPost(id))), 10000)
-        ]);
-      } catch (error) {
-        console.error('Error getting counts, using fallbacks:', error);
-        // Use fallback counts (all zeros)
-        likesCounts = Array(postIds.length).fill(0);
-        commentsCounts = Array(postIds.length).fill(0);
-      }
-      
-      console.log('Successfully fetched all related data');
-      
-      // Combine everything
-      const enhancedPosts = postsData.map((post, index) => {
-        const profile = profilesMap[post.user_id] || {
-          username: 'usuário',
-          avatar_url: null,
-          full_name: null
-        };
-        
-        return {
-          ...post,
-          profiles: {
-            username: profile.username,
-            avatar_url: profile.avatar_url,
-            full_name: profile.full_name
-          },
-          likes: likesCounts[index] || 0,
-          comments: commentsCounts[index] || 0,
-          has_liked: false // This will be set separately for logged-in users
-        };
-      });
-      
-      // Update cache
-      postsCache.data = enhancedPosts;
-      postsCache.expiry = now + POSTS_CACHE_DURATION;
-      postsCache.errorCount = 0;
-      postsCache.lastError = null;
-      
-      return enhancedPosts;
-    } catch (error: any) {
-      // Handle errors with retry information
-      console.error('Error fetching posts with profiles:', error);
-      
-      // Update error tracking
-      postsCache.errorCount++;
-      postsCache.lastError = error;
-      postsCache.lastErrorTime = now;
-      
-      // If we have stale data, return it instead of failing
-      if (postsCache.data) {
-        console.log('Returning stale data due to fetch error');
-        return postsCache.data;
-      }
-      
-      throw new Error('A conexão expirou, tente novamente');
-    } finally {
-      // Clear loading flag
-      postsCache.loading = false;
-    }
-  } catch (error: any) {
-    console.error('Error at top level in getPostsWithProfiles:', error);
-    
-    // If we have stale data, return it instead of failing
-    if (postsCache.data) {
-      console.log('Returning stale data due to top-level error');
-      return postsCache.data;
-    }
-    
-    throw error;
-  }
+// Drop the cached count after a comment or reply is added or removed
+export function invalidateCommentsCount(postId: string) {
+  commentsCountCache.delete(postId);
+  commentsCountExpiry.delete(postId);
 }
 
 // Helper function to get user's liked posts
@@ -454,10 +262,6 @@ export async function getUserNotifications(userId: string, limit = 20): Promise<
       .from('notifications')
       .select(`
         *,
-        actor:actor_id (
-          id,
-          profiles:profiles(username, avatar_url, full_name)
-        ),
         post:post_id (
           id,
           content
@@ -469,18 +273,30 @@ export async function getUserNotifications(userId: string, limit = 20): Promise<
       
     if (error) throw error;
     
+    // actor_id references auth.users, so actor profiles are loaded in a single batch
+    const actorIds = [...new Set((data || []).map(notification => notification.actor_id).filter(Boolean))];
+    const { data: actors, error: actorsError } = actorIds.length > 0
+      ? await supabase
+          .from('profiles')
+          .select('id, username, avatar_url, full_name')
+          .in('id', actorIds)
+      : { data: [], error: null };
+      
+    if (actorsError) throw actorsError;
+    
+    const actorsById = new Map((actors || []).map(actor => [actor.id, actor]));
+    
     // Transformar os dados para o formato esperado
     const formattedData = (data || []).map(notification => {
-      // Extrair as informações do ator de maneira segura
-      const actorProfile = notification.actor?.profiles?.[0] || {};
+      const actorProfile = actorsById.get(notification.actor_id || '');
       
       return {
         ...notification,
         actor: {
           id: notification.actor_id || '',
-          username: actorProfile.username,
-          avatar_url: actorProfile.avatar_url,
-          full_name: actorProfile.full_name
+          username: actorProfile?.username,
+          avatar_url: actorProfile?.avatar_url,
+          full_name: actorProfile?.full_name
         }
       };
     });
@@ -494,22 +310,88 @@ export async function getUserNotifications(userId: string, limit = 20): Promise<
 
 // Mark notification as read
 export async function markNotificationAsRead(notificationId: string, userId: string): Promise<boolean> {
+  return markNotificationsAsRead([notificationId], userId);
+}
+
+// Mark several notifications as read in a single request (used by grouped notifications)
+export async function markNotificationsAsRead(notificationIds: string[], userId: string): Promise<boolean> {
+  if (notificationIds.length === 0) return true;
+  
   try {
     const { error } = await supabase
       .from('notifications')
       .update({ read: true })
-      .eq('id', notificationId)
+      .in('id', notificationIds)
       .eq('user_id', userId);
       
     if (error) throw error;
     
     return true;
   } catch (error) {
-    console.error('Error marking notification as read:', error);
+    console.error('Error marking notifications as read:', error);
+    return false;
+  }
+}
+
+// Mark every unread notification of the user as read
+export async function markAllNotificationsAsRead(userId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+      
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error);
     return false;
   }
 }
 
+// Resolve actor profile and post excerpt for a notification row received through realtime
+export async function getNotificationDetails(notification: Tables<'notifications'>) {
+  const [actorProfile, postResult] = await Promise.all([
+    notification.actor_id ? getProfileByUserId(notification.actor_id) : Promise.resolve(null),
+    notification.post_id
+      ? supabase.from('posts').select('id, content').eq('id', notification.post_id).maybeSingle()
+      : Promise.resolve(null)
+  ]);
+
+  return {
+    ...notification,
+    actor: {
+      id: notification.actor_id || '',
+      username: actorProfile?.username,
+      avatar_url: actorProfile?.avatar_url,
+      full_name: actorProfile?.full_name
+    },
+    post: postResult?.data || undefined
+  };
+}
+
+// Count unread notifications for the navigation badge
+export async function getUnreadNotificationsCount(userId: string): Promise<number> {
+  if (!userId) return 0;
+
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) throw error;
+
+    return count || 0;
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    return 0;
+  }
+}
+
 // Create notification
 export async function createNotification(
   type: string,
@@ -522,6 +404,10 @@ export async function createNotification(
     // Don't create self-notifications
     if (userId === actorId) return true;
     
+    // Blocked users never notify each other
+    if (await isBlockedBetween(actorId, userId)) return true;
+    
+    // The recipient's notification preferences are applied by the insert trigger
     const { error } = await supabase
       .from('notifications')
       .insert({
@@ -542,6 +428,64 @@ export async function createNotification(
   }
 }
 
+// Get notification preferences, falling back to defaults when the user never saved any
+export async function getNotificationPreferences(userId: string): Promise<Tables<'notification_preferences'>> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  return data || {
+    user_id: userId,
+    muted_types: [],
+    muted_actor_ids: [],
+    muted_post_ids: [],
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'America/Sao_Paulo',
+    updated_at: null
+  };
+}
+
+// Save notification preferences
+export async function updateNotificationPreferences(
+  userId: string,
+  changes: Omit<TablesUpdate<'notification_preferences'>, 'user_id' | 'updated_at'>
+): Promise<Tables<'notification_preferences'>> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      ...changes,
+      user_id: userId,
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+// Mute or unmute notifications coming from an actor or about a post
+export async function setNotificationMute(
+  userId: string,
+  target: 'actor' | 'post',
+  targetId: string,
+  muted: boolean
+): Promise<Tables<'notification_preferences'>> {
+  const preferences = await getNotificationPreferences(userId);
+  const field = target === 'actor' ? 'muted_actor_ids' : 'muted_post_ids';
+  const current = preferences[field].filter(id => id !== targetId);
+  
+  return updateNotificationPreferences(userId, {
+    [field]: muted ? [...current, targetId] : current
+  });
+}
+
 // Helper function to get follower count for a user
 export async function getFollowerCountForUser(userId: string): Promise<number> {
   try {
@@ -576,193 +520,1269 @@ export async function getFollowingCountForUser(userId: string): Promise<number>
   }
 }
 
-// Helper function to get posts for a specific user
-export async function getPostsByUserId(userId: string) {
-  let retries = 2;
+export interface ProfileStats {
+  post_count: number;
+  follower_count: number;
+  following_count: number;
+  can_view_content: boolean;
+}
+
+// Header numbers for a profile plus whether the caller may see its posts and connections.
+// Counted on the server because private accounts hide the rows behind them.
+export async function getProfileStats(userId: string): Promise<ProfileStats> {
+  try {
+    const { data, error } = await supabase.rpc('profile_stats', { target_user_id: userId });
+    
+    if (error) throw error;
+    
+    const stats = data?.[0];
+    return {
+      post_count: Number(stats?.post_count || 0),
+      follower_count: Number(stats?.follower_count || 0),
+      following_count: Number(stats?.following_count || 0),
+      can_view_content: stats?.can_view_content !== false
+    };
+  } catch (error) {
+    console.error('Error fetching profile stats:', error);
+    return { post_count: 0, follower_count: 0, following_count: 0, can_view_content: false };
+  }
+}
+
+// Helper function to get a single post with its author profile and counts
+export async function getPostById(postId: string, withReposted = true): Promise<PostWithProfile | null> {
+  if (!postId) return null;
   
-  while (retries >= 0) {
-    try {
-      console.log('Profile: Starting to fetch posts for userId:', userId);
+  try {
+    const { data: post, error: postError } = await supabase
+      .from('posts')
+      .select('*')
+      .eq('id', postId)
+      .maybeSingle();
       
-      // Fetch posts for this user
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (postsError) throw postsError;
+    if (postError) throw postError;
+    
+    if (!post) {
+      return null;
+    }
+    
+    // Fetch the author's profile, counts, poll and the reposted post in parallel
+    const [profileResult, likesCount, commentsCount, repostsCounts, pollPostIds, repostOf] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, username, avatar_url, full_name')
+        .eq('id', post.user_id)
+        .maybeSingle(),
+      getLikesCountForPost(post.id).catch(() => 0),
+      getCommentsCountForPost(post.id).catch(() => 0),
+      getRepostsCounts([post.id]),
+      getPostIdsWithPolls([post.id]),
+      withReposted && post.repost_of_id ? getPostById(post.repost_of_id, false).catch(() => null) : null
+    ]);
+    
+    if (profileResult.error) throw profileResult.error;
+    
+    const profile = profileResult.data;
+    
+    return {
+      ...post,
+      profiles: {
+        username: profile?.username || 'usuário',
+        avatar_url: profile?.avatar_url || null,
+        full_name: profile?.full_name || null
+      },
+      likes: likesCount,
+      comments: commentsCount,
+      reposts: repostsCounts.get(post.id) || 0,
+      // These will be set separately for logged-in users
+      has_liked: false,
+      has_reposted: false,
+      has_poll: pollPostIds.length > 0,
+      repost_of: post.repost_of_id ? repostOf : undefined
+    };
+  } catch (error) {
+    console.error('Error fetching post:', error);
+    throw error;
+  }
+}
+
+// Audience of a post the logged in user is not allowed to read, or null when it doesn't exist
+export async function getRestrictedPostAudience(postId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('restricted_post_audience', { target_post_id: postId });
+  
+  if (error) throw error;
+  
+  return data ?? null;
+}
+
+// Extract the storage object path from a public URL of the given bucket
+export function getStoragePathFromUrl(url: string, bucket: string): string | null {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  
+  if (index === -1) return null;
+  
+  return decodeURIComponent(url.substring(index + marker.length).split('?')[0]);
+}
+
+// Remove files from a storage bucket given their public URLs, ignoring failures
+export async function removeStorageFiles(bucket: string, urls: string[]): Promise<void> {
+  const paths = urls
+    .map(url => getStoragePathFromUrl(url, bucket))
+    .filter((path): path is string => !!path);
+    
+  if (paths.length === 0) return;
+  
+  const { error } = await supabase.storage
+    .from(bucket)
+    .remove(paths);
+    
+  if (error) {
+    console.error('Error removing storage files:', error);
+  }
+}
+
+// Poster frames uploaded next to videos, listed in the media metadata of a post or draft
+const getPosterUrls = (media: Json | null) =>
+  (Array.isArray(media) ? media : [])
+    .map(item => (item && typeof item === 'object' && !Array.isArray(item) ? item.poster_url : null))
+    .filter((url): url is string => typeof url === 'string');
+
+// Update a post owned by the user; the previous version is archived by a database trigger.
+// Media removed in the edit is kept in storage because older revisions still reference it.
+export async function updatePost(
+  postId: string,
+  userId: string,
+  changes: {
+    content: string;
+    tags: string[] | null;
+    images: string[];
+    audience: string;
+  }
+) {
+  const { data, error } = await supabase
+    .from('posts')
+    .update(changes)
+    .eq('id', postId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+// Delete a post owned by the user along with its media; likes, comments, saves and revisions cascade
+export async function deletePost(postId: string, userId: string): Promise<void> {
+  // Collect media referenced by older revisions before they are removed with the post
+  const revisions = await getPostRevisions(postId);
+  
+  const { data, error } = await supabase
+    .from('posts')
+    .delete()
+    .eq('id', postId)
+    .eq('user_id', userId)
+    .select('images, media')
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  if (!data) {
+    throw new Error('Publicação não encontrada ou sem permissão para excluir');
+  }
+  
+  const mediaUrls = new Set([
+    ...(data.images || []),
+    ...getPosterUrls(data.media),
+    ...revisions.flatMap(revision => revision.images || [])
+  ]);
+  
+  await removeStorageFiles('posts', [...mediaUrls]);
+}
+
+// Edit the text of a comment owned by the user; the database bumps updated_at
+export async function updateComment(commentId: string, userId: string, content: string) {
+  const { data, error } = await supabase
+    .from('comments')
+    .update({ content })
+    .eq('id', commentId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  if (!data) {
+    throw new Error('Comentário não encontrado ou sem permissão para editar');
+  }
+  
+  return data;
+}
+
+export type CommentDeletion = 'deleted' | 'removed';
+
+// Delete a comment as its author or as the post author. Comments with replies stay as a
+// "removed" placeholder so the thread is preserved
+export async function deleteComment(commentId: string, postId: string): Promise<CommentDeletion> {
+  const { data, error } = await supabase.rpc('delete_comment', {
+    target_comment_id: commentId
+  });
+  
+  if (error) throw error;
+  
+  invalidateCommentsCount(postId);
+  
+  return data === 'removed' ? 'removed' : 'deleted';
+}
+
+// Get previous versions of a post, newest first
+export async function getPostRevisions(postId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('post_revisions')
+      .select('*')
+      .eq('post_id', postId)
+      .order('created_at', { ascending: false });
       
-      if (!postsData || postsData.length === 0) {
-        return [];
-      }
+    if (error) throw error;
+    
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching post revisions:', error);
+    return [];
+  }
+}
+
+export type MessageProfile = Pick<Tables<'profiles'>, 'id' | 'username' | 'full_name' | 'avatar_url'>;
+
+export interface ConversationParticipant {
+  user_id: string;
+  last_read_at: string | null;
+  profile: MessageProfile | null;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  is_group: boolean;
+  last_message_at: string | null;
+  last_message: { id: string; content: string; sender_id: string } | null;
+  unread_count: number;
+  participants: ConversationParticipant[];
+}
+
+export const MESSAGES_PAGE_SIZE = 50;
+
+// Load participants of the given conversations with their profiles, grouped by conversation
+async function getParticipantsByConversation(conversationIds: string[]) {
+  const byConversation = new Map<string, ConversationParticipant[]>();
+  if (conversationIds.length === 0) return byConversation;
+  
+  const { data, error } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id, user_id, last_read_at')
+    .in('conversation_id', conversationIds);
+    
+  if (error) throw error;
+  
+  // user_id references auth.users, so profiles are loaded in a single batch
+  const userIds = [...new Set((data || []).map(participant => participant.user_id))];
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, username, full_name, avatar_url')
+    .in('id', userIds);
+    
+  if (profilesError) throw profilesError;
+  
+  const profilesById = new Map((profiles || []).map(profile => [profile.id, profile]));
+  
+  for (const participant of data || []) {
+    const participants = byConversation.get(participant.conversation_id) || [];
+    participants.push({
+      user_id: participant.user_id,
+      last_read_at: participant.last_read_at,
+      profile: profilesById.get(participant.user_id) || null
+    });
+    byConversation.set(participant.conversation_id, participants);
+  }
+  
+  return byConversation;
+}
+
+// Inbox of the logged in user, most recent conversation first
+export async function getConversations(): Promise<ConversationSummary[]> {
+  const { data, error } = await supabase.rpc('conversation_summaries');
+  
+  if (error) throw error;
+  
+  const participants = await getParticipantsByConversation((data || []).map(summary => summary.id));
+  
+  return (data || []).map(summary => ({
+    id: summary.id,
+    title: summary.title,
+    is_group: summary.is_group,
+    last_message_at: summary.last_message_at,
+    last_message: summary.last_message_id
+      ? {
+          id: summary.last_message_id,
+          content: summary.last_message_content || '',
+          sender_id: summary.last_message_sender_id || ''
+        }
+      : null,
+    unread_count: summary.unread_count,
+    participants: participants.get(summary.id) || []
+  }));
+}
+
+// A single conversation with its participants; null when it does not exist or is not visible
+export async function getConversation(conversationId: string) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  if (!data) return null;
+  
+  const participants = await getParticipantsByConversation([conversationId]);
+  
+  return {
+    ...data,
+    participants: participants.get(conversationId) || []
+  };
+}
+
+// Messages of a conversation in chronological order; pass the oldest loaded date to page back
+export async function getMessages(conversationId: string, before?: string, limit = MESSAGES_PAGE_SIZE) {
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+    
+  if (before) {
+    query = query.lt('created_at', before);
+  }
+  
+  const { data, error } = await query;
+  
+  if (error) throw error;
+  
+  return (data || []).reverse();
+}
+
+export async function sendMessage(conversationId: string, senderId: string, content: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      sender_id: senderId,
+      content
+    })
+    .select()
+    .single();
+    
+  if (error) throw error;
+  
+  return data;
+}
 
-      // Fetch the user's profile
-      const { data: profile, error: profileError } = await supabase
+// Start (or reuse, for one-to-one) a conversation with the given users and return its id
+export async function startConversation(participantIds: string[], title?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('start_conversation', {
+    participant_ids: participantIds,
+    conversation_title: title || null
+  });
+  
+  if (error) throw error;
+  
+  return data;
+}
+
+// Move the user's read receipt to now
+export async function markConversationAsRead(conversationId: string, userId: string) {
+  const { error } = await supabase
+    .from('conversation_participants')
+    .update({ last_read_at: new Date().toISOString() })
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId);
+    
+  if (error) throw error;
+}
+
+// Whether the logged in user is allowed to message the target user
+export async function canMessageUser(targetUserId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('can_message', {
+      target_user_id: targetUserId
+    });
+    
+    if (error) throw error;
+    
+    return !!data;
+  } catch (error) {
+    console.error('Error checking message permission:', error);
+    return false;
+  }
+}
+
+// Count conversations with unread messages for the navigation badge
+export async function getUnreadConversationsCount(): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('unread_conversations_count');
+    
+    if (error) throw error;
+    
+    return data || 0;
+  } catch (error) {
+    console.error('Error counting unread conversations:', error);
+    return 0;
+  }
+}
+
+export type BlockKind = 'block' | 'mute';
+
+// Users hidden from the logged in user, split by why they are hidden
+export interface HiddenUsers {
+  blocked: string[];
+  muted: string[];
+  blockedBy: string[];
+}
+
+const EMPTY_HIDDEN_USERS: HiddenUsers = { blocked: [], muted: [], blockedBy: [] };
+
+// Cached per user since every feed page and comment list needs it
+const hiddenUsersCache = new Map<string, { value: HiddenUsers; expiry: number }>();
+const HIDDEN_USERS_CACHE_DURATION = 60 * 1000; // 1 minute
+
+export async function getHiddenUsers(userId?: string): Promise<HiddenUsers> {
+  if (!userId) return EMPTY_HIDDEN_USERS;
+  
+  const cached = hiddenUsersCache.get(userId);
+  if (cached && Date.now() < cached.expiry) {
+    return cached.value;
+  }
+  
+  try {
+    const { data, error } = await supabase.rpc('hidden_user_relations');
+    
+    if (error) throw error;
+    
+    const value: HiddenUsers = { blocked: [], muted: [], blockedBy: [] };
+    for (const row of data || []) {
+      if (row.relation === 'blocked') value.blocked.push(row.user_id);
+      else if (row.relation === 'muted') value.muted.push(row.user_id);
+      else if (row.relation === 'blocked_by') value.blockedBy.push(row.user_id);
+    }
+    
+    hiddenUsersCache.set(userId, { value, expiry: Date.now() + HIDDEN_USERS_CACHE_DURATION });
+    
+    return value;
+  } catch (error) {
+    console.error('Error fetching hidden users:', error);
+    return EMPTY_HIDDEN_USERS;
+  }
+}
+
+export function invalidateHiddenUsers(userId: string) {
+  hiddenUsersCache.delete(userId);
+}
+
+// Authors whose posts and comments should not be shown (blocked either way or muted)
+export function hiddenAuthorIds(hidden: HiddenUsers): string[] {
+  return [...new Set([...hidden.blocked, ...hidden.muted, ...hidden.blockedBy])];
+}
+
+// Users with a block in either direction: no follows, mentions, comments or DMs
+export function blockedUserIds(hidden: HiddenUsers): string[] {
+  return [...new Set([...hidden.blocked, ...hidden.blockedBy])];
+}
+
+export async function isBlockedBetween(userId: string, otherUserId: string): Promise<boolean> {
+  const hidden = await getHiddenUsers(userId);
+  return blockedUserIds(hidden).includes(otherUserId);
+}
+
+// Blocked and muted users of the logged in user with their profiles, newest first
+export async function getUserBlocks(userId: string) {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('*')
+    .eq('blocker_id', userId)
+    .order('created_at', { ascending: false });
+    
+  if (error) throw error;
+  
+  const blockedIds = (data || []).map(block => block.blocked_id);
+  const { data: profiles, error: profilesError } = blockedIds.length > 0
+    ? await supabase
         .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-        
-      if (profileError) throw profileError;
-      
-      // Count likes and comments for each post with fallbacks
-      const postIds = postsData.map(post => post.id);
-      
-      let likesCounts, commentsCounts;
-      
-      try {
-        // Get likes counts
-        likesCounts = await Promise.all(
-          postIds.map(id => getLikesCountForPost(id).catch(() => 0))
-        );
-        
-        // Get comments counts
-        commentsCounts = await Promise.all(
-          postIds.map(id => getCommentsCountForPost(id).catch(() => 0))
-        );
-      } catch (error) {
-        console.error('Error getting counts, using fallbacks:', error);
-        likesCounts = Array(postIds.length).fill(0);
-        commentsCounts = Array(postIds.length).fill(0); 
-      }
-      
-      // Combine everything
-      const enhancedPosts = postsData.map((post, index) => {
-        return {
-          ...post,
-          profiles: {
-            username: profile?.username || 'usuário',
-            avatar_url: profile?.avatar_url || null,
-            full_name: profile?.full_name || null
-          },
-          likes: likesCounts[index] || 0,
-          comments: commentsCounts[index] || 0,
-          has_liked: false // This will be set separately for logged-in users
-        };
-      });
-      
-      return enhancedPosts;
-    } catch (error: any) {
-      console.error(`Error fetching user posts (attempt ${2-retries}/2):`, error);
-      
-      if (retries > 0) {
-        console.log(`Retrying... (${retries} attempts left)`);
-        retries--;
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } else {
-        // On final retry failure, return empty array rather than throw
-        console.error('All retries failed, returning empty array');
-        return [];
-      }
+        .select('id, username, full_name, avatar_url')
+        .in('id', blockedIds)
+    : { data: [], error: null };
+    
+  if (profilesError) throw profilesError;
+  
+  const profilesById = new Map((profiles || []).map(profile => [profile.id, profile]));
+  
+  return (data || []).map(block => ({
+    ...block,
+    profile: profilesById.get(block.blocked_id) || null
+  }));
+}
+
+// Block or mute a user; blocking someone already muted upgrades the mute
+export async function setUserBlock(userId: string, targetUserId: string, kind: BlockKind) {
+  const { error } = await supabase
+    .from('user_blocks')
+    .upsert(
+      { blocker_id: userId, blocked_id: targetUserId, kind },
+      { onConflict: 'blocker_id,blocked_id' }
+    );
+    
+  if (error) throw error;
+  
+  invalidateHiddenUsers(userId);
+}
+
+// Remove a block or mute
+export async function removeUserBlock(userId: string, targetUserId: string) {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', targetUserId);
+    
+  if (error) throw error;
+  
+  invalidateHiddenUsers(userId);
+}
+
+export type ReportTargetType = 'post' | 'comment' | 'profile';
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate'
+  | 'violence'
+  | 'nudity'
+  | 'self_harm'
+  | 'misinformation'
+  | 'other';
+export type ModerationDecision = 'hide' | 'warn' | 'suspend' | 'dismiss';
+
+// Report a post, comment or profile; the reported user is resolved by the database
+export async function createReport(
+  reporterId: string,
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details?: string
+) {
+  const { error } = await supabase
+    .from('reports')
+    .insert({
+      reporter_id: reporterId,
+      target_type: targetType,
+      target_id: targetId,
+      reason,
+      details: details?.trim() || null
+    });
+    
+  if (error) throw error;
+}
+
+export async function isModerator(): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('is_moderator');
+    
+    if (error) throw error;
+    
+    return !!data;
+  } catch (error) {
+    console.error('Error checking moderator role:', error);
+    return false;
+  }
+}
+
+type ModerationProfile = Pick<Tables<'profiles'>, 'id' | 'username' | 'full_name' | 'avatar_url' | 'suspended_until'>;
+
+// Open reports grouped by target, with the reported content and the people involved
+export interface ReportGroup {
+  key: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  target_user: ModerationProfile | null;
+  post: Pick<Tables<'posts'>, 'id' | 'content' | 'images' | 'hidden_at'> | null;
+  comment: Pick<Tables<'comments'>, 'id' | 'content' | 'post_id' | 'hidden_at'> | null;
+  reports: (Tables<'reports'> & { reporter: ModerationProfile | null })[];
+}
+
+async function getModerationProfiles(userIds: string[]) {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  if (ids.length === 0) return new Map<string, ModerationProfile>();
+  
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, full_name, avatar_url, suspended_until')
+    .in('id', ids);
+    
+  if (error) throw error;
+  
+  return new Map((data || []).map(profile => [profile.id, profile]));
+}
+
+export async function getOpenReports(): Promise<ReportGroup[]> {
+  const { data: reports, error } = await supabase
+    .from('reports')
+    .select('*')
+    .eq('status', 'open')
+    .order('created_at', { ascending: true });
+    
+  if (error) throw error;
+  if (!reports || reports.length === 0) return [];
+  
+  const idsOf = (type: ReportTargetType) => [
+    ...new Set(reports.filter(report => report.target_type === type).map(report => report.target_id))
+  ];
+  const postIds = idsOf('post');
+  const commentIds = idsOf('comment');
+  
+  const [postsResult, commentsResult, profilesById] = await Promise.all([
+    postIds.length > 0
+      ? supabase.from('posts').select('id, content, images, hidden_at').in('id', postIds)
+      : Promise.resolve({ data: [], error: null }),
+    commentIds.length > 0
+      ? supabase.from('comments').select('id, content, post_id, hidden_at').in('id', commentIds)
+      : Promise.resolve({ data: [], error: null }),
+    getModerationProfiles(reports.flatMap(report => [report.reporter_id, report.target_user_id]))
+  ]);
+  
+  if (postsResult.error) throw postsResult.error;
+  if (commentsResult.error) throw commentsResult.error;
+  
+  const postsById = new Map((postsResult.data || []).map(post => [post.id, post]));
+  const commentsById = new Map((commentsResult.data || []).map(comment => [comment.id, comment]));
+  
+  // Oldest report first, so the queue is worked in arrival order
+  const groups = new Map<string, ReportGroup>();
+  for (const report of reports) {
+    const key = `${report.target_type}:${report.target_id}`;
+    let group = groups.get(key);
+    
+    if (!group) {
+      group = {
+        key,
+        target_type: report.target_type as ReportTargetType,
+        target_id: report.target_id,
+        target_user: profilesById.get(report.target_user_id || '') || null,
+        post: report.target_type === 'post' ? postsById.get(report.target_id) || null : null,
+        comment: report.target_type === 'comment' ? commentsById.get(report.target_id) || null : null,
+        reports: []
+      };
+      groups.set(key, group);
     }
+    
+    group.reports.push({ ...report, reporter: profilesById.get(report.reporter_id) || null });
   }
   
-  // This should never be reached due to the return in the final catch block
-  return [];
+  return [...groups.values()];
 }
 
-// Implementar a função getSavedPostsByUserId 
-export async function getSavedPostsByUserId(userId: string) {
-  let retries = 2;
+export async function resolveReport(
+  reportId: string,
+  decision: ModerationDecision,
+  note?: string,
+  suspensionDays?: number
+) {
+  const { error } = await supabase.rpc('resolve_report', {
+    target_report_id: reportId,
+    decision,
+    moderator_note: note || undefined,
+    suspension_days: suspensionDays
+  });
   
-  while (retries >= 0) {
-    try {
-      console.log('Profile: Starting to fetch saved posts for userId:', userId);
-      
-      // Fetch the saved post IDs for this user
-      const { data: savedPostsData, error: savedPostsError } = await supabase
-        .from('saved_posts')
-        .select('post_id')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (savedPostsError) throw savedPostsError;
-      
-      if (!savedPostsData || savedPostsData.length === 0) {
-        return [];
-      }
+  if (error) throw error;
+}
 
-      // Extract post IDs
-      const postIds = savedPostsData.map(item => item.post_id);
-      
-      // Fetch the actual posts
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('*, user_id')
-        .in('id', postIds);
+export type ModerationAction = Tables<'moderation_actions'> & {
+  moderator: ModerationProfile | null;
+  target_user: ModerationProfile | null;
+};
 
-      if (postsError) throw postsError;
-      
-      if (!postsData || postsData.length === 0) {
-        return [];
-      }
+// Audit trail of moderator decisions, newest first
+export async function getModerationActions(limit = 50): Promise<ModerationAction[]> {
+  const { data, error } = await supabase
+    .from('moderation_actions')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+    
+  if (error) throw error;
+  
+  const profilesById = await getModerationProfiles(
+    (data || []).flatMap(action => [action.moderator_id || '', action.target_user_id || ''])
+  );
+  
+  return (data || []).map(action => ({
+    ...action,
+    moderator: profilesById.get(action.moderator_id || '') || null,
+    target_user: profilesById.get(action.target_user_id || '') || null
+  }));
+}
+
+export type FollowStatus = 'following' | 'requested' | 'none';
+
+// Relationship of the logged in user with another account, and whether that account is private
+export async function getFollowStatus(
+  userId: string,
+  targetUserId: string
+): Promise<{ status: FollowStatus; isPrivate: boolean }> {
+  const [followResult, requestResult, profileResult] = await Promise.all([
+    supabase
+      .from('follows')
+      .select('id')
+      .eq('follower_id', userId)
+      .eq('following_id', targetUserId)
+      .maybeSingle(),
+    supabase
+      .from('follow_requests')
+      .select('id')
+      .eq('requester_id', userId)
+      .eq('target_id', targetUserId)
+      .maybeSingle(),
+    supabase
+      .from('profiles')
+      .select('is_public')
+      .eq('id', targetUserId)
+      .maybeSingle()
+  ]);
+  
+  if (followResult.error) throw followResult.error;
+  if (requestResult.error) throw requestResult.error;
+  if (profileResult.error) throw profileResult.error;
+  
+  return {
+    status: followResult.data ? 'following' : requestResult.data ? 'requested' : 'none',
+    isPrivate: profileResult.data?.is_public === false
+  };
+}
 
-      // Fetch all profiles for the user IDs in one batch
-      const userIds = [...new Set(postsData.map(post => post.user_id))];
-      const { data: profilesData, error: profilesError } = await supabase
+export async function requestFollow(userId: string, targetUserId: string) {
+  const { error } = await supabase
+    .from('follow_requests')
+    .insert({ requester_id: userId, target_id: targetUserId });
+    
+  if (error) throw error;
+}
+
+export async function cancelFollowRequest(userId: string, targetUserId: string) {
+  const { error } = await supabase
+    .from('follow_requests')
+    .delete()
+    .eq('requester_id', userId)
+    .eq('target_id', targetUserId);
+    
+  if (error) throw error;
+}
+
+// Pending requests to follow the logged in user, newest first
+export async function getIncomingFollowRequests(userId: string) {
+  const { data, error } = await supabase
+    .from('follow_requests')
+    .select('*')
+    .eq('target_id', userId)
+    .order('created_at', { ascending: false });
+    
+  if (error) throw error;
+  
+  const requesterIds = (data || []).map(request => request.requester_id);
+  const { data: profiles, error: profilesError } = requesterIds.length > 0
+    ? await supabase
         .from('profiles')
-        .select('id, username, avatar_url, full_name')
-        .in('id', userIds);
-        
-      if (profilesError) throw profilesError;
-      
-      // Create a map of user_id to profile data
-      const profilesMap: Record<string, any> = {};
-      if (profilesData) {
-        profilesData.forEach(profile => {
-          profilesMap[profile.id] = profile;
-        });
-      }
-
-      // Get likes and comments counts with fallbacks
-      let likesCounts, commentsCounts;
-      
-      try {
-        [likesCounts, commentsCounts] = await Promise.all([
-          Promise.all(postIds.map(id => getLikesCountForPost(id).catch(() => 0))),
-          Promise.all(postIds.map(id => getCommentsCountForPost(id).catch(() => 0)))
-        ]);
-      } catch (error) {
-        console.error('Error getting counts, using fallbacks:', error);
-        likesCounts = Array(postIds.length).fill(0);
-        commentsCounts = Array(postIds.length).fill(0);
-      }
-      
-      // Combine everything
-      const enhancedPosts = postsData.map(post => {
-        const postIndex = postIds.indexOf(post.id);
-        const profile = profilesMap[post.user_id] || {};
-        
-        return {
-          ...post,
-          profiles: {
-            username: profile?.username || 'usuário',
-            avatar_url: profile?.avatar_url || null,
-            full_name: profile?.full_name || null
-          },
-          likes: postIndex >= 0 ? likesCounts[postIndex] || 0 : 0,
-          comments: postIndex >= 0 ? commentsCounts[postIndex] || 0 : 0,
-          has_liked: false // This will be set separately for logged-in users
-        };
-      });
-      
-      return enhancedPosts;
-    } catch (error: any) {
-      console.error(`Error fetching saved posts (attempt ${2-retries}/2):`, error);
+        .select('id, username, full_name, avatar_url')
+        .in('id', requesterIds)
+    : { data: [], error: null };
+    
+  if (profilesError) throw profilesError;
+  
+  const profilesById = new Map((profiles || []).map(profile => [profile.id, profile]));
+  
+  return (data || []).map(request => ({
+    ...request,
+    requester: profilesById.get(request.requester_id) || null
+  }));
+}
+
+export async function approveFollowRequest(requestId: string) {
+  const { error } = await supabase.rpc('approve_follow_request', { target_request_id: requestId });
+  
+  if (error) throw error;
+}
+
+export async function denyFollowRequest(requestId: string) {
+  const { error } = await supabase
+    .from('follow_requests')
+    .delete()
+    .eq('id', requestId);
+    
+  if (error) throw error;
+}
+
+// Close friends list of the logged in user with their profiles, newest first
+export async function getCloseFriends(userId: string) {
+  const { data, error } = await supabase
+    .from('close_friends')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+    
+  if (error) throw error;
+  
+  const friendIds = (data || []).map(friend => friend.friend_id);
+  const { data: profiles, error: profilesError } = friendIds.length > 0
+    ? await supabase
+        .from('profiles')
+        .select('id, username, full_name, avatar_url')
+        .in('id', friendIds)
+    : { data: [], error: null };
+    
+  if (profilesError) throw profilesError;
+  
+  const profilesById = new Map((profiles || []).map(profile => [profile.id, profile]));
+  
+  return (data || []).map(friend => ({
+    ...friend,
+    profile: profilesById.get(friend.friend_id) || null
+  }));
+}
+
+export async function addCloseFriend(userId: string, friendId: string) {
+  const { error } = await supabase
+    .from('close_friends')
+    .upsert(
+      { user_id: userId, friend_id: friendId },
+      { onConflict: 'user_id,friend_id', ignoreDuplicates: true }
+    );
+    
+  if (error) throw error;
+}
+
+export async function removeCloseFriend(userId: string, friendId: string) {
+  const { error } = await supabase
+    .from('close_friends')
+    .delete()
+    .eq('user_id', userId)
+    .eq('friend_id', friendId);
+    
+  if (error) throw error;
+}
+
+// Reposts and quotes are posts with repost_of_id set; a plain repost has no content of its own
+export function isPlainRepost(post: Pick<Tables<'posts'>, 'repost_of_id' | 'content'>): boolean {
+  return !!post.repost_of_id && post.content === '';
+}
+
+// Reposts and quotes of each post, in a single request; posts never reposted are missing
+// from the map
+export async function getRepostsCounts(postIds: string[]): Promise<Map<string, number>> {
+  if (postIds.length === 0) return new Map();
+  
+  try {
+    const { data, error } = await supabase.rpc('repost_counts', { target_post_ids: postIds });
+    
+    if (error) throw error;
+    
+    return new Map((data || []).map(row => [row.post_id, Number(row.repost_count)]));
+  } catch (error) {
+    console.error('Error fetching repost counts:', error);
+    return new Map();
+  }
+}
+
+// Which posts of a list the user has reposted (quotes don't count)
+export async function getUserRepostedPostIds(userId: string | undefined, postIds: string[]): Promise<string[]> {
+  if (!userId || postIds.length === 0) return [];
+  
+  const { data, error } = await supabase
+    .from('posts')
+    .select('repost_of_id')
+    .eq('user_id', userId)
+    .eq('content', '')
+    .in('repost_of_id', postIds);
+    
+  if (error) {
+    console.error('Error fetching reposts:', error);
+    return [];
+  }
+  
+  return (data || []).map(post => post.repost_of_id as string);
+}
+
+// Repost a post, or quote it when there is commentary; returns the new post
+export async function createRepost(userId: string, postId: string, content = '', audience = 'public') {
+  const { data, error } = await supabase
+    .from('posts')
+    .insert({
+      user_id: userId,
+      repost_of_id: postId,
+      content: content.trim(),
+      audience
+    })
+    .select()
+    .single();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+export async function undoRepost(userId: string, postId: string) {
+  const { error } = await supabase
+    .from('posts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('repost_of_id', postId)
+    .eq('content', '');
+    
+  if (error) throw error;
+}
+
+export type Collection = Tables<'collections'> & {
+  item_count: number;
+};
+
+// Collections of a user with how many posts each holds, newest first
+export async function getCollections(userId: string): Promise<Collection[]> {
+  const [collectionsResult, itemsResult] = await Promise.all([
+    supabase
+      .from('collections')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('saved_posts')
+      .select('collection_id')
+      .eq('user_id', userId)
+      .not('collection_id', 'is', null)
+  ]);
+  
+  if (collectionsResult.error) throw collectionsResult.error;
+  if (itemsResult.error) throw itemsResult.error;
+  
+  const counts = (itemsResult.data || []).reduce<Record<string, number>>((acc, item) => {
+    acc[item.collection_id!] = (acc[item.collection_id!] || 0) + 1;
+    return acc;
+  }, {});
+  
+  return (collectionsResult.data || []).map(collection => ({
+    ...collection,
+    item_count: counts[collection.id] || 0
+  }));
+}
+
+// A collection with its owner's profile; null when it doesn't exist or isn't shared with the caller
+export async function getCollectionById(collectionId: string) {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*')
+    .eq('id', collectionId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  if (!data) return null;
+  
+  const { data: owner, error: ownerError } = await supabase
+    .from('profiles')
+    .select('id, username, full_name, avatar_url')
+    .eq('id', data.user_id)
+    .maybeSingle();
+    
+  if (ownerError) throw ownerError;
+  
+  return { ...data, owner };
+}
+
+export async function createCollection(
+  userId: string,
+  collection: Pick<Tables<'collections'>, 'name' | 'description' | 'is_shared'>
+) {
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({ ...collection, user_id: userId })
+    .select()
+    .single();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+export async function updateCollection(
+  collectionId: string,
+  changes: Pick<TablesUpdate<'collections'>, 'name' | 'description' | 'is_shared'>
+) {
+  const { data, error } = await supabase
+    .from('collections')
+    .update(changes)
+    .eq('id', collectionId)
+    .select()
+    .single();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+// Posts in a deleted collection stay saved, without a collection
+export async function deleteCollection(collectionId: string) {
+  const { error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collectionId);
+    
+  if (error) throw error;
+}
+
+export async function getSavedPost(userId: string, postId: string): Promise<Tables<'saved_posts'> | null> {
+  const { data, error } = await supabase
+    .from('saved_posts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('post_id', postId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+// Save a post, or move an already saved post and update its note
+export async function savePost(userId: string, postId: string, collectionId: string | null, note: string | null) {
+  const { error } = await supabase
+    .from('saved_posts')
+    .upsert(
+      { user_id: userId, post_id: postId, collection_id: collectionId, note: note?.trim() || null },
+      { onConflict: 'user_id,post_id' }
+    );
+    
+  if (error) throw error;
+}
+
+export async function unsavePost(userId: string, postId: string) {
+  const { error } = await supabase
+    .from('saved_posts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+    
+  if (error) throw error;
+}
+
+export interface PollOption {
+  id: string;
+  label: string;
+  // null while the results are hidden from the caller
+  votes: number | null;
+}
+
+export interface Poll {
+  id: string;
+  post_id: string;
+  user_id: string;
+  allows_multiple: boolean;
+  closes_at: string;
+  is_closed: boolean;
+  options: PollOption[];
+  voter_count: number | null;
+  // Options the logged in user voted for; empty when they haven't voted
+  my_votes: string[];
+}
+
+// Which posts of a list have a poll attached
+export async function getPostIdsWithPolls(postIds: string[]): Promise<string[]> {
+  if (postIds.length === 0) return [];
+  
+  const { data, error } = await supabase
+    .from('polls')
+    .select('post_id')
+    .in('post_id', postIds);
+    
+  if (error) {
+    console.error('Error fetching polls:', error);
+    return [];
+  }
+  
+  return (data || []).map(poll => poll.post_id);
+}
+
+// A post's poll with its options, the caller's votes and the counts they are allowed to see
+export async function getPollByPostId(postId: string, userId?: string): Promise<Poll | null> {
+  const { data: poll, error } = await supabase
+    .from('polls')
+    .select('*')
+    .eq('post_id', postId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  if (!poll) return null;
+  
+  const [optionsResult, resultsResult, votesResult] = await Promise.all([
+    supabase
+      .from('poll_options')
+      .select('id, label, position')
+      .eq('poll_id', poll.id)
+      .order('position'),
+    supabase.rpc('poll_results', { target_poll_id: poll.id }),
+    userId
+      ? supabase
+          .from('poll_votes')
+          .select('option_id')
+          .eq('poll_id', poll.id)
+          .eq('user_id', userId)
+      : Promise.resolve({ data: [] as { option_id: string }[], error: null })
+  ]);
+  
+  if (optionsResult.error) throw optionsResult.error;
+  if (resultsResult.error) throw resultsResult.error;
+  if (votesResult.error) throw votesResult.error;
+  
+  const results = resultsResult.data || [];
+  const votesByOption = new Map(results.map(result => [result.option_id, Number(result.vote_count)]));
+  
+  return {
+    id: poll.id,
+    post_id: poll.post_id,
+    user_id: poll.user_id,
+    allows_multiple: poll.allows_multiple,
+    closes_at: poll.closes_at,
+    is_closed: new Date(poll.closes_at) <= new Date(),
+    options: (optionsResult.data || []).map(option => ({
+      id: option.id,
+      label: option.label,
+      votes: results.length > 0 ? votesByOption.get(option.id) ?? 0 : null
+    })),
+    voter_count: results.length > 0 ? Number(results[0].voter_count) : null,
+    my_votes: (votesResult.data || []).map(vote => vote.option_id)
+  };
+}
+
+export async function createPoll(postId: string, options: string[], closesAt: Date, allowsMultiple: boolean) {
+  const { data, error } = await supabase.rpc('create_poll', {
+    target_post_id: postId,
+    option_labels: options,
+    poll_closes_at: closesAt.toISOString(),
+    poll_allows_multiple: allowsMultiple
+  });
+  
+  if (error) throw error;
+  
+  return data;
+}
+
+export async function votePoll(pollId: string, optionIds: string[]) {
+  const { error } = await supabase.rpc('cast_poll_vote', {
+    target_poll_id: pollId,
+    option_ids: optionIds
+  });
+  
+  if (error) throw error;
+}
+
+export type PostDraft = Tables<'post_drafts'>;
+
+export type PostDraftValues = Pick<
+  TablesInsert<'post_drafts'>,
+  'content' | 'images' | 'media' | 'tags' | 'audience' | 'poll' | 'scheduled_at'
+>;
+
+// Drafts and scheduled posts of a user: scheduled ones first by publishing time, then drafts by last edit
+export async function getPostDrafts(userId: string): Promise<PostDraft[]> {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('scheduled_at', { ascending: true, nullsFirst: false })
+    .order('updated_at', { ascending: false });
+    
+  if (error) throw error;
+  
+  return data || [];
+}
+
+export async function getPostDraft(draftId: string): Promise<PostDraft | null> {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .select('*')
+    .eq('id', draftId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  return data;
+}
+
+// Create the draft when there is no id yet, otherwise update it. A missing row usually means
+// the scheduled post was published (or the draft deleted) in the meantime.
+export async function savePostDraft(userId: string, draftId: string | null, values: PostDraftValues): Promise<PostDraft> {
+  if (!draftId) {
+    const { data, error } = await supabase
+      .from('post_drafts')
+      .insert({ ...values, user_id: userId })
+      .select()
+      .single();
       
-      if (retries > 0) {
-        console.log(`Retrying... (${retries} attempts left)`);
-        retries--;
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } else {
-        // On final retry failure, return empty array rather than throw
-        console.error('All retries failed, returning empty array');
-        return [];
-      }
-    }
+    if (error) throw error;
+    
+    return data;
+  }
+  
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .update(values)
+    .eq('id', draftId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  if (!data) {
+    throw new Error('Rascunho não encontrado. Ele pode já ter sido publicado ou excluído');
   }
   
-  // This should never be reached due to the return in the final catch block
-  return [];
+  return data;
+}
+
+// Turn a scheduled post back into a plain draft
+export async function unschedulePostDraft(draftId: string) {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .update({ scheduled_at: null })
+    .eq('id', draftId)
+    .select('id')
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  if (!data) {
+    throw new Error('Agendamento não encontrado. A publicação pode já ter sido feita');
+  }
+}
+
+// Remove a draft and, unless its media moved on to a published post, the files it uploaded
+export async function deletePostDraft(draftId: string, keepMedia = false) {
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .delete()
+    .eq('id', draftId)
+    .select('images, media')
+    .maybeSingle();
+    
+  if (error) throw error;
+  
+  if (data && !keepMedia) {
+    await removeStorageFiles('posts', [...data.images, ...getPosterUrls(data.media)]);
+  }
 }
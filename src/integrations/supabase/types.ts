@@ -9,6 +9,54 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      close_friends: {
+        Row: {
+          created_at: string | null
+          friend_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          friend_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          friend_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      collections: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          is_shared: boolean
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_shared?: boolean
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_shared?: boolean
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       comment_likes: {
         Row: {
           comment_id: string
@@ -42,6 +90,10 @@ export type Database = {
         Row: {
           content: string
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
           parent_id: string | null
           post_id: string
@@ -51,6 +103,10 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           parent_id?: string | null
           post_id: string
@@ -60,6 +116,10 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           parent_id?: string | null
           post_id?: string
@@ -83,6 +143,83 @@ export type Database = {
           },
         ]
       }
+      conversation_participants: {
+        Row: {
+          conversation_id: string
+          joined_at: string | null
+          last_read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string | null
+          last_read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string | null
+          last_read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_group: boolean
+          last_message_at: string | null
+          title: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_group?: boolean
+          last_message_at?: string | null
+          title?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_group?: boolean
+          last_message_at?: string | null
+          title?: string | null
+        }
+        Relationships: []
+      }
+      follow_requests: {
+        Row: {
+          created_at: string | null
+          id: string
+          requester_id: string
+          target_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          requester_id: string
+          target_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          requester_id?: string
+          target_id?: string
+        }
+        Relationships: []
+      }
       follows: {
         Row: {
           created_at: string | null
@@ -133,6 +270,133 @@ export type Database = {
           },
         ]
       }
+      messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string | null
+          id: string
+          sender_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          sender_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_actions: {
+        Row: {
+          action: string
+          created_at: string | null
+          id: string
+          moderator_id: string | null
+          note: string | null
+          report_id: string | null
+          suspended_until: string | null
+          target_id: string
+          target_type: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_id?: string | null
+          suspended_until?: string | null
+          target_id: string
+          target_type: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          report_id?: string | null
+          suspended_until?: string | null
+          target_id?: string
+          target_type?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderators: {
+        Row: {
+          created_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          muted_actor_ids: string[]
+          muted_post_ids: string[]
+          muted_types: string[]
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          muted_actor_ids?: string[]
+          muted_post_ids?: string[]
+          muted_types?: string[]
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          muted_actor_ids?: string[]
+          muted_post_ids?: string[]
+          muted_types?: string[]
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           actor_id: string | null
@@ -181,39 +445,265 @@ export type Database = {
           },
         ]
       }
+      poll_options: {
+        Row: {
+          id: string
+          label: string
+          poll_id: string
+          position: number
+        }
+        Insert: {
+          id?: string
+          label: string
+          poll_id: string
+          position: number
+        }
+        Update: {
+          id?: string
+          label?: string
+          poll_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_voters: {
+        Row: {
+          created_at: string | null
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_voters_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          option_id?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          allows_multiple: boolean
+          closed_notified_at: string | null
+          closes_at: string
+          created_at: string | null
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          allows_multiple?: boolean
+          closed_notified_at?: string | null
+          closes_at: string
+          created_at?: string | null
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          allows_multiple?: boolean
+          closed_notified_at?: string | null
+          closes_at?: string
+          created_at?: string | null
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_drafts: {
+        Row: {
+          audience: string
+          content: string
+          created_at: string | null
+          id: string
+          images: string[]
+          media: Json
+          poll: Json | null
+          publish_error: string | null
+          scheduled_at: string | null
+          tags: string[] | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          audience?: string
+          content?: string
+          created_at?: string | null
+          id?: string
+          images?: string[]
+          media?: Json
+          poll?: Json | null
+          publish_error?: string | null
+          scheduled_at?: string | null
+          tags?: string[] | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          audience?: string
+          content?: string
+          created_at?: string | null
+          id?: string
+          images?: string[]
+          media?: Json
+          poll?: Json | null
+          publish_error?: string | null
+          scheduled_at?: string | null
+          tags?: string[] | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       posts: {
         Row: {
+          audience: string
           content: string
           created_at: string | null
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
           images: string[] | null
           is_public: boolean | null
+          media: Json
+          repost_of_id: string | null
           tags: string[] | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          audience?: string
           content: string
           created_at?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           images?: string[] | null
           is_public?: boolean | null
+          media?: Json
+          repost_of_id?: string | null
           tags?: string[] | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          audience?: string
           content?: string
           created_at?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           images?: string[] | null
           is_public?: boolean | null
+          media?: Json
+          repost_of_id?: string | null
           tags?: string[] | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      post_revisions: {
+        Row: {
+          audience: string | null
+          content: string
+          created_at: string | null
+          edited_at: string | null
+          id: string
+          images: string[] | null
+          is_public: boolean | null
+          post_id: string
+          tags: string[] | null
+          user_id: string
+        }
+        Insert: {
+          audience?: string | null
+          content: string
+          created_at?: string | null
+          edited_at?: string | null
+          id?: string
+          images?: string[] | null
+          is_public?: boolean | null
+          post_id: string
+          tags?: string[] | null
+          user_id: string
+        }
+        Update: {
+          audience?: string | null
+          content?: string
+          created_at?: string | null
+          edited_at?: string | null
+          id?: string
+          images?: string[] | null
+          is_public?: boolean | null
+          post_id?: string
+          tags?: string[] | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -225,6 +715,8 @@ export type Database = {
           industry: string | null
           is_public: boolean | null
           linkedin_url: string | null
+          messages_mutuals_only: boolean
+          suspended_until: string | null
           updated_at: string | null
           username: string
           website_url: string | null
@@ -239,6 +731,8 @@ export type Database = {
           industry?: string | null
           is_public?: boolean | null
           linkedin_url?: string | null
+          messages_mutuals_only?: boolean
+          suspended_until?: string | null
           updated_at?: string | null
           username: string
           website_url?: string | null
@@ -253,32 +747,92 @@ export type Database = {
           industry?: string | null
           is_public?: boolean | null
           linkedin_url?: string | null
+          messages_mutuals_only?: boolean
+          suspended_until?: string | null
           updated_at?: string | null
           username?: string
           website_url?: string | null
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          created_at: string | null
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+          target_user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+          target_user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
       saved_posts: {
         Row: {
+          collection_id: string | null
           created_at: string | null
           id: string
+          note: string | null
           post_id: string
           user_id: string
         }
         Insert: {
+          collection_id?: string | null
           created_at?: string | null
           id?: string
+          note?: string | null
           post_id: string
           user_id: string
         }
         Update: {
+          collection_id?: string | null
           created_at?: string | null
           id?: string
+          note?: string | null
           post_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "saved_posts_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "saved_posts_post_id_fkey"
             columns: ["post_id"]
@@ -288,11 +842,87 @@ export type Database = {
           },
         ]
       }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string | null
+          id: string
+          kind: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string | null
+          id?: string
+          kind?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string | null
+          id?: string
+          kind?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      approve_follow_request: {
+        Args: {
+          target_request_id: string
+        }
+        Returns: undefined
+      }
+      build_post_media: {
+        Args: {
+          media: Json
+          urls: string[]
+        }
+        Returns: Json
+      }
+      can_message: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: boolean
+      }
+      can_view_post: {
+        Args: {
+          author_id: string
+          post_audience: string
+        }
+        Returns: boolean
+      }
+      can_view_profile_content: {
+        Args: {
+          owner_id: string
+        }
+        Returns: boolean
+      }
+      cast_poll_vote: {
+        Args: {
+          target_poll_id: string
+          option_ids: string[]
+        }
+        Returns: undefined
+      }
+      conversation_summaries: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          title: string | null
+          is_group: boolean
+          last_message_at: string | null
+          last_message_id: string | null
+          last_message_content: string | null
+          last_message_sender_id: string | null
+          unread_count: number
+        }[]
+      }
       create_comment_likes_if_not_exists: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -301,6 +931,156 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      create_poll: {
+        Args: {
+          target_post_id: string
+          option_labels: string[]
+          poll_closes_at: string
+          poll_allows_multiple?: boolean
+        }
+        Returns: string
+      }
+      delete_comment: {
+        Args: {
+          target_comment_id: string
+        }
+        Returns: string
+      }
+      following_feed_posts: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["posts"]["Row"][]
+      }
+      hidden_user_relations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          relation: string
+        }[]
+      }
+      is_blocked_between: {
+        Args: {
+          first_user_id: string
+          second_user_id: string
+        }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: {
+          target_conversation_id: string
+        }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      max_video_duration: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      notification_delivery: {
+        Args: {
+          recipient_id: string
+          notification_type: string
+          notification_actor_id?: string
+          notification_post_id?: string
+        }
+        Returns: string
+      }
+      notify_closed_polls: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      poll_results: {
+        Args: {
+          target_poll_id: string
+        }
+        Returns: {
+          option_id: string
+          vote_count: number
+          voter_count: number
+        }[]
+      }
+      profile_stats: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: {
+          post_count: number
+          follower_count: number
+          following_count: number
+          can_view_content: boolean
+        }[]
+      }
+      publish_scheduled_posts: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      repost_counts: {
+        Args: {
+          target_post_ids: string[]
+        }
+        Returns: {
+          post_id: string
+          repost_count: number
+        }[]
+      }
+      resolve_report: {
+        Args: {
+          target_report_id: string
+          decision: string
+          moderator_note?: string
+          suspension_days?: number
+        }
+        Returns: undefined
+      }
+      restricted_post_audience: {
+        Args: {
+          target_post_id: string
+        }
+        Returns: string | null
+      }
+      search_posts: {
+        Args: {
+          search_query?: string
+          filter_tags?: string[]
+          filter_author_id?: string
+          date_from?: string
+          date_to?: string
+          has_media?: boolean
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          id: string
+          rank: number
+          highlighted_content: string
+        }[]
+      }
+      start_conversation: {
+        Args: {
+          participant_ids: string[]
+          conversation_title?: string | null
+        }
+        Returns: string
+      }
+      trending_tags: {
+        Args: {
+          window_hours?: number
+          result_limit?: number
+        }
+        Returns: {
+          tag: string
+          recent_count: number
+          previous_count: number
+          velocity: number
+          score: number
+        }[]
+      }
+      unread_conversations_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
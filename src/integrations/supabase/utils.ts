@@ -1,5 +1,15 @@
 
 import { supabase } from './client';
+import type { Tables } from './types';
+import {
+  getHiddenUsers,
+  hiddenAuthorIds,
+  blockedUserIds,
+  isPlainRepost,
+  getRepostsCounts,
+  getUserRepostedPostIds,
+  getPostIdsWithPolls
+} from './functions';
 
 // Helpers otimizados para buscar dados e gerenciar o cache
 
@@ -85,7 +95,8 @@ export async function getCommentsCountForPost(postId: string): Promise<number> {
     const { count, error } = await supabase
       .from('comments')
       .select('*', { count: 'exact', head: true })
-      .eq('post_id', postId);
+      .eq('post_id', postId)
+      .is('deleted_at', null);
       
     if (error) throw error;
     
@@ -96,301 +107,444 @@ export async function getCommentsCountForPost(postId: string): Promise<number> {
   }
 }
 
-// Função para obter posts com dados de perfil
-export async function getPostsWithProfiles(limit = 20, page = 0) {
-  try {
-    console.log('Iniciando busca de posts com perfis');
-    
-    // Definir um timeout para evitar que a requisição fique pendente indefinidamente
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000);
-    
-    // Buscar posts com paginação
-    const { data: posts, error: postsError } = await supabase
-      .from('posts')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .range(page * limit, (page + 1) * limit - 1);
-      
-    clearTimeout(timeoutId);
-    
-    if (postsError) throw postsError;
-    
-    if (!posts || posts.length === 0) {
-      return [];
-    }
-    
-    console.log(`Encontrados ${posts.length} posts`);
-    
-    // Obter IDs de usuários únicos dos posts
-    const userIds = [...new Set(posts.map(post => post.user_id))];
-    
-    // Buscar perfis dos usuários
-    const { data: profiles, error: profilesError } = await supabase
-      .from('profiles')
-      .select('id, username, avatar_url, full_name')
-      .in('id', userIds);
-      
-    if (profilesError) throw profilesError;
-    
-    // Criar um mapa para busca rápida
-    const profilesMap = (profiles || []).reduce((acc, profile) => {
-      acc[profile.id] = profile;
-      return acc;
-    }, {} as Record<string, any>);
+// Tamanho padrão das páginas de posts
+export const POSTS_PAGE_SIZE = 20;
+
+// Cursor de paginação por chave (created_at, id) do último item de uma página
+export interface PostsCursor {
+  created_at: string;
+  id: string;
+}
+
+// Origens possíveis de uma lista paginada de posts
+export type PostsScope =
+  | { type: 'global' }
+  | { type: 'following'; userId: string }
+  | { type: 'user'; userId: string }
+  | { type: 'saved'; userId: string }
+  | { type: 'collection'; collectionId: string }
+  | { type: 'tag'; tag: string };
+
+export type PostWithProfile = Tables<'posts'> & {
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+    full_name: string | null;
+  };
+  likes: number;
+  comments: number;
+  reposts: number;
+  has_liked: boolean;
+  has_reposted: boolean;
+  has_poll: boolean;
+  // Publicação repostada ou citada; null quando foi excluída ou não é visível para o visitante
+  repost_of?: PostWithProfile | null;
+  // Nota de quem salvou, nas listas de salvos e coleções
+  saved_note?: string | null;
+};
+
+export interface PostsPage {
+  posts: PostWithProfile[];
+  nextCursor: PostsCursor | null;
+}
+
+// Filtro PostgREST para itens estritamente anteriores ao cursor na ordem (created_at desc, id desc)
+function cursorFilter(cursor: PostsCursor) {
+  return `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`;
+}
+
+// Adicionar perfis e contagens de curtidas/comentários a uma lista de posts
+async function enhancePostsWithProfiles(
+  posts: Tables<'posts'>[],
+  viewerId?: string,
+  withReposted = true
+): Promise<PostWithProfile[]> {
+  // Obter IDs de usuários únicos dos posts
+  const userIds = [...new Set(posts.map(post => post.user_id))];
+  const postIds = posts.map(post => post.id);
+  
+  // Buscar perfis dos usuários
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, username, avatar_url, full_name')
+    .in('id', userIds);
     
-    // Buscar contagem de curtidas e comentários em paralelo
-    const postIds = posts.map(post => post.id);
-    const [likesCounts, commentsCounts] = await Promise.all([
-      Promise.all(postIds.map(id => getLikesCountForPost(id))),
-      Promise.all(postIds.map(id => getCommentsCountForPost(id)))
-    ]);
+  if (profilesError) throw profilesError;
+  
+  // Criar um mapa para busca rápida
+  const profilesMap = (profiles || []).reduce((acc, profile) => {
+    acc[profile.id] = profile;
+    return acc;
+  }, {} as Record<string, Pick<Tables<'profiles'>, 'id' | 'username' | 'avatar_url' | 'full_name'>>);
+  
+  // Buscar contagens, curtidas e reposts do visitante, enquetes e as publicações repostadas em paralelo
+  const [likesCounts, commentsCounts, repostsCounts, likedPostIds, repostedPostIds, pollPostIds, repostedPosts] = await Promise.all([
+    Promise.all(postIds.map(id => getLikesCountForPost(id))),
+    Promise.all(postIds.map(id => getCommentsCountForPost(id))),
+    getRepostsCounts(postIds),
+    getUserLikedPostIdsIn(viewerId, postIds),
+    getUserRepostedPostIds(viewerId, postIds),
+    getPostIdsWithPolls(postIds),
+    withReposted ? getRepostedPosts(posts, viewerId) : new Map<string, PostWithProfile>()
+  ]);
+  
+  // Combinar todos os dados
+  const enhanced = posts.map((post, index) => {
+    const profile = profilesMap[post.user_id] || {
+      username: 'usuário',
+      avatar_url: null,
+      full_name: null
+    };
+    
+    return {
+      ...post,
+      profiles: {
+        username: profile.username,
+        avatar_url: profile.avatar_url,
+        full_name: profile.full_name
+      },
+      likes: likesCounts[index] || 0,
+      comments: commentsCounts[index] || 0,
+      reposts: repostsCounts.get(post.id) || 0,
+      has_liked: likedPostIds.includes(post.id),
+      has_reposted: repostedPostIds.includes(post.id),
+      has_poll: pollPostIds.includes(post.id),
+      repost_of: post.repost_of_id ? repostedPosts.get(post.repost_of_id) || null : undefined
+    };
+  });
+  
+  // Um repost sem comentário não tem o que mostrar quando a original some ou fica restrita
+  return withReposted ? enhanced.filter(post => !isPlainRepost(post) || !!post.repost_of) : enhanced;
+}
+
+// Reposts de autores bloqueados ou silenciados somem; citações deles mostram a original como indisponível
+function hideRepostsOf<T extends PostWithProfile>(posts: T[], hiddenIds: string[]): T[] {
+  return posts
+    .filter(post => !isPlainRepost(post) || !hiddenIds.includes(post.repost_of!.user_id))
+    .map(post => (post.repost_of && hiddenIds.includes(post.repost_of.user_id) ? { ...post, repost_of: null } : post))
+    .map(post => (
+      // A citação repostada também esconde o que cita
+      post.repost_of?.repost_of && hiddenIds.includes(post.repost_of.repost_of.user_id)
+        ? { ...post, repost_of: { ...post.repost_of, repost_of: null } }
+        : post
+    ));
+}
+
+// Publicações originais de reposts e citações que o visitante pode ver. Uma original que é
+// citação vem com a publicação que ela cita, para o repost de uma citação não perder o contexto;
+// um nível basta, já que reposts sempre apontam para a original
+async function getRepostedPosts(
+  posts: Tables<'posts'>[],
+  viewerId?: string,
+  withQuoted = true
+): Promise<Map<string, PostWithProfile>> {
+  const originalIds = [...new Set(posts.map(post => post.repost_of_id).filter((id): id is string => !!id))];
+  
+  if (originalIds.length === 0) return new Map();
+  
+  const { data, error } = await supabase
+    .from('posts')
+    .select('*')
+    .in('id', originalIds);
     
-    // Combinar todos os dados
-    const enhancedPosts = posts.map((post, index) => {
-      const profile = profilesMap[post.user_id] || {
-        username: 'usuário',
-        avatar_url: null,
-        full_name: null
-      };
-      
-      return {
-        ...post,
-        profiles: {
-          username: profile.username,
-          avatar_url: profile.avatar_url,
-          full_name: profile.full_name
-        },
-        likes: likesCounts[index] || 0,
-        comments: commentsCounts[index] || 0,
-        has_liked: false // Será definido separadamente para usuários logados
-      };
+  if (error) throw error;
+  
+  const originals = await enhancePostsWithProfiles(data || [], viewerId, false);
+  
+  if (withQuoted) {
+    const quoted = await getRepostedPosts(originals, viewerId, false);
+    originals.forEach(original => {
+      if (original.repost_of_id) original.repost_of = quoted.get(original.repost_of_id) || null;
     });
-    
-    return enhancedPosts;
-  } catch (error) {
-    console.error('Erro ao buscar posts com perfis:', error);
-    throw new Error('Não foi possível carregar os posts. Tente novamente mais tarde.');
   }
+  
+  return new Map(originals.map(original => [original.id, original]));
 }
 
-// Função para obter posts curtidos por um usuário
-export async function getUserLikedPostIds(userId: string): Promise<string[]> {
-  if (!userId) return [];
+// Função para verificar quais posts de uma lista foram curtidos por um usuário
+async function getUserLikedPostIdsIn(userId: string | undefined, postIds: string[]): Promise<string[]> {
+  if (!userId || postIds.length === 0) return [];
   
   try {
     const { data, error } = await supabase
       .from('likes')
       .select('post_id')
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .in('post_id', postIds);
       
     if (error) throw error;
     
     return (data || []).map(like => like.post_id);
   } catch (error) {
-    console.error('Erro ao buscar posts curtidos pelo usuário:', error);
+    console.error('Erro ao buscar curtidas do usuário:', error);
     return [];
   }
 }
 
-// Função para verificar se um usuário curtiu um comentário
-export async function hasUserLikedComment(userId: string, commentId: string): Promise<boolean> {
-  if (!userId || !commentId) return false;
+// Buscar uma página de posts salvos (de um usuário ou de uma coleção), ordenada pela data em que foram salvos
+async function getSavedPostsPage(
+  scope: Extract<PostsScope, { type: 'saved' | 'collection' }>,
+  cursor: PostsCursor | null,
+  limit: number
+) {
+  let query = supabase
+    .from('saved_posts')
+    .select('id, post_id, note, created_at')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+    
+  query = scope.type === 'saved'
+    ? query.eq('user_id', scope.userId)
+    : query.eq('collection_id', scope.collectionId);
+    
+  if (cursor) {
+    query = query.or(cursorFilter(cursor));
+  }
   
-  try {
-    const { data, error } = await supabase
-      .from('comment_likes')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('comment_id', commentId)
-      .maybeSingle();
-      
-    if (error) throw error;
-    
-    return !!data;
-  } catch (error) {
-    console.error('Erro ao verificar status de curtida de comentário:', error);
-    return false;
+  const { data: savedPosts, error: savedPostsError } = await query;
+  
+  if (savedPostsError) throw savedPostsError;
+  
+  if (!savedPosts || savedPosts.length === 0) {
+    return { posts: [], notes: new Map<string, string | null>(), nextCursor: null };
   }
-}
-
-// Função para criar notificação
-export async function createNotification(
-  type: string,
-  userId: string,
-  actorId: string,
-  postId?: string,
-  commentId?: string
-): Promise<boolean> {
-  if (!userId || !actorId || userId === actorId) return false;
   
-  try {
-    const { error } = await supabase
-      .from('notifications')
-      .insert({
-        type,
-        user_id: userId,
-        actor_id: actorId,
-        post_id: postId,
-        comment_id: commentId,
-        read: false
-      });
-      
-    if (error) throw error;
+  const { data: posts, error: postsError } = await supabase
+    .from('posts')
+    .select('*')
+    .in('id', savedPosts.map(item => item.post_id));
     
-    return true;
-  } catch (error) {
-    console.error('Erro ao criar notificação:', error);
-    return false;
-  }
+  if (postsError) throw postsError;
+  
+  // Manter a ordem em que os posts foram salvos, ignorando posts removidos
+  const postsMap = new Map((posts || []).map(post => [post.id, post]));
+  const orderedPosts = savedPosts
+    .map(item => postsMap.get(item.post_id))
+    .filter((post): post is Tables<'posts'> => !!post);
+    
+  const last = savedPosts[savedPosts.length - 1];
+  
+  return {
+    posts: orderedPosts,
+    notes: new Map(savedPosts.map(item => [item.post_id, item.note])),
+    nextCursor: savedPosts.length === limit ? { created_at: last.created_at, id: last.id } : null
+  };
 }
 
-// Função para obter posts de um usuário específico
-export async function getPostsByUserId(userId: string, limit = 20, page = 0) {
-  if (!userId) return [];
-  
+// Função unificada para obter uma página de posts com dados de perfil usando paginação por cursor
+export async function getPostsPage(
+  scope: PostsScope,
+  cursor: PostsCursor | null = null,
+  viewerId?: string,
+  limit = POSTS_PAGE_SIZE
+): Promise<PostsPage> {
   try {
-    console.log('Buscando posts para userId:', userId);
+    let posts: Tables<'posts'>[];
+    let nextCursor: PostsCursor | null;
+    let notes: Map<string, string | null> | null = null;
     
-    // Buscar posts deste usuário com paginação
-    const { data: posts, error: postsError } = await supabase
-      .from('posts')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .range(page * limit, (page + 1) * limit - 1);
-      
-    if (postsError) throw postsError;
+    // Autores bloqueados (nos dois sentidos) ou silenciados pelo visitante ficam fora das listas
+    const hidden = await getHiddenUsers(viewerId);
+    const hiddenIds = hiddenAuthorIds(hidden);
     
-    if (!posts || posts.length === 0) {
-      return [];
+    if (scope.type === 'user' && blockedUserIds(hidden).includes(scope.userId)) {
+      return { posts: [], nextCursor: null };
     }
     
-    // Buscar perfil do usuário
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .single();
+    if (scope.type === 'saved' || scope.type === 'collection') {
+      ({ posts, notes, nextCursor } = await getSavedPostsPage(scope, cursor, limit));
+      posts = posts.filter(post => !hiddenIds.includes(post.user_id));
+    } else {
+      // O feed de quem o visitante segue é filtrado no banco: a lista de contas seguidas pode
+      // ser grande demais para ir na URL
+      let query = (scope.type === 'following' ? supabase.rpc('following_feed_posts') : supabase.from('posts').select('*'))
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+        
+      if (scope.type === 'user') {
+        query = query.eq('user_id', scope.userId);
+      } else if (scope.type === 'tag') {
+        query = query.contains('tags', [scope.tag]);
+      }
       
-    if (profileError) throw profileError;
+      // No perfil de alguém silenciado, as publicações dele continuam visíveis
+      if (scope.type !== 'user' && hiddenIds.length > 0) {
+        query = query.not('user_id', 'in', `(${hiddenIds.join(',')})`);
+      }
+      
+      if (cursor) {
+        query = query.or(cursorFilter(cursor));
+      }
+      
+      const { data, error } = await query;
+      
+      if (error) throw error;
+      
+      posts = data || [];
+      const last = posts[posts.length - 1];
+      nextCursor = posts.length === limit ? { created_at: last.created_at, id: last.id } : null;
+    }
     
-    // Contar curtidas e comentários para cada post
-    const postIds = posts.map(post => post.id);
-    const [likesCounts, commentsCounts] = await Promise.all([
-      Promise.all(postIds.map(id => getLikesCountForPost(id))),
-      Promise.all(postIds.map(id => getCommentsCountForPost(id)))
-    ]);
+    if (posts.length === 0) {
+      return { posts: [], nextCursor };
+    }
     
-    // Combinar tudo
-    const enhancedPosts = posts.map((post, index) => {
-      return {
-        ...post,
-        profiles: {
-          username: profile?.username || 'usuário',
-          avatar_url: profile?.avatar_url || null,
-          full_name: profile?.full_name || null
-        },
-        likes: likesCounts[index] || 0,
-        comments: commentsCounts[index] || 0,
-        has_liked: false // Será definido separadamente para usuários logados
-      };
-    });
+    const enhancedPosts = hideRepostsOf(await enhancePostsWithProfiles(posts, viewerId), hiddenIds);
     
-    return enhancedPosts;
+    return {
+      posts: notes ? enhancedPosts.map(post => ({ ...post, saved_note: notes!.get(post.id) ?? null })) : enhancedPosts,
+      nextCursor
+    };
   } catch (error) {
-    console.error('Erro ao buscar posts do usuário:', error);
-    return [];
+    console.error('Erro ao buscar página de posts:', error);
+    throw new Error('Não foi possível carregar os posts. Tente novamente mais tarde.');
   }
 }
 
-// Função para obter posts salvos de um usuário
-export async function getSavedPostsByUserId(userId: string, limit = 20, page = 0) {
-  if (!userId) return [];
-  
+// Filtros da busca de posts; todos são opcionais
+export interface PostSearchFilters {
+  query?: string;
+  tags?: string[];
+  authorId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  hasMedia?: boolean;
+}
+
+export type SearchedPost = PostWithProfile & {
+  highlighted_content: string;
+};
+
+export interface PostSearchPage {
+  posts: SearchedPost[];
+  nextOffset: number | null;
+}
+
+// Busca textual em português (sem acentos, com radicais) ordenada por relevância.
+// A relevância não tem chave estável, então a paginação é por deslocamento.
+export async function searchPosts(
+  filters: PostSearchFilters,
+  offset = 0,
+  viewerId?: string,
+  limit = POSTS_PAGE_SIZE
+): Promise<PostSearchPage> {
   try {
-    console.log('Buscando posts salvos para userId:', userId);
+    const { data: results, error } = await supabase.rpc('search_posts', {
+      search_query: filters.query?.trim() || undefined,
+      filter_tags: filters.tags && filters.tags.length > 0 ? filters.tags : undefined,
+      filter_author_id: filters.authorId,
+      date_from: filters.dateFrom,
+      date_to: filters.dateTo,
+      has_media: filters.hasMedia,
+      result_limit: limit,
+      result_offset: offset
+    });
     
-    // Buscar IDs de posts salvos para este usuário com paginação
-    const { data: savedPosts, error: savedPostsError } = await supabase
-      .from('saved_posts')
-      .select('post_id')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .range(page * limit, (page + 1) * limit - 1);
-      
-    if (savedPostsError) throw savedPostsError;
+    if (error) throw error;
     
-    if (!savedPosts || savedPosts.length === 0) {
-      return [];
+    if (!results || results.length === 0) {
+      return { posts: [], nextOffset: null };
     }
     
-    // Extrair IDs de posts
-    const postIds = savedPosts.map(item => item.post_id);
-    
-    // Buscar os posts salvos
     const { data: posts, error: postsError } = await supabase
       .from('posts')
       .select('*')
-      .in('id', postIds);
+      .in('id', results.map(result => result.id));
       
     if (postsError) throw postsError;
     
-    if (!posts || posts.length === 0) {
-      return [];
-    }
+    // Manter a ordem de relevância devolvida pela busca, sem autores bloqueados ou silenciados
+    // e sem reposts, que não têm texto próprio
+    const hiddenIds = hiddenAuthorIds(await getHiddenUsers(viewerId));
+    const postsMap = new Map((posts || []).map(post => [post.id, post]));
+    const orderedPosts = results
+      .map(result => postsMap.get(result.id))
+      .filter((post): post is Tables<'posts'> => !!post && !hiddenIds.includes(post.user_id) && !isPlainRepost(post));
     
-    // Obter IDs de usuários únicos dos posts
-    const userIds = [...new Set(posts.map(post => post.user_id))];
+    const highlights = new Map(results.map(result => [result.id, result.highlighted_content]));
+    const enhancedPosts = hideRepostsOf(await enhancePostsWithProfiles(orderedPosts, viewerId), hiddenIds);
     
-    // Buscar perfis dos usuários
-    const { data: profiles, error: profilesError } = await supabase
-      .from('profiles')
-      .select('id, username, avatar_url, full_name')
-      .in('id', userIds);
+    return {
+      posts: enhancedPosts.map(post => ({
+        ...post,
+        highlighted_content: highlights.get(post.id) || post.content
+      })),
+      nextOffset: results.length === limit ? offset + limit : null
+    };
+  } catch (error) {
+    console.error('Erro ao buscar posts:', error);
+    throw new Error('Não foi possível buscar publicações. Tente novamente mais tarde.');
+  }
+}
+
+export type TrendingTag = {
+  tag: string;
+  recent_count: number;
+  previous_count: number;
+  velocity: number;
+  score: number;
+};
+
+// Tags em alta na janela deslizante (padrão: últimas 24 horas), comparadas à janela anterior
+export async function getTrendingTags(windowHours = 24, limit = 10): Promise<TrendingTag[]> {
+  const { data, error } = await supabase.rpc('trending_tags', {
+    window_hours: windowHours,
+    result_limit: limit
+  });
+  
+  if (error) {
+    console.error('Erro ao buscar tags em alta:', error);
+    throw new Error('Não foi possível carregar as tags em alta.');
+  }
+  
+  return data || [];
+}
+
+// Função para obter posts curtidos por um usuário
+export async function getUserLikedPostIds(userId: string): Promise<string[]> {
+  if (!userId) return [];
+  
+  try {
+    const { data, error } = await supabase
+      .from('likes')
+      .select('post_id')
+      .eq('user_id', userId);
       
-    if (profilesError) throw profilesError;
-    
-    // Criar um mapa para busca rápida
-    const profilesMap = (profiles || []).reduce((acc, profile) => {
-      acc[profile.id] = profile;
-      return acc;
-    }, {} as Record<string, any>);
-    
-    // Buscar contagem de curtidas e comentários em paralelo
-    const [likesCounts, commentsCounts] = await Promise.all([
-      Promise.all(postIds.map(id => getLikesCountForPost(id))),
-      Promise.all(postIds.map(id => getCommentsCountForPost(id)))
-    ]);
+    if (error) throw error;
     
-    // Combinar todos os dados
-    const enhancedPosts = posts.map((post, index) => {
-      const profile = profilesMap[post.user_id] || {
-        username: 'usuário',
-        avatar_url: null,
-        full_name: null
-      };
+    return (data || []).map(like => like.post_id);
+  } catch (error) {
+    console.error('Erro ao buscar posts curtidos pelo usuário:', error);
+    return [];
+  }
+}
+
+// Função para verificar se um usuário curtiu um comentário
+export async function hasUserLikedComment(userId: string, commentId: string): Promise<boolean> {
+  if (!userId || !commentId) return false;
+  
+  try {
+    const { data, error } = await supabase
+      .from('comment_likes')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('comment_id', commentId)
+      .maybeSingle();
       
-      return {
-        ...post,
-        profiles: {
-          username: profile.username,
-          avatar_url: profile.avatar_url,
-          full_name: profile.full_name
-        },
-        likes: likesCounts[index] || 0,
-        comments: commentsCounts[index] || 0,
-        has_liked: false // Será definido separadamente para usuários logados
-      };
-    });
+    if (error) throw error;
     
-    return enhancedPosts;
+    return !!data;
   } catch (error) {
-    console.error('Erro ao buscar posts salvos do usuário:', error);
-    return [];
+    console.error('Erro ao verificar status de curtida de comentário:', error);
+    return false;
   }
 }
 
+// Criação de notificações: a implementação única fica em functions
+export { createNotification } from './functions';
+
 // Funções para contagem de seguidores
 export async function getFollowerCountForUser(userId: string): Promise<number> {
   if (!userId) return 0;
@@ -0,0 +1,34 @@
+import { Globe, Users, ArrowLeftRight, Star, type LucideIcon } from 'lucide-react';
+
+// Públicos possíveis de uma publicação; os valores precisam bater com a restrição posts.audience
+export type PostAudience = 'public' | 'followers' | 'mutuals' | 'close_friends';
+
+export const AUDIENCE_OPTIONS: {
+  value: PostAudience;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+}[] = [
+  { value: 'public', label: 'Público', description: 'Qualquer pessoa', icon: Globe },
+  { value: 'followers', label: 'Seguidores', description: 'Apenas quem segue você', icon: Users },
+  { value: 'mutuals', label: 'Seguidores mútuos', description: 'Quem você segue e segue você', icon: ArrowLeftRight },
+  { value: 'close_friends', label: 'Amigos próximos', description: 'Apenas sua lista de amigos próximos', icon: Star },
+];
+
+export function audienceOption(audience?: string | null) {
+  return AUDIENCE_OPTIONS.find(option => option.value === audience) || AUDIENCE_OPTIONS[0];
+}
+
+// Mensagem para quem abre uma publicação fora do público dela
+export function restrictedAudienceMessage(audience: string): string {
+  switch (audience) {
+    case 'followers':
+      return 'Apenas seguidores do autor podem ver esta publicação.';
+    case 'mutuals':
+      return 'Apenas seguidores mútuos do autor podem ver esta publicação.';
+    case 'close_friends':
+      return 'Apenas os amigos próximos do autor podem ver esta publicação.';
+    default:
+      return 'Esta publicação não está disponível para você.';
+  }
+}
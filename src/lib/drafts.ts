@@ -0,0 +1,87 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { PostAudience } from '@/lib/audience';
+import type { MediaAttachment } from '@/lib/media';
+import { DEFAULT_POLL_DURATION, PollDraft } from '@/lib/polls';
+
+// Antecedência mínima para agendar; o banco aceita a partir de 1 minuto para tolerar relógios adiantados
+export const MIN_SCHEDULE_MINUTES = 5;
+
+// Espera entre a última alteração e o salvamento automático do rascunho no servidor
+export const DRAFT_AUTOSAVE_DELAY = 2000;
+
+// Cópia local do formulário de publicação, gravada a cada alteração para sobreviver à navegação
+export interface LocalPostDraft {
+  // Rascunho do servidor correspondente, quando já foi salvo lá
+  draftId: string | null;
+  content: string;
+  // Apenas mídias já enviadas; arquivos ainda no navegador não cabem no armazenamento local
+  images: string[];
+  // Ausente em cópias gravadas antes dos metadados de mídia
+  media?: MediaAttachment[];
+  tags: string[];
+  audience: PostAudience;
+  poll: PollDraft | null;
+  savedAt: string;
+}
+
+const localDraftKey = (userId: string) => `post-draft:${userId}`;
+
+export function loadLocalDraft(userId: string): LocalPostDraft | null {
+  try {
+    const stored = localStorage.getItem(localDraftKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocalDraft(userId: string, draft: LocalPostDraft) {
+  try {
+    localStorage.setItem(localDraftKey(userId), JSON.stringify(draft));
+  } catch (error) {
+    console.error('Erro ao salvar rascunho local:', error);
+  }
+}
+
+export function clearLocalDraft(userId: string) {
+  localStorage.removeItem(localDraftKey(userId));
+}
+
+// Formato da enquete em post_drafts.poll, lido por publish_scheduled_posts()
+export function pollToDraftJson(poll: PollDraft | null): Json | null {
+  if (!poll) return null;
+
+  return {
+    options: poll.options,
+    duration_minutes: Number(poll.duration),
+    allows_multiple: poll.allowsMultiple,
+  };
+}
+
+export function pollFromDraftJson(json: Json | null): PollDraft | null {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return null;
+
+  const options = Array.isArray(json.options) ? json.options.map(option => String(option ?? '')) : [];
+
+  return {
+    options: options.length > 0 ? options : ['', ''],
+    duration: json.duration_minutes ? String(json.duration_minutes) : DEFAULT_POLL_DURATION,
+    allowsMultiple: json.allows_multiple === true,
+  };
+}
+
+// Valor aceito por <input type="datetime-local">, no fuso do navegador
+export function toDateTimeLocalValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export function formatScheduledAt(dateString: string): string {
+  return new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,19 @@
+// Erros capturados chegam como `unknown`: os do Supabase são objetos simples com `message` e
+// `code`, não instâncias de Error, então não basta testar com instanceof
+
+type ErrorLike = { message?: unknown; code?: unknown };
+
+const isErrorLike = (error: unknown): error is ErrorLike =>
+  typeof error === 'object' && error !== null;
+
+// Mensagem para exibir ao usuário, quando o erro traz uma
+export function getErrorMessage(error: unknown): string | undefined {
+  if (isErrorLike(error) && typeof error.message === 'string') return error.message;
+  return undefined;
+}
+
+// Código do Postgres (ou do PostgREST) de um erro do Supabase
+export function getErrorCode(error: unknown): string | undefined {
+  if (isErrorLike(error) && typeof error.code === 'string') return error.code;
+  return undefined;
+}
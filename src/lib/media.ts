@@ -0,0 +1,334 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Processamento de imagens no navegador antes do envio: corrige a orientação, reduz as
+// dimensões e recodifica a imagem. Ao redesenhar em um canvas, os metadados EXIF (GPS,
+// câmera, data) ficam para trás, já que só os pixels são copiados. Vídeos seguem como estão,
+// mas têm a duração validada e um quadro extraído para servir de capa.
+
+export type MediaKind = 'image' | 'video';
+
+// Uma entrada de posts.media (ver src/sql/post_media.sql); campos nulos em publicações antigas
+export interface MediaAttachment {
+  url: string;
+  kind: MediaKind;
+  mime_type: string | null;
+  width: number | null;
+  height: number | null;
+  // Em segundos, só para vídeos
+  duration: number | null;
+  poster_url: string | null;
+  placeholder: string | null;
+  // Descrição escrita pelo autor para leitores de tela e para o visualizador
+  alt: string | null;
+}
+
+export type ImageOutputFormat = 'image/webp' | 'image/avif';
+
+export interface ImageProcessingOptions {
+  maxWidth: number;
+  maxHeight: number;
+  format: ImageOutputFormat;
+  // Qualidade do codificador, de 0 a 1
+  quality: number;
+  // Maior lado da miniatura usada como placeholder
+  placeholderSize: number;
+}
+
+// Recorte em pixels da imagem já orientada
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+  // Miniatura minúscula em data URL, exibida desfocada enquanto a imagem carrega
+  placeholder: string;
+}
+
+// Arquivos maiores que isso nem chegam a ser processados
+export const MAX_IMAGE_INPUT_SIZE = 20 * 1024 * 1024;
+
+// Vídeos não passam pelo processamento; o envio retomável dá conta de arquivos maiores
+export const MAX_VIDEO_INPUT_SIZE = 50 * 1024 * 1024;
+
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+// Em segundos; o banco recusa vídeos mais longos (max_video_duration)
+export const MAX_VIDEO_DURATION = 180;
+
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+const POSTER_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 1280,
+  maxHeight: 1280,
+  format: 'image/webp',
+  quality: 0.8,
+  placeholderSize: 16,
+};
+
+export const POST_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 2048,
+  maxHeight: 2048,
+  format: 'image/webp',
+  quality: 0.82,
+  placeholderSize: 16,
+};
+
+export const AVATAR_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 512,
+  maxHeight: 512,
+  format: 'image/webp',
+  quality: 0.85,
+  placeholderSize: 8,
+};
+
+export const BANNER_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxWidth: 1500,
+  maxHeight: 500,
+  format: 'image/webp',
+  quality: 0.85,
+  placeholderSize: 16,
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/avif': 'avif',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+export function extensionForMimeType(mimeType: string): string {
+  return EXTENSIONS[mimeType] || mimeType.split('/').pop() || 'bin';
+}
+
+export const isVideoUrl = (url: string) => /\.(mp4|webm|mov)(\?|$)/i.test(url);
+
+// Mídias de uma publicação ou rascunho na ordem de `images`, completando com o que dá para
+// deduzir da URL quando não há metadados
+export function getMediaAttachments(images: string[] | null | undefined, media?: Json | null): MediaAttachment[] {
+  const entries = Array.isArray(media) ? media as unknown as Partial<MediaAttachment>[] : [];
+
+  return (images || []).map(url => {
+    const entry = entries.find(item => item?.url === url);
+
+    return {
+      url,
+      kind: entry?.kind === 'video' || entry?.kind === 'image' ? entry.kind : isVideoUrl(url) ? 'video' : 'image',
+      mime_type: entry?.mime_type ?? null,
+      width: entry?.width ?? null,
+      height: entry?.height ?? null,
+      duration: entry?.duration ?? null,
+      poster_url: entry?.poster_url ?? null,
+      placeholder: entry?.placeholder ?? null,
+      alt: entry?.alt?.trim() || null,
+    };
+  });
+}
+
+export const mediaToJson = (media: MediaAttachment[]): Json => media as unknown as Json;
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// GIFs perderiam a animação e SVGs não têm pixels para redimensionar; seguem como estão
+export function shouldProcessImage(file: File): boolean {
+  return file.type.startsWith('image/') && file.type !== 'image/gif' && file.type !== 'image/svg+xml';
+}
+
+// Decodificar já aplicando a orientação do EXIF; navegadores sem createImageBitmap usam <img>
+async function decodeImage(file: File): Promise<CanvasImageSource & { width: number; height: number }> {
+  if ('createImageBitmap' in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Alguns formatos só são decodificados pelo elemento <img>
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new window.Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function drawToCanvas(source: CanvasImageSource, area: CropArea, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Seu navegador não permite processar imagens');
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, width, height);
+  return canvas;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+// Codificar no formato pedido; quando o navegador não suporta, toBlob devolve PNG e tentamos o próximo
+async function encodeCanvas(canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number): Promise<Blob> {
+  const candidates = [...new Set<string>([format, 'image/webp', 'image/jpeg'])];
+
+  for (const type of candidates) {
+    const blob = await canvasToBlob(canvas, type, quality);
+    if (blob && blob.type === type) return blob;
+  }
+
+  throw new Error('Não foi possível converter a imagem');
+}
+
+function fitWithin(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// Limitar o recorte à imagem, já que ele vem de arrastes e zoom na tela
+function clampCrop(crop: CropArea, width: number, height: number): CropArea {
+  const x = Math.min(Math.max(0, Math.round(crop.x)), width - 1);
+  const y = Math.min(Math.max(0, Math.round(crop.y)), height - 1);
+
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width), width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height), height - y)),
+  };
+}
+
+export async function processImage(file: File, options: ImageProcessingOptions, crop?: CropArea): Promise<ProcessedImage> {
+  const source = await decodeImage(file);
+
+  try {
+    const area = crop
+      ? clampCrop(crop, source.width, source.height)
+      : { x: 0, y: 0, width: source.width, height: source.height };
+    const size = fitWithin(area.width, area.height, options.maxWidth, options.maxHeight);
+    const canvas = drawToCanvas(source, area, size.width, size.height);
+    const blob = await encodeCanvas(canvas, options.format, options.quality);
+
+    const thumbnailSize = fitWithin(size.width, size.height, options.placeholderSize, options.placeholderSize);
+    const placeholder = drawToCanvas(canvas, { x: 0, y: 0, ...size }, thumbnailSize.width, thumbnailSize.height)
+      .toDataURL('image/webp', 0.5);
+
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'imagem';
+    const processed = new File([blob], `${baseName}.${extensionForMimeType(blob.type)}`, {
+      type: blob.type,
+      lastModified: Date.now(),
+    });
+
+    return { file: processed, width: size.width, height: size.height, placeholder };
+  } finally {
+    if ('close' in source) source.close();
+  }
+}
+
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export interface ProcessedVideo {
+  width: number;
+  height: number;
+  duration: number;
+  poster: File;
+  placeholder: string;
+}
+
+function waitForEvent(target: HTMLMediaElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error('Não foi possível ler o vídeo'));
+    };
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+}
+
+// Ler dimensões e duração e extrair a capa; o arquivo do vídeo em si não é alterado
+export async function processVideo(file: File): Promise<ProcessedVideo> {
+  if (!VIDEO_MIME_TYPES.includes(file.type)) {
+    throw new Error('Use vídeos em MP4, WebM ou MOV');
+  }
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    video.src = url;
+    await waitForEvent(video, 'loadeddata');
+
+    // WebM gravado pelo navegador não informa a duração até ser percorrido por inteiro
+    if (!Number.isFinite(video.duration)) {
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await waitForEvent(video, 'seeked');
+    }
+
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || !video.videoWidth) {
+      throw new Error('Não foi possível ler o vídeo');
+    }
+    if (duration > MAX_VIDEO_DURATION) {
+      throw new Error(`Vídeos podem ter no máximo ${MAX_VIDEO_DURATION / 60} minutos`);
+    }
+
+    // Um quadro um pouco depois do início, que costuma fugir de telas pretas
+    video.currentTime = Math.min(1, duration / 10);
+    await waitForEvent(video, 'seeked');
+
+    const area = { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+    const size = fitWithin(area.width, area.height, POSTER_OPTIONS.maxWidth, POSTER_OPTIONS.maxHeight);
+    const canvas = drawToCanvas(video, area, size.width, size.height);
+    const blob = await encodeCanvas(canvas, POSTER_OPTIONS.format, POSTER_OPTIONS.quality);
+
+    const thumbnailSize = fitWithin(size.width, size.height, POSTER_OPTIONS.placeholderSize, POSTER_OPTIONS.placeholderSize);
+    const placeholder = drawToCanvas(canvas, { x: 0, y: 0, ...size }, thumbnailSize.width, thumbnailSize.height)
+      .toDataURL('image/webp', 0.5);
+
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'video';
+    const poster = new File([blob], `${baseName}-capa.${extensionForMimeType(blob.type)}`, {
+      type: blob.type,
+      lastModified: Date.now(),
+    });
+
+    return { width: video.videoWidth, height: video.videoHeight, duration, poster, placeholder };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
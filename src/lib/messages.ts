@@ -0,0 +1,31 @@
+import type { ConversationParticipant } from '@/integrations/supabase/functions';
+
+// Participantes da conversa, exceto o usuário logado
+export function otherParticipants(participants: ConversationParticipant[], userId?: string) {
+  return participants.filter(participant => participant.user_id !== userId);
+}
+
+// Título exibido na caixa de entrada e no topo da conversa
+export function conversationTitle(
+  conversation: { title: string | null; participants: ConversationParticipant[] },
+  userId?: string
+): string {
+  if (conversation.title) return conversation.title;
+
+  const names = otherParticipants(conversation.participants, userId)
+    .map(participant => participant.profile?.full_name || participant.profile?.username || 'usuário');
+
+  return names.length > 0 ? names.join(', ') : 'Somente você';
+}
+
+// Horário para mensagens de hoje, data para as mais antigas
+export function formatMessageTime(dateString: string | null): string {
+  if (!dateString) return '';
+
+  const date = new Date(dateString);
+  const isToday = date.toDateString() === new Date().toDateString();
+
+  return isToday
+    ? date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+}
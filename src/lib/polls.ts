@@ -0,0 +1,37 @@
+// Limites de uma enquete; precisam bater com as validações de create_poll no banco
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 4;
+export const MAX_POLL_OPTION_LENGTH = 80;
+
+// Durações oferecidas no formulário, em minutos
+export const POLL_DURATIONS = [
+  { value: '60', label: '1 hora' },
+  { value: '360', label: '6 horas' },
+  { value: '1440', label: '1 dia' },
+  { value: '4320', label: '3 dias' },
+  { value: '10080', label: '7 dias' },
+];
+
+export const DEFAULT_POLL_DURATION = '1440';
+
+// Enquete sendo montada no formulário de publicação
+export interface PollDraft {
+  options: string[];
+  // Duração em minutos, como string para o Select
+  duration: string;
+  allowsMultiple: boolean;
+}
+
+// "Encerra em 3 h", "Encerra em 2 dias"... ou "Encerrada" quando o prazo passou
+export function formatPollTimeLeft(closesAt: string, now = new Date()): string {
+  const minutes = Math.ceil((new Date(closesAt).getTime() - now.getTime()) / 60000);
+
+  if (minutes <= 0) return 'Encerrada';
+  if (minutes < 60) return `Encerra em ${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Encerra em ${hours} h`;
+
+  const days = Math.floor(hours / 24);
+  return `Encerra em ${days} ${days === 1 ? 'dia' : 'dias'}`;
+}
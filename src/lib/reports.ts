@@ -0,0 +1,30 @@
+import type { ModerationDecision, ReportReason, ReportTargetType } from '@/integrations/supabase/functions';
+
+// Motivos de denúncia; os valores precisam bater com a restrição da tabela reports
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Propaganda, golpes ou conteúdo repetitivo' },
+  { value: 'harassment', label: 'Assédio ou bullying', description: 'Ataques, intimidação ou exposição de alguém' },
+  { value: 'hate', label: 'Discurso de ódio', description: 'Ataques por raça, religião, gênero, orientação ou origem' },
+  { value: 'violence', label: 'Violência ou ameaças', description: 'Ameaças, incitação ou apologia à violência' },
+  { value: 'nudity', label: 'Nudez ou conteúdo sexual', description: 'Conteúdo sexual explícito ou não consentido' },
+  { value: 'self_harm', label: 'Automutilação ou suicídio', description: 'Incentivo ou exposição de autolesão' },
+  { value: 'misinformation', label: 'Informação falsa', description: 'Conteúdo enganoso que pode causar danos' },
+  { value: 'other', label: 'Outro motivo', description: 'Algo que não se encaixa nas opções acima' },
+];
+
+export function reportReasonLabel(reason: string): string {
+  return REPORT_REASONS.find(option => option.value === reason)?.label || reason;
+}
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'Publicação',
+  comment: 'Comentário',
+  profile: 'Perfil',
+};
+
+export const MODERATION_DECISION_LABELS: Record<ModerationDecision, string> = {
+  hide: 'Conteúdo ocultado',
+  warn: 'Advertência',
+  suspend: 'Suspensão',
+  dismiss: 'Denúncia descartada',
+};
@@ -0,0 +1,14 @@
+// Tags são salvas como "#nome", em minúsculas e sem espaços, para que #React e #react sejam a mesma tag
+export function normalizeTag(input: string): string {
+  const name = input.trim().replace(/^#+/, '').replace(/\s+/g, '').toLowerCase();
+  return name ? `#${name}` : '';
+}
+
+// Nome usado na URL da página da tag (/tag/:name)
+export function tagToSlug(tag: string): string {
+  return normalizeTag(tag).slice(1);
+}
+
+export function tagPath(tag: string): string {
+  return `/tag/${encodeURIComponent(tagToSlug(tag))}`;
+}
@@ -0,0 +1,239 @@
+import { supabase, SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from '@/integrations/supabase/client';
+
+// Envio de arquivos para o Storage com progresso, novas tentativas e cancelamento. Arquivos
+// grandes usam o protocolo TUS, que retoma do ponto onde a conexão caiu em vez de recomeçar.
+
+export const MAX_PARALLEL_UPLOADS = 3;
+export const MAX_UPLOAD_ATTEMPTS = 4;
+
+// O Supabase exige blocos de exatamente 6MB no envio retomável (exceto o último)
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+export const RESUMABLE_UPLOAD_THRESHOLD = TUS_CHUNK_SIZE;
+
+export interface StorageUpload {
+  file: File;
+  bucket: string;
+  path: string;
+}
+
+export interface UploadCallbacks {
+  signal: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+  // Chamado antes de esperar para tentar de novo
+  onRetry?: (attempt: number, delay: number) => void;
+}
+
+export class UploadError extends Error {
+  // 0 quando a requisição nem chegou ao servidor
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+export class UploadCanceledError extends Error {
+  constructor() {
+    super('Envio cancelado');
+    this.name = 'UploadCanceledError';
+  }
+}
+
+// Falhas de rede, limites de taxa e erros do servidor valem uma nova tentativa; o resto não muda ao repetir.
+// No TUS, 409 indica posição divergente, resolvida consultando a posição de novo.
+function isRetryable(error: unknown, resumable: boolean): boolean {
+  if (!(error instanceof UploadError)) return false;
+  if (error.status === 409) return resumable;
+  return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+// 1s, 2s, 4s... com um pouco de aleatoriedade para os envios paralelos não voltarem juntos
+export function retryDelay(attempt: number): number {
+  return Math.min(30000, 1000 * 2 ** (attempt - 1)) + Math.random() * 250;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new UploadCanceledError());
+    }, { once: true });
+  });
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  return {
+    apikey: SUPABASE_PUBLISHABLE_KEY,
+    authorization: `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+  };
+}
+
+interface RequestOptions {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: Blob | null;
+  signal: AbortSignal;
+  onProgress?: (loaded: number) => void;
+}
+
+// XMLHttpRequest em vez de fetch porque só ele informa o progresso do envio
+function sendRequest({ method, url, headers, body = null, signal, onProgress }: RequestOptions): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new UploadCanceledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+
+    const abort = () => xhr.abort();
+    signal.addEventListener('abort', abort, { once: true });
+
+    xhr.onload = () => {
+      signal.removeEventListener('abort', abort);
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr);
+        return;
+      }
+
+      let message = `Falha no envio (${xhr.status})`;
+      try {
+        const response = JSON.parse(xhr.responseText);
+        message = response.message || response.error || message;
+      } catch {
+        // Respostas do TUS costumam vir em texto puro
+      }
+      reject(new UploadError(message, xhr.status));
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', abort);
+      reject(new UploadError('Falha de conexão durante o envio', 0));
+    };
+    xhr.onabort = () => {
+      signal.removeEventListener('abort', abort);
+      reject(new UploadCanceledError());
+    };
+
+    xhr.send(body);
+  });
+}
+
+async function uploadDirect({ file, bucket, path }: StorageUpload, { signal, onProgress }: UploadCallbacks) {
+  await sendRequest({
+    method: 'POST',
+    url: `${SUPABASE_URL}/storage/v1/object/${bucket}/${path}`,
+    headers: {
+      ...(await getAuthHeaders()),
+      'content-type': file.type || 'application/octet-stream',
+      'cache-control': 'max-age=3600',
+      'x-upsert': 'false',
+    },
+    body: file,
+    signal,
+    onProgress: (loaded) => onProgress?.(loaded, file.size),
+  });
+}
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+// Envio retomável: cria o upload uma vez e, a cada tentativa, pergunta ao servidor quanto já chegou
+async function uploadResumable(
+  { file, bucket, path }: StorageUpload,
+  { signal, onProgress }: UploadCallbacks,
+  session: { uploadUrl: string | null }
+) {
+  const tusHeaders = { ...(await getAuthHeaders()), 'tus-resumable': '1.0.0' };
+  let offset = 0;
+
+  if (!session.uploadUrl) {
+    const created = await sendRequest({
+      method: 'POST',
+      url: `${SUPABASE_URL}/storage/v1/upload/resumable`,
+      headers: {
+        ...tusHeaders,
+        'upload-length': String(file.size),
+        'upload-metadata': encodeMetadata({
+          bucketName: bucket,
+          objectName: path,
+          contentType: file.type || 'application/octet-stream',
+          cacheControl: '3600',
+        }),
+        'x-upsert': 'false',
+      },
+      signal,
+    });
+
+    const location = created.getResponseHeader('location');
+    if (!location) throw new UploadError('O servidor não iniciou o envio retomável', created.status);
+    session.uploadUrl = new URL(location, SUPABASE_URL).toString();
+  } else {
+    const head = await sendRequest({ method: 'HEAD', url: session.uploadUrl, headers: tusHeaders, signal });
+    offset = Number(head.getResponseHeader('upload-offset')) || 0;
+  }
+
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + TUS_CHUNK_SIZE);
+    const chunkStart = offset;
+
+    const response = await sendRequest({
+      method: 'PATCH',
+      url: session.uploadUrl,
+      headers: {
+        ...tusHeaders,
+        'upload-offset': String(offset),
+        'content-type': 'application/offset+octet-stream',
+      },
+      body: chunk,
+      signal,
+      onProgress: (loaded) => onProgress?.(chunkStart + loaded, file.size),
+    });
+
+    offset = Number(response.getResponseHeader('upload-offset')) || chunkStart + chunk.size;
+    onProgress?.(offset, file.size);
+  }
+}
+
+// Enviar um arquivo, tentando de novo com espera crescente; devolve a URL pública
+export async function uploadFileWithRetry(upload: StorageUpload, callbacks: UploadCallbacks): Promise<string> {
+  const resumable = upload.file.size >= RESUMABLE_UPLOAD_THRESHOLD;
+  const session = { uploadUrl: null as string | null };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      if (resumable) {
+        await uploadResumable(upload, callbacks, session);
+      } else {
+        await uploadDirect(upload, callbacks);
+      }
+      break;
+    } catch (error) {
+      if (callbacks.signal.aborted) throw new UploadCanceledError();
+      if (attempt >= MAX_UPLOAD_ATTEMPTS || !isRetryable(error, resumable)) throw error;
+
+      const delay = retryDelay(attempt);
+      callbacks.onRetry?.(attempt, delay);
+      await wait(delay, callbacks.signal);
+    }
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from(upload.bucket).getPublicUrl(upload.path);
+  return publicUrl;
+}
@@ -0,0 +1,176 @@
+import React, { useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import ReportCard from '@/components/moderation/ReportCard';
+import { useAuth } from '@/hooks/useAuth';
+import { useModerator } from '@/hooks/useModerator';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { getOpenReports, getModerationActions, ModerationDecision, ReportTargetType } from '@/integrations/supabase/functions';
+import { MODERATION_DECISION_LABELS, REPORT_TARGET_LABELS } from '@/lib/reports';
+
+const AdminModeration: React.FC = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const { isModerator, isLoading: moderatorLoading } = useModerator();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      toast.error('Você precisa estar logado para acessar a moderação');
+    }
+  }, [user, authLoading, navigate]);
+
+  const reportsQuery = useQuery({
+    queryKey: ['reports', 'open'],
+    queryFn: getOpenReports,
+    enabled: isModerator,
+  });
+
+  const actionsQuery = useQuery({
+    queryKey: ['moderation_actions'],
+    queryFn: () => getModerationActions(),
+    enabled: isModerator,
+  });
+
+  const renderLoading = () => (
+    <div className="flex justify-center py-12">
+      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+    </div>
+  );
+
+  const renderError = (refetch: () => void) => (
+    <div className="text-center py-8">
+      <p className="text-muted-foreground">Não foi possível carregar os dados da moderação.</p>
+      <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+        Tentar novamente
+      </Button>
+    </div>
+  );
+
+  const renderReports = () => {
+    if (reportsQuery.isPending) return renderLoading();
+    if (reportsQuery.isError) return renderError(reportsQuery.refetch);
+
+    if (reportsQuery.data.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <ShieldCheck className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">Nenhuma denúncia aberta</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {reportsQuery.data.map(group => (
+          <ReportCard key={group.key} group={group} />
+        ))}
+      </div>
+    );
+  };
+
+  const renderActions = () => {
+    if (actionsQuery.isPending) return renderLoading();
+    if (actionsQuery.isError) return renderError(actionsQuery.refetch);
+
+    if (actionsQuery.data.length === 0) {
+      return <p className="text-center text-sm text-muted-foreground py-12">Nenhuma decisão registrada ainda.</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {actionsQuery.data.map(action => (
+          <div key={action.id} className="border-b pb-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {MODERATION_DECISION_LABELS[action.action as ModerationDecision] || action.action}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {new Date(action.created_at || '').toLocaleString('pt-BR', {
+                  day: '2-digit',
+                  month: '2-digit',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {REPORT_TARGET_LABELS[action.target_type as ReportTargetType] || action.target_type}
+              {action.target_user && (
+                <>
+                  {' de '}
+                  <Link to={`/profile/${action.target_user.username}`} className="hover:underline">
+                    @{action.target_user.username}
+                  </Link>
+                </>
+              )}
+              {' · por @'}{action.moderator?.username || 'moderador'}
+            </p>
+            {action.suspended_until && (
+              <p className="text-xs text-muted-foreground">
+                Suspenso até {new Date(action.suspended_until).toLocaleDateString('pt-BR')}
+              </p>
+            )}
+            {action.note && <p className="mt-1 whitespace-pre-line">{action.note}</p>}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || moderatorLoading) return renderLoading();
+
+    if (!isModerator) {
+      return (
+        <div className="text-center py-12">
+          <ShieldOff className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">Esta área é restrita à equipe de moderação.</p>
+          <Button variant="link" asChild className="mt-2">
+            <Link to="/">Voltar ao início</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <Tabs defaultValue="reports" className="w-full">
+        <TabsList className="w-full grid grid-cols-2 mb-4">
+          <TabsTrigger value="reports">
+            Denúncias
+            {!!reportsQuery.data?.length && (
+              <Badge variant="secondary" className="ml-2">{reportsQuery.data.length}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="history">Histórico</TabsTrigger>
+        </TabsList>
+        <TabsContent value="reports">{renderReports()}</TabsContent>
+        <TabsContent value="history">{renderActions()}</TabsContent>
+      </Tabs>
+    );
+  };
+
+  return (
+    <PageTransition>
+      <div className="container max-w-md mx-auto pb-20 pt-4">
+        <div className="flex items-center mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/profile')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold ml-2">Moderação</h1>
+        </div>
+
+        {renderContent()}
+      </div>
+      <BottomNav />
+    </PageTransition>
+  );
+};
+
+export default AdminModeration;
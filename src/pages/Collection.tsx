@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import FeedList from '@/components/feed/FeedList';
+import CollectionDialog from '@/components/collections/CollectionDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Bookmark, FolderX, Link2, Loader2, Lock, MoreHorizontal, Pencil, Trash2, Users } from 'lucide-react';
+import { deleteCollection, getCollectionById } from '@/integrations/supabase/functions';
+import { getErrorMessage } from '@/lib/errors';
+
+const CollectionPage: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const { data: collection, isPending, isError, refetch } = useQuery({
+    queryKey: ['collection', id],
+    queryFn: () => getCollectionById(id),
+    enabled: !authLoading && !!id,
+  });
+
+  const isOwner = !!user && collection?.user_id === user.id;
+
+  const handleBack = () => {
+    if (window.history.length > 1) {
+      navigate(-1);
+    } else {
+      navigate('/profile');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/collections/${id}`);
+      toast.success('Link da coleção copiado para a área de transferência!');
+    } catch (error) {
+      console.error('Erro ao copiar link:', error);
+      toast.error('Não foi possível copiar o link');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      await deleteCollection(id);
+      queryClient.invalidateQueries({ queryKey: ['collections'] });
+      toast.success('Coleção excluída');
+      navigate('/profile');
+    } catch (error) {
+      console.error('Erro ao excluir coleção:', error);
+      toast.error('Não foi possível excluir a coleção', {
+        description: getErrorMessage(error),
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (authLoading || isPending) {
+      return (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (isError) {
+      return (
+        <div className="text-center py-16">
+          <p className="text-muted-foreground">Não foi possível carregar a coleção.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+            Tentar novamente
+          </Button>
+        </div>
+      );
+    }
+
+    // Coleções privadas de outras pessoas também chegam aqui, sem distinção
+    if (!collection) {
+      return (
+        <div className="text-center py-16">
+          <FolderX className="h-10 w-10 mx-auto opacity-30" />
+          <p className="mt-4 font-medium">Coleção não encontrada</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Ela pode ter sido excluída ou não estar compartilhada.
+          </p>
+          <Button variant="outline" className="mt-4" asChild>
+            <Link to="/">Voltar ao início</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="mb-6">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold break-words">{collection.name}</h1>
+              <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                {collection.is_shared ? <Users className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                {collection.is_shared ? 'Compartilhada' : 'Privada'}
+                {!isOwner && collection.owner && (
+                  <>
+                    {' · por '}
+                    <Link to={`/profile/${collection.owner.username}`} className="hover:underline">
+                      @{collection.owner.username}
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+
+            {(isOwner || collection.is_shared) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {collection.is_shared && (
+                    <DropdownMenuItem onClick={handleCopyLink}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      <span>Copiar link</span>
+                    </DropdownMenuItem>
+                  )}
+                  {isOwner && (
+                    <>
+                      <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        <span>Editar coleção</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setIsDeleteOpen(true)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        <span>Excluir coleção</span>
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+          {collection.description && (
+            <p className="text-sm mt-2 whitespace-pre-line">{collection.description}</p>
+          )}
+        </div>
+
+        <FeedList
+          key={collection.id}
+          scope={{ type: 'collection', collectionId: collection.id }}
+          emptyState={
+            <div className="text-center py-16">
+              <Bookmark className="h-10 w-10 mx-auto opacity-30" />
+              <p className="mt-4 text-muted-foreground">Nenhuma publicação nesta coleção</p>
+              {isOwner && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Use "Salvar" no menu de uma publicação para adicioná-la aqui.
+                </p>
+              )}
+            </div>
+          }
+        />
+
+        {isOwner && (
+          <>
+            <CollectionDialog
+              open={isEditOpen}
+              onOpenChange={setIsEditOpen}
+              collection={collection}
+              onSaved={() => {
+                queryClient.invalidateQueries({ queryKey: ['collection', id] });
+                queryClient.invalidateQueries({ queryKey: ['collections'] });
+              }}
+            />
+
+            <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Excluir coleção?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    As publicações continuam em Todos os salvos, apenas sem coleção.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isDeleting}>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleDelete();
+                    }}
+                    disabled={isDeleting}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Excluir'}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <PageTransition>
+      <main className="min-h-screen pb-20 bg-background text-foreground">
+        <div className="max-w-xl mx-auto px-4 pt-4">
+          <div className="flex items-center mb-4">
+            <Button variant="ghost" onClick={handleBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Voltar
+            </Button>
+          </div>
+
+          {renderContent()}
+        </div>
+
+        {user && <BottomNav />}
+      </main>
+    </PageTransition>
+  );
+};
+
+export default CollectionPage;
@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import PageTransition from '@/components/layout/PageTransition';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { unreadMessagesQueryKey } from '@/hooks/useUnreadMessages';
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Loader2, SendHorizonal, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  getConversation,
+  getMessages,
+  sendMessage,
+  markConversationAsRead,
+  ConversationParticipant,
+  MESSAGES_PAGE_SIZE
+} from '@/integrations/supabase/functions';
+import { conversationTitle, formatMessageTime, otherParticipants } from '@/lib/messages';
+import { getErrorMessage } from '@/lib/errors';
+
+type Message = Tables<'messages'>;
+
+const Conversation: React.FC = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [content, setContent] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      toast.error('Você precisa estar logado para ver suas mensagens');
+    }
+  }, [user, authLoading, navigate]);
+
+  const { data: conversation, isPending, isError } = useQuery({
+    queryKey: ['conversations', 'detail', conversationId],
+    queryFn: () => getConversation(conversationId!),
+    enabled: !!user && !!conversationId,
+  });
+
+  useEffect(() => {
+    if (conversation) setParticipants(conversation.participants);
+  }, [conversation]);
+
+  const markAsRead = useCallback(async () => {
+    if (!userId || !conversationId) return;
+
+    try {
+      await markConversationAsRead(conversationId, userId);
+      queryClient.invalidateQueries({ queryKey: unreadMessagesQueryKey(userId) });
+    } catch (error) {
+      console.error('Erro ao marcar conversa como lida:', error);
+    }
+  }, [conversationId, userId, queryClient]);
+
+  useEffect(() => {
+    if (!userId || !conversationId) return;
+
+    const loadMessages = async () => {
+      try {
+        setIsLoadingMessages(true);
+        const data = await getMessages(conversationId);
+        setMessages(data);
+        setHasOlder(data.length === MESSAGES_PAGE_SIZE);
+        markAsRead();
+      } catch (error) {
+        console.error('Erro ao carregar mensagens:', error);
+        toast.error('Erro ao carregar mensagens', {
+          description: getErrorMessage(error),
+        });
+      } finally {
+        setIsLoadingMessages(false);
+      }
+    };
+
+    loadMessages();
+  }, [conversationId, userId, markAsRead]);
+
+  // Rolar para a mensagem mais recente quando chega ou é enviada uma mensagem
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [lastMessageId]);
+
+  useRealtimeSubscription('messages', (payload) => {
+    if (payload.eventType !== 'INSERT' || payload.new.conversation_id !== conversationId) return;
+
+    const message = payload.new;
+    setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+
+    if (message.sender_id !== user?.id) markAsRead();
+  }, !!user);
+
+  // Confirmações de leitura dos outros participantes
+  useRealtimeSubscription('conversation_participants', (payload) => {
+    if (payload.eventType !== 'UPDATE' || payload.new.conversation_id !== conversationId) return;
+
+    const updated = payload.new;
+    setParticipants(prev => prev.map(participant =>
+      participant.user_id === updated.user_id
+        ? { ...participant, last_read_at: updated.last_read_at }
+        : participant
+    ));
+  }, !!user);
+
+  const loadOlder = async () => {
+    if (!conversationId || messages.length === 0) return;
+
+    try {
+      setIsLoadingOlder(true);
+      const older = await getMessages(conversationId, messages[0].created_at || undefined);
+      setMessages(prev => [...older, ...prev]);
+      setHasOlder(older.length === MESSAGES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Erro ao carregar mensagens anteriores:', error);
+      toast.error('Erro ao carregar mensagens', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!user || !conversationId || !content.trim() || isSending) return;
+
+    try {
+      setIsSending(true);
+      const message = await sendMessage(conversationId, user.id, content.trim());
+      setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+      setContent('');
+    } catch (error) {
+      console.error('Erro ao enviar mensagem:', error);
+      toast.error('Erro ao enviar mensagem', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const others = otherParticipants(participants, user?.id);
+  const profilesById = new Map(participants.map(participant => [participant.user_id, participant.profile]));
+
+  // Recibo exibido abaixo da última mensagem enviada pelo usuário
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender_id === user?.id);
+  const readers = lastOwnMessage
+    ? others.filter(participant =>
+        participant.last_read_at && lastOwnMessage.created_at
+        && new Date(participant.last_read_at) >= new Date(lastOwnMessage.created_at)
+      )
+    : [];
+  const receiptText = !lastOwnMessage
+    ? ''
+    : conversation?.is_group
+      ? readers.length > 0 ? `Visto por ${readers.length}` : 'Enviada'
+      : readers.length > 0 ? 'Visto' : 'Enviada';
+
+  const renderMessages = () => {
+    if (authLoading || isPending || isLoadingMessages) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (isError || !conversation) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Conversa não encontrada.</p>
+          <Button variant="outline" size="sm" onClick={() => navigate('/messages')} className="mt-4">
+            Voltar para mensagens
+          </Button>
+        </div>
+      );
+    }
+
+    if (messages.length === 0) {
+      return (
+        <p className="text-center text-sm text-muted-foreground py-12">
+          Envie a primeira mensagem.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {hasOlder && (
+          <div className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={loadOlder} disabled={isLoadingOlder}>
+              {isLoadingOlder ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Carregar mensagens anteriores'}
+            </Button>
+          </div>
+        )}
+
+        {messages.map((message, index) => {
+          const isOwn = message.sender_id === user?.id;
+          const sender = profilesById.get(message.sender_id);
+          const showSender = conversation.is_group && !isOwn && messages[index - 1]?.sender_id !== message.sender_id;
+
+          return (
+            <div key={message.id} className={cn("flex flex-col", isOwn ? "items-end" : "items-start")}>
+              {showSender && (
+                <span className="text-xs text-muted-foreground ml-1 mb-0.5">
+                  {sender?.full_name || sender?.username || 'usuário'}
+                </span>
+              )}
+              <div
+                className={cn(
+                  "max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-line break-words",
+                  isOwn ? "bg-primary text-primary-foreground rounded-br-sm" : "bg-muted rounded-bl-sm"
+                )}
+              >
+                {message.content}
+              </div>
+              <span className="text-[10px] text-muted-foreground mt-0.5 mx-1">
+                {formatMessageTime(message.created_at)}
+                {message.id === lastOwnMessage?.id && ` · ${receiptText}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const headerProfile = others[0]?.profile;
+
+  return (
+    <PageTransition>
+      <div className="container max-w-md mx-auto flex flex-col h-screen">
+        <div className="flex items-center gap-2 py-3 border-b">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/messages')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          {conversation && (
+            conversation.is_group ? (
+              <>
+                <div className="h-9 w-9 rounded-full bg-primary/10 flex items-center justify-center">
+                  <Users className="h-4 w-4 text-primary" />
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{conversationTitle({ ...conversation, participants }, user?.id)}</p>
+                  <p className="text-xs text-muted-foreground">{participants.length} participantes</p>
+                </div>
+              </>
+            ) : (
+              <Link to={`/profile/${headerProfile?.username}`} className="flex items-center gap-2 min-w-0">
+                <Avatar className="h-9 w-9">
+                  <AvatarImage src={headerProfile?.avatar_url || undefined} alt={headerProfile?.username} />
+                  <AvatarFallback>{headerProfile?.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{conversationTitle({ ...conversation, participants }, user?.id)}</p>
+                  {headerProfile && (
+                    <p className="text-xs text-muted-foreground truncate">@{headerProfile.username}</p>
+                  )}
+                </div>
+              </Link>
+            )
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-4">
+          {renderMessages()}
+          <div ref={bottomRef} />
+        </div>
+
+        {conversation && (
+          <form onSubmit={handleSend} className="flex items-end gap-2 py-3 border-t">
+            <Textarea
+              placeholder="Escreva uma mensagem..."
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="min-h-[44px] max-h-32 resize-none"
+              maxLength={2000}
+              rows={1}
+            />
+            <Button
+              type="submit"
+              size="icon"
+              className="h-11 w-11 rounded-full shrink-0"
+              disabled={isSending || !content.trim()}
+            >
+              {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <SendHorizonal className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+      </div>
+    </PageTransition>
+  );
+};
+
+export default Conversation;
@@ -1,17 +1,34 @@
 
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import PageTransition from '@/components/layout/PageTransition';
 import BottomNav from '@/components/layout/BottomNav';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import PostForm from '@/components/post/PostForm';
+import DraftList from '@/components/post/DraftList';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { getPostDraft } from '@/integrations/supabase/functions';
+import { clearLocalDraft, loadLocalDraft } from '@/lib/drafts';
 
 const Create: React.FC = () => {
   const { user, isLoading } = useAuth();
   const navigate = useNavigate();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [searchParams] = useSearchParams();
+  const draftId = searchParams.get('draft');
+  // Recriar o formulário quando o rascunho aberto deixa de existir
+  const [formVersion, setFormVersion] = useState(0);
+
+  const { data: draft, isPending: isDraftPending } = useQuery({
+    queryKey: ['post_draft', draftId],
+    queryFn: () => getPostDraft(draftId!),
+    enabled: !!user && !!draftId,
+    gcTime: 0,
+  });
 
   if (isLoading) {
     return (
@@ -31,7 +48,38 @@ const Create: React.FC = () => {
       <main className="min-h-screen pb-20 px-4 bg-background text-foreground">
         <div className="max-w-md mx-auto pt-6">
           <h1 className="text-3xl font-bold mb-8 text-center">Criar Publicação</h1>
-          <PostForm />
+          {draftId && isDraftPending ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : draftId && !draft ? (
+            <div className="text-center py-16">
+              <p className="font-medium">Rascunho não encontrado</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Ele pode ter sido excluído ou já publicado.
+              </p>
+              <Button variant="outline" className="mt-4" asChild>
+                <Link to="/create" replace>Nova publicação</Link>
+              </Button>
+            </div>
+          ) : (
+            <PostForm key={`${draftId ?? 'new'}:${formVersion}`} draft={draft} />
+          )}
+
+          <div className="mt-10">
+            <DraftList
+              activeDraftId={draftId}
+              onDeleted={(deletedId) => {
+                if (loadLocalDraft(user.id)?.draftId === deletedId) {
+                  clearLocalDraft(user.id);
+                  setFormVersion(version => version + 1);
+                }
+                if (deletedId === draftId) {
+                  navigate('/create', { replace: true });
+                }
+              }}
+            />
+          </div>
         </div>
         <BottomNav />
       </main>
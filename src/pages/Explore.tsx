@@ -7,10 +7,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { motion } from 'framer-motion';
 import { Search, RefreshCcw, AlertCircle } from 'lucide-react';
 import UserSearch from '@/components/search/UserSearch';
+import PostSearch from '@/components/search/PostSearch';
+import TrendingTags from '@/components/search/TrendingTags';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Skeleton } from "@/components/ui/skeleton";
 
 const Explore: React.FC = () => {
   const { user, isLoading } = useAuth();
@@ -126,6 +127,7 @@ const Explore: React.FC = () => {
           <Tabs defaultValue="users" className="w-full">
             <TabsList className="w-full mb-6 bg-black/60">
               <TabsTrigger value="users" className="flex-1 data-[state=active]:bg-gray-800 data-[state=active]:text-white">Usuários</TabsTrigger>
+              <TabsTrigger value="posts" className="flex-1 data-[state=active]:bg-gray-800 data-[state=active]:text-white">Publicações</TabsTrigger>
               <TabsTrigger value="trending" className="flex-1 data-[state=active]:bg-gray-800 data-[state=active]:text-white">Tendências</TabsTrigger>
             </TabsList>
             
@@ -133,13 +135,12 @@ const Explore: React.FC = () => {
               <UserSearch />
             </TabsContent>
             
+            <TabsContent value="posts" className="mt-2 px-3 pb-3">
+              <PostSearch />
+            </TabsContent>
+            
             <TabsContent value="trending" className="mt-2 px-3 pb-3">
-              <div className="space-y-4">
-                <Skeleton className="h-12 w-full bg-gray-800/50" />
-                <Skeleton className="h-12 w-full bg-gray-800/50" />
-                <Skeleton className="h-12 w-full bg-gray-800/50" />
-                <p className="text-muted-foreground text-center pt-4">Em breve: Tendências e tópicos populares</p>
-              </div>
+              <TrendingTags />
             </TabsContent>
           </Tabs>
         </Card>
@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button';
 import { LogOut, User, AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const Index: React.FC = () => {
   const { user, isLoading, signOut, profile, hasCompletedProfile } = useAuth();
@@ -150,7 +151,19 @@ const Index: React.FC = () => {
               </motion.div>
             )}
             
-            <FeedList onLoadStateChange={setFeedLoaded} />
+            <Tabs defaultValue="global" className="w-full max-w-xl mx-auto">
+              <TabsList className="w-full mb-4">
+                <TabsTrigger value="global" className="flex-1">Para você</TabsTrigger>
+                <TabsTrigger value="following" className="flex-1">Seguindo</TabsTrigger>
+              </TabsList>
+              
+              <TabsContent value="global">
+                <FeedList scope={{ type: 'global' }} onLoadStateChange={setFeedLoaded} />
+              </TabsContent>
+              <TabsContent value="following">
+                <FeedList scope={{ type: 'following', userId: user.id }} />
+              </TabsContent>
+            </Tabs>
           </div>
         ) : (
           <div className="flex items-center justify-center min-h-screen p-4 bg-background">
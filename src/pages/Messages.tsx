@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import NewConversationDialog from '@/components/messages/NewConversationDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { toast } from 'sonner';
+import { motion } from 'framer-motion';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Loader2, MessageCircle, PenSquare, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getConversations } from '@/integrations/supabase/functions';
+import { conversationTitle, formatMessageTime, otherParticipants } from '@/lib/messages';
+
+const conversationsQueryKey = (userId?: string) => ['conversations', 'list', userId ?? null];
+
+const Messages: React.FC = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isNewConversationOpen, setIsNewConversationOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      toast.error('Você precisa estar logado para ver suas mensagens');
+    }
+  }, [user, authLoading, navigate]);
+
+  const { data: conversations = [], isPending, isError, refetch } = useQuery({
+    queryKey: conversationsQueryKey(user?.id),
+    queryFn: getConversations,
+    enabled: !!user,
+  });
+
+  // Novas mensagens e leituras reordenam a caixa de entrada e atualizam os contadores
+  const refreshInbox = () => {
+    queryClient.invalidateQueries({ queryKey: conversationsQueryKey(user?.id) });
+  };
+
+  useRealtimeSubscription('messages', refreshInbox, !!user);
+  useRealtimeSubscription('conversation_participants', refreshInbox, !!user);
+
+  const renderContent = () => {
+    if (authLoading || isPending) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (isError) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">Não foi possível carregar suas conversas.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+            Tentar novamente
+          </Button>
+        </div>
+      );
+    }
+
+    if (conversations.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <MessageCircle className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">Nenhuma conversa ainda</p>
+          <Button variant="outline" size="sm" onClick={() => setIsNewConversationOpen(true)} className="mt-4">
+            Começar uma conversa
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-1">
+        {conversations.map(conversation => {
+          const others = otherParticipants(conversation.participants, user?.id);
+          const avatarProfile = others[0]?.profile;
+          const isOwnLastMessage = conversation.last_message?.sender_id === user?.id;
+          const hasUnread = conversation.unread_count > 0;
+
+          return (
+            <motion.button
+              key={conversation.id}
+              type="button"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              onClick={() => navigate(`/messages/${conversation.id}`)}
+              className="w-full flex items-center gap-3 p-3 rounded-lg text-left hover:bg-muted/50 transition-colors"
+            >
+              {conversation.is_group ? (
+                <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+                  <Users className="h-5 w-5 text-primary" />
+                </div>
+              ) : (
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={avatarProfile?.avatar_url || undefined} alt={avatarProfile?.username} />
+                  <AvatarFallback>{avatarProfile?.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+                </Avatar>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className={cn("text-sm truncate", hasUnread ? "font-semibold" : "font-medium")}>
+                    {conversationTitle(conversation, user?.id)}
+                  </p>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatMessageTime(conversation.last_message_at)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p className={cn(
+                    "text-sm truncate",
+                    hasUnread ? "text-foreground" : "text-muted-foreground"
+                  )}>
+                    {conversation.last_message
+                      ? `${isOwnLastMessage ? 'Você: ' : ''}${conversation.last_message.content}`
+                      : 'Nenhuma mensagem ainda'}
+                  </p>
+                  {hasUnread && (
+                    <span className="min-w-[20px] h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center shrink-0">
+                      {conversation.unread_count > 99 ? '99+' : conversation.unread_count}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </motion.button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <PageTransition>
+      <div className="container max-w-md mx-auto pb-20 pt-4">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold">Mensagens</h1>
+          <Button variant="ghost" size="icon" onClick={() => setIsNewConversationOpen(true)}>
+            <PenSquare className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {renderContent()}
+      </div>
+
+      <NewConversationDialog open={isNewConversationOpen} onOpenChange={setIsNewConversationOpen} />
+      <BottomNav />
+    </PageTransition>
+  );
+};
+
+export default Messages;
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import { useAuth } from '@/hooks/useAuth';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { ArrowLeft, Loader2, Moon, BellOff } from 'lucide-react';
+
+const NOTIFICATION_TYPES = [
+  { type: 'like', label: 'Curtidas', description: 'Quando alguém curte sua publicação' },
+  { type: 'comment', label: 'Comentários', description: 'Quando alguém comenta em sua publicação' },
+  { type: 'reply', label: 'Respostas', description: 'Quando alguém responde seu comentário' },
+  { type: 'follow', label: 'Novos seguidores', description: 'Quando alguém começa a seguir você' },
+  { type: 'follow_request', label: 'Solicitações para seguir', description: 'Quando alguém pede para seguir sua conta privada' },
+  { type: 'comment_like', label: 'Curtidas em comentários', description: 'Quando alguém curte seu comentário' },
+  { type: 'repost', label: 'Reposts', description: 'Quando alguém reposta sua publicação' },
+  { type: 'quote', label: 'Citações', description: 'Quando alguém cita sua publicação' },
+  { type: 'mention', label: 'Menções', description: 'Quando alguém menciona você em um comentário' },
+  { type: 'poll_closed', label: 'Enquetes encerradas', description: 'Quando uma enquete sua termina' },
+  { type: 'scheduled_post_published', label: 'Publicações agendadas', description: 'Quando uma publicação agendada é publicada' },
+];
+
+const DEFAULT_QUIET_START = '22:00';
+const DEFAULT_QUIET_END = '07:00';
+
+// O banco devolve "HH:MM:SS"; o input de horário trabalha com "HH:MM"
+const toInputTime = (time: string | null) => (time ? time.slice(0, 5) : '');
+
+const NotificationSettings: React.FC = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { preferences, isLoading, error, refetch, updatePreferences, setMuted, isSaving } = useNotificationPreferences();
+  const [quietStart, setQuietStart] = useState(DEFAULT_QUIET_START);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_QUIET_END);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      toast.error('Você precisa estar logado para configurar notificações');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (preferences?.quiet_hours_start && preferences?.quiet_hours_end) {
+      setQuietStart(toInputTime(preferences.quiet_hours_start));
+      setQuietEnd(toInputTime(preferences.quiet_hours_end));
+    }
+  }, [preferences?.quiet_hours_start, preferences?.quiet_hours_end]);
+
+  const mutedActorIds = preferences?.muted_actor_ids || [];
+  const mutedPostIds = preferences?.muted_post_ids || [];
+
+  const { data: mutedActors = [] } = useQuery({
+    queryKey: ['profiles', 'muted', mutedActorIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, full_name, avatar_url')
+        .in('id', mutedActorIds);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: mutedActorIds.length > 0,
+  });
+
+  const { data: mutedPosts = [] } = useQuery({
+    queryKey: ['posts', 'muted', mutedPostIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('id, content')
+        .in('id', mutedPostIds);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: mutedPostIds.length > 0,
+  });
+
+  const quietHoursEnabled = !!preferences?.quiet_hours_start && !!preferences?.quiet_hours_end;
+
+  const toggleType = (type: string, enabled: boolean) => {
+    if (!preferences) return;
+
+    const others = preferences.muted_types.filter(mutedType => mutedType !== type);
+    updatePreferences({ muted_types: enabled ? others : [...others, type] });
+  };
+
+  const toggleQuietHours = (enabled: boolean) => {
+    updatePreferences({
+      quiet_hours_start: enabled ? quietStart : null,
+      quiet_hours_end: enabled ? quietEnd : null,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'America/Sao_Paulo',
+    });
+  };
+
+  const saveQuietHours = () => {
+    if (!quietStart || !quietEnd || quietStart === quietEnd) {
+      toast.error('Escolha horários de início e fim diferentes');
+      return;
+    }
+
+    updatePreferences(
+      {
+        quiet_hours_start: quietStart,
+        quiet_hours_end: quietEnd,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'America/Sao_Paulo',
+      },
+      { onSuccess: () => toast.success('Horário de silêncio atualizado') }
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || isLoading) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error || !preferences) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">Não foi possível carregar suas preferências.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+            Tentar novamente
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <section>
+          <h2 className="font-semibold mb-3">Tipos de notificação</h2>
+          <div className="space-y-4">
+            {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+              <div key={type} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={`notification-type-${type}`}>{label}</Label>
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+                <Switch
+                  id={`notification-type-${type}`}
+                  checked={!preferences.muted_types.includes(type)}
+                  onCheckedChange={(checked) => toggleType(type, checked)}
+                  disabled={isSaving}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <Separator />
+
+        <section>
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <div>
+              <h2 className="font-semibold flex items-center">
+                <Moon className="h-4 w-4 mr-2" />
+                Horário de silêncio
+              </h2>
+              <p className="text-xs text-muted-foreground">
+                Notificações recebidas nesse período chegam como lidas e não aparecem no contador.
+              </p>
+            </div>
+            <Switch
+              checked={quietHoursEnabled}
+              onCheckedChange={toggleQuietHours}
+              disabled={isSaving}
+            />
+          </div>
+
+          {quietHoursEnabled && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="quiet-start" className="text-xs">Início</Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  value={quietStart}
+                  onChange={(e) => setQuietStart(e.target.value)}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor="quiet-end" className="text-xs">Fim</Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  value={quietEnd}
+                  onChange={(e) => setQuietEnd(e.target.value)}
+                  disabled={isSaving}
+                />
+              </div>
+              <Button variant="outline" onClick={saveQuietHours} disabled={isSaving}>
+                Salvar
+              </Button>
+            </div>
+          )}
+        </section>
+
+        <Separator />
+
+        <section>
+          <h2 className="font-semibold mb-3">Pessoas silenciadas</h2>
+          {mutedActorIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nenhuma pessoa silenciada. Use o menu de uma notificação para silenciar alguém.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {mutedActors.map(actor => (
+                <div key={actor.id} className="flex items-center gap-3">
+                  <Link to={`/profile/${actor.username}`} className="flex items-center gap-3 flex-1 min-w-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={actor.avatar_url || undefined} alt={actor.username} />
+                      <AvatarFallback>{actor.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{actor.full_name || actor.username}</p>
+                      <p className="text-xs text-muted-foreground truncate">@{actor.username}</p>
+                    </div>
+                  </Link>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMuted({ target: 'actor', targetId: actor.id, muted: false })}
+                    disabled={isSaving}
+                  >
+                    Reativar
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <Separator />
+
+        <section>
+          <h2 className="font-semibold mb-3">Publicações silenciadas</h2>
+          {mutedPostIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nenhuma publicação silenciada.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {mutedPostIds.map(postId => {
+                const post = mutedPosts.find(mutedPost => mutedPost.id === postId);
+
+                return (
+                  <div key={postId} className="flex items-center gap-3">
+                    <BellOff className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <Link to={`/post/${postId}`} className="flex-1 min-w-0 text-sm truncate hover:underline">
+                      {post ? post.content || 'Publicação com mídia' : 'Publicação removida'}
+                    </Link>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMuted({ target: 'post', targetId: postId, muted: false })}
+                      disabled={isSaving}
+                    >
+                      Reativar
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <PageTransition>
+      <div className="container max-w-md mx-auto pb-20 pt-4">
+        <div className="flex items-center mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/notifications')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold ml-2">Preferências de notificação</h1>
+        </div>
+
+        {renderContent()}
+      </div>
+      <BottomNav />
+    </PageTransition>
+  );
+};
+
+export default NotificationSettings;
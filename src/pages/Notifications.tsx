@@ -1,17 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import PageTransition from '@/components/layout/PageTransition';
 import BottomNav from '@/components/layout/BottomNav';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Bell, Heart, MessageSquare, UserPlus, Activity, Clock, CheckCheck, Loader2 } from 'lucide-react';
-import { getUserNotifications } from '@/integrations/supabase/functions';
+import { Bell, Heart, MessageSquare, UserPlus, Activity, Clock, CheckCheck, Loader2, Settings, MoreHorizontal, BellOff, Reply, ShieldAlert, UserCheck, Lock, Repeat2, Quote, BarChart3, CalendarCheck, CalendarX } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getUserNotifications,
+  getNotificationDetails,
+  markNotificationsAsRead,
+  markAllNotificationsAsRead,
+  getIncomingFollowRequests,
+  approveFollowRequest,
+  denyFollowRequest,
+  createNotification
+} from '@/integrations/supabase/functions';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { unreadNotificationsQueryKey } from '@/hooks/useUnreadNotifications';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { getErrorMessage } from '@/lib/errors';
 
 interface Notification {
   id: string;
@@ -32,13 +51,90 @@ interface Notification {
   };
 }
 
+// Notificações agrupadas: várias curtidas ou comentários na mesma publicação viram uma só linha
+interface NotificationGroup {
+  key: string;
+  type: string;
+  ids: string[];
+  unreadIds: string[];
+  actors: Notification['actor'][];
+  latest: Notification;
+  read: boolean;
+}
+
+// Tipos agrupados e o alvo usado para agrupar
+const GROUPABLE_TYPES: Record<string, 'post_id' | 'comment_id'> = {
+  like: 'post_id',
+  comment: 'post_id',
+  repost: 'post_id',
+  comment_like: 'comment_id',
+};
+
+const NOTIFICATIONS_LIMIT = 100;
+
+// Notificações que levam ao perfil de quem as gerou
+const PROFILE_NOTIFICATION_TYPES = ['follow', 'follow_request', 'follow_accepted'];
+
+// Espera as notificações ordenadas da mais recente para a mais antiga
+const groupNotifications = (notifications: Notification[]): NotificationGroup[] => {
+  const groups: NotificationGroup[] = [];
+  const groupsByKey = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const target = GROUPABLE_TYPES[notification.type];
+    const targetId = target ? notification[target] : undefined;
+    const key = targetId ? `${notification.type}:${targetId}` : notification.id;
+
+    let group = groupsByKey.get(key);
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        ids: [],
+        unreadIds: [],
+        actors: [],
+        latest: notification,
+        read: true,
+      };
+      groupsByKey.set(key, group);
+      groups.push(group);
+    }
+
+    group.ids.push(notification.id);
+    if (!notification.read) {
+      group.unreadIds.push(notification.id);
+      group.read = false;
+    }
+    if (!group.actors.some(actor => actor.id === notification.actor.id)) {
+      group.actors.push(notification.actor);
+    }
+  }
+
+  return groups;
+};
+
 const Notifications: React.FC = () => {
   const { user, isLoading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { setMuted } = useNotificationPreferences(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('all');
   const [error, setError] = useState<string | null>(null);
+  const [respondingRequestId, setRespondingRequestId] = useState<string | null>(null);
+
+  // Solicitações pendentes para seguir; as notificações de solicitação mostram os botões enquanto pendentes
+  const { data: followRequests = [] } = useQuery({
+    queryKey: ['follow_requests', 'incoming', user?.id ?? null],
+    queryFn: () => getIncomingFollowRequests(user!.id),
+    enabled: !!user,
+  });
+
+  const pendingRequestByActor = useMemo(
+    () => new Map(followRequests.map(request => [request.requester_id, request])),
+    [followRequests]
+  );
   
   useEffect(() => {
     if (!authLoading) {
@@ -49,7 +145,7 @@ const Notifications: React.FC = () => {
         fetchNotifications();
       }
     }
-  }, [user, authLoading, navigate, activeTab]);
+  }, [user, authLoading, navigate]);
   
   const fetchNotifications = async () => {
     if (!user) return;
@@ -59,18 +155,9 @@ const Notifications: React.FC = () => {
       setError(null);
       
       // Usar função utilitária para buscar notificações
-      const data = await getUserNotifications(user.id);
+      const data = await getUserNotifications(user.id, NOTIFICATIONS_LIMIT);
       
-      // Filtrar por lido/não lido se necessário
-      let filteredData = [...data];
-      if (activeTab === 'unread') {
-        filteredData = data.filter(notification => !notification.read);
-      } else if (activeTab === 'read') {
-        filteredData = data.filter(notification => notification.read);
-      }
-      
-      console.log('Notificações carregadas:', filteredData);
-      setNotifications(filteredData);
+      setNotifications(data);
     } catch (error: any) {
       console.error('Erro ao buscar notificações:', error);
       setError('Não foi possível carregar suas notificações. Tente novamente mais tarde.');
@@ -82,84 +169,179 @@ const Notifications: React.FC = () => {
     }
   };
   
-  const markAsRead = async (notificationId: string) => {
-    try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('id', notificationId)
-        .eq('user_id', user?.id);
-        
-      if (error) throw error;
-      
-      // Atualizar notificações localmente
-      setNotifications(prev => 
-        prev.map(notif => 
-          notif.id === notificationId ? { ...notif, read: true } : notif
+  // Novas notificações aparecem no topo sem recarregar a lista
+  useRealtimeSubscription('notifications', async (payload) => {
+    if (payload.eventType === 'INSERT') {
+      const notification = await getNotificationDetails(payload.new);
+      setNotifications(prev =>
+        prev.some(notif => notif.id === notification.id) ? prev : [notification, ...prev]
+      );
+    } else if (payload.eventType === 'UPDATE') {
+      setNotifications(prev =>
+        prev.map(notif =>
+          notif.id === payload.new.id ? { ...notif, read: !!payload.new.read } : notif
         )
       );
-    } catch (error: any) {
-      console.error('Erro ao marcar notificação como lida:', error);
-      toast.error('Erro ao atualizar notificação', {
-        description: error.message
-      });
+    } else if (payload.eventType === 'DELETE') {
+      setNotifications(prev => prev.filter(notif => notif.id !== payload.old.id));
     }
+  }, !!user);
+
+  // Filtrar por lido/não lido depois de agrupar, para que um grupo com novas curtidas apareça em "Não lidas"
+  const groups = useMemo(() => {
+    const grouped = groupNotifications(notifications);
+
+    if (activeTab === 'unread') return grouped.filter(group => !group.read);
+    if (activeTab === 'read') return grouped.filter(group => group.read);
+    return grouped;
+  }, [notifications, activeTab]);
+
+  const hasUnread = notifications.some(notification => !notification.read);
+
+  const markAsRead = async (notificationIds: string[]) => {
+    if (!user || notificationIds.length === 0) return;
+
+    const success = await markNotificationsAsRead(notificationIds, user.id);
+    
+    if (!success) {
+      toast.error('Erro ao atualizar notificação');
+      return;
+    }
+    
+    // Atualizar notificações localmente
+    setNotifications(prev => 
+      prev.map(notif => 
+        notificationIds.includes(notif.id) ? { ...notif, read: true } : notif
+      )
+    );
+    queryClient.invalidateQueries({ queryKey: unreadNotificationsQueryKey(user.id) });
   };
   
   const markAllAsRead = async () => {
-    try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('user_id', user?.id)
-        .eq('read', false);
-        
-      if (error) throw error;
-      
-      // Atualizar notificações localmente
-      setNotifications(prev => 
-        prev.map(notif => ({ ...notif, read: true }))
-      );
-      
-      toast.success('Todas as notificações marcadas como lidas');
-    } catch (error: any) {
-      console.error('Erro ao marcar todas as notificações como lidas:', error);
-      toast.error('Erro ao atualizar notificações', {
-        description: error.message
-      });
+    if (!user) return;
+
+    const success = await markAllNotificationsAsRead(user.id);
+    
+    if (!success) {
+      toast.error('Erro ao atualizar notificações');
+      return;
     }
+    
+    // Atualizar notificações localmente
+    setNotifications(prev => 
+      prev.map(notif => ({ ...notif, read: true }))
+    );
+    queryClient.invalidateQueries({ queryKey: unreadNotificationsQueryKey(user.id) });
+    
+    toast.success('Todas as notificações marcadas como lidas');
   };
   
-  const handleNotificationClick = (notification: Notification) => {
-    // Marcar como lida se não estiver
-    if (!notification.read) {
-      markAsRead(notification.id);
+  const handleNotificationClick = (group: NotificationGroup) => {
+    const notification = group.latest;
+
+    // Marcar o grupo inteiro como lido
+    if (!group.read) {
+      markAsRead(group.unreadIds);
     }
     
     // Navegar para a página apropriada com base no tipo de notificação
     if (notification.post_id) {
-      // Adicionar lógica para navegar para o post quando tivermos essa página
-      toast.info('Visualização de posts individuais será implementada em breve');
-    } else if (notification.type === 'follow') {
+      navigate(`/post/${notification.post_id}`);
+    } else if (PROFILE_NOTIFICATION_TYPES.includes(notification.type)) {
       // Navegar para o perfil do usuário que seguiu
       navigate(`/profile/${notification.actor?.username}`);
+    } else if (notification.type === 'scheduled_post_failed') {
+      navigate('/create');
     }
   };
   
-  const getNotificationText = (notification: Notification) => {
-    const actor = notification.actor?.username || 'Alguém';
+  const respondToFollowRequest = async (requestId: string, requesterId: string, approve: boolean) => {
+    if (!user) return;
+
+    try {
+      setRespondingRequestId(requestId);
+
+      if (approve) {
+        await approveFollowRequest(requestId);
+        await createNotification('follow_accepted', requesterId, user.id);
+        toast.success('Solicitação aprovada');
+      } else {
+        await denyFollowRequest(requestId);
+        toast.success('Solicitação recusada');
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['follow_requests'] });
+    } catch (error) {
+      console.error('Erro ao responder solicitação:', error);
+      toast.error('Não foi possível responder a solicitação', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setRespondingRequestId(null);
+    }
+  };
+
+  const muteActor = (actor: Notification['actor']) => {
+    setMuted(
+      { target: 'actor', targetId: actor.id, muted: true },
+      { onSuccess: () => toast.success(`Você não receberá mais notificações de @${actor.username}`) }
+    );
+  };
+
+  const mutePost = (postId: string) => {
+    setMuted(
+      { target: 'post', targetId: postId, muted: true },
+      { onSuccess: () => toast.success('Você não receberá mais notificações desta publicação') }
+    );
+  };
+
+  const getActorsText = (group: NotificationGroup) => {
+    const [first, second] = group.actors.map(actor => actor.username || 'Alguém');
+
+    if (group.actors.length === 1) return first;
+    if (group.actors.length === 2) return `${first} e ${second}`;
+
+    const others = group.actors.length - 1;
+    return `${first} e mais ${others} pessoas`;
+  };
+
+  const getNotificationText = (group: NotificationGroup) => {
+    const actor = getActorsText(group);
+    const plural = group.actors.length > 1;
     
-    switch (notification.type) {
+    switch (group.type) {
       case 'like':
-        return `${actor} curtiu sua publicação`;
+        return `${actor} ${plural ? 'curtiram' : 'curtiu'} sua publicação`;
       case 'comment':
-        return `${actor} comentou em sua publicação`;
+        return `${actor} ${plural ? 'comentaram' : 'comentou'} em sua publicação`;
       case 'follow':
         return `${actor} começou a seguir você`;
+      case 'follow_request':
+        return `${actor} pediu para seguir você`;
+      case 'follow_accepted':
+        return `${actor} aprovou sua solicitação para seguir`;
       case 'comment_like':
-        return `${actor} curtiu seu comentário`;
+        return `${actor} ${plural ? 'curtiram' : 'curtiu'} seu comentário`;
+      case 'repost':
+        return `${actor} ${plural ? 'repostaram' : 'repostou'} sua publicação`;
+      case 'quote':
+        return `${actor} citou sua publicação`;
+      case 'poll_closed':
+        return 'Sua enquete foi encerrada. Veja o resultado';
+      case 'scheduled_post_published':
+        return 'Sua publicação agendada foi publicada';
+      case 'scheduled_post_failed':
+        return 'Não foi possível publicar uma publicação agendada. Ela voltou para os rascunhos';
       case 'mention':
         return `${actor} mencionou você em um comentário`;
+      case 'reply':
+        return `${actor} ${plural ? 'responderam' : 'respondeu'} seu comentário`;
+      case 'moderation_hidden':
+        return 'Um conteúdo seu foi ocultado pela moderação por violar as regras da comunidade';
+      case 'moderation_warning':
+        return 'Você recebeu uma advertência da moderação por violar as regras da comunidade';
+      case 'moderation_suspension':
+        return 'Sua conta foi suspensa temporariamente pela moderação';
       default:
         return `Nova notificação de ${actor}`;
     }
@@ -173,15 +355,67 @@ const Notifications: React.FC = () => {
         return <MessageSquare className="h-4 w-4 text-blue-500" />;
       case 'follow':
         return <UserPlus className="h-4 w-4 text-green-500" />;
+      case 'follow_request':
+        return <Lock className="h-4 w-4 text-green-500" />;
+      case 'follow_accepted':
+        return <UserCheck className="h-4 w-4 text-green-500" />;
       case 'comment_like':
         return <Heart className="h-4 w-4 text-purple-500" />;
+      case 'repost':
+        return <Repeat2 className="h-4 w-4 text-green-600" />;
+      case 'quote':
+        return <Quote className="h-4 w-4 text-green-600" />;
+      case 'poll_closed':
+        return <BarChart3 className="h-4 w-4 text-primary" />;
+      case 'scheduled_post_published':
+        return <CalendarCheck className="h-4 w-4 text-green-500" />;
+      case 'scheduled_post_failed':
+        return <CalendarX className="h-4 w-4 text-destructive" />;
       case 'mention':
         return <MessageSquare className="h-4 w-4 text-amber-500" />;
+      case 'reply':
+        return <Reply className="h-4 w-4 text-blue-500" />;
+      case 'moderation_hidden':
+      case 'moderation_warning':
+      case 'moderation_suspension':
+        return <ShieldAlert className="h-4 w-4 text-destructive" />;
       default:
         return <Bell className="h-4 w-4 text-primary" />;
     }
   };
   
+  // Aprovar ou recusar direto na notificação enquanto a solicitação estiver pendente
+  const renderFollowRequestActions = (group: NotificationGroup) => {
+    if (group.type !== 'follow_request') return null;
+
+    const request = pendingRequestByActor.get(group.latest.actor.id);
+    if (!request) return null;
+
+    const isResponding = respondingRequestId === request.id;
+
+    return (
+      <div className="flex gap-2 pt-1" onClick={(e) => e.stopPropagation()}>
+        <Button
+          size="sm"
+          className="h-7"
+          onClick={() => respondToFollowRequest(request.id, request.requester_id, true)}
+          disabled={isResponding}
+        >
+          {isResponding ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Aprovar'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7"
+          onClick={() => respondToFollowRequest(request.id, request.requester_id, false)}
+          disabled={isResponding}
+        >
+          Recusar
+        </Button>
+      </div>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('pt-BR', {
@@ -198,17 +432,22 @@ const Notifications: React.FC = () => {
       <div className="container max-w-md mx-auto pb-20 pt-4">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-bold">Notificações</h1>
-          {notifications.some(n => !n.read) && (
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={markAllAsRead}
-              className="text-xs"
-            >
-              <CheckCheck className="h-4 w-4 mr-1" />
-              Marcar todas como lidas
+          <div className="flex items-center">
+            {hasUnread && (
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                onClick={markAllAsRead}
+                className="text-xs"
+              >
+                <CheckCheck className="h-4 w-4 mr-1" />
+                Marcar todas como lidas
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => navigate('/settings/notifications')}>
+              <Settings className="h-4 w-4" />
             </Button>
-          )}
+          </div>
         </div>
         
         <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab} className="mb-4">
@@ -236,7 +475,7 @@ const Notifications: React.FC = () => {
               Tentar novamente
             </Button>
           </div>
-        ) : notifications.length === 0 ? (
+        ) : groups.length === 0 ? (
           <div className="text-center py-12">
             <Bell className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-muted-foreground">Você não tem notificações {activeTab !== 'all' && `${activeTab === 'unread' ? 'não lidas' : 'lidas'}`}</p>
@@ -248,43 +487,74 @@ const Notifications: React.FC = () => {
             transition={{ duration: 0.3 }}
           >
             <div className="space-y-1">
-              {notifications.map((notification) => (
+              {groups.map((group) => (
                 <motion.div
-                  key={notification.id}
+                  key={group.key}
                   initial={{ opacity: 0, y: 5 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ duration: 0.2 }}
-                  className={`p-3 rounded-lg cursor-pointer ${notification.read ? 'bg-background border border-border' : 'bg-primary/5 border border-primary/20'}`}
-                  onClick={() => handleNotificationClick(notification)}
+                  className={`p-3 rounded-lg cursor-pointer ${group.read ? 'bg-background border border-border' : 'bg-primary/5 border border-primary/20'}`}
+                  onClick={() => handleNotificationClick(group)}
                 >
                   <div className="flex items-center gap-3">
-                    <Avatar className="h-9 w-9">
-                      <AvatarImage 
-                        src={notification.actor?.avatar_url || undefined} 
-                        alt={notification.actor?.username || 'Usuário'} 
-                      />
-                      <AvatarFallback>
-                        {notification.actor?.username?.[0]?.toUpperCase() || 'U'}
-                      </AvatarFallback>
-                    </Avatar>
+                    <div className="relative">
+                      <Avatar className="h-9 w-9">
+                        <AvatarImage 
+                          src={group.latest.actor?.avatar_url || undefined} 
+                          alt={group.latest.actor?.username || 'Usuário'} 
+                        />
+                        <AvatarFallback>
+                          {group.latest.actor?.username?.[0]?.toUpperCase() || 'U'}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="absolute -bottom-1 -right-1 rounded-full bg-background p-0.5">
+                        {getNotificationIcon(group.type)}
+                      </span>
+                    </div>
                     <div className="flex-1 space-y-1">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-1">
-                          <p className="text-sm font-medium">{getNotificationText(notification)}</p>
-                          {!notification.read && (
+                          <p className="text-sm font-medium">{getNotificationText(group)}</p>
+                          {!group.read && (
                             <Badge variant="default" className="h-2 w-2 rounded-full p-0 bg-primary" />
                           )}
                         </div>
                         <span className="text-xs text-muted-foreground">
-                          {formatDate(notification.created_at)}
+                          {formatDate(group.latest.created_at)}
                         </span>
                       </div>
-                      {notification.post && (
+                      {group.latest.post && (
                         <p className="text-xs text-muted-foreground line-clamp-1">
-                          {notification.post.content}
+                          {group.latest.post.content}
                         </p>
                       )}
+                      {renderFollowRequestActions(group)}
                     </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        {group.latest.actor?.id && (
+                          <DropdownMenuItem onClick={() => muteActor(group.latest.actor)}>
+                            <BellOff className="mr-2 h-4 w-4" />
+                            <span>Silenciar @{group.latest.actor.username || 'usuário'}</span>
+                          </DropdownMenuItem>
+                        )}
+                        {group.latest.post_id && (
+                          <DropdownMenuItem onClick={() => mutePost(group.latest.post_id!)}>
+                            <BellOff className="mr-2 h-4 w-4" />
+                            <span>Silenciar esta publicação</span>
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => navigate('/settings/notifications')}>
+                          <Settings className="mr-2 h-4 w-4" />
+                          <span>Preferências de notificação</span>
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </motion.div>
               ))}
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import Post from '@/components/feed/Post';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  getPostById,
+  getRestrictedPostAudience,
+  getUserRepostedPostIds,
+  hasUserLikedPost,
+  isPlainRepost
+} from '@/integrations/supabase/functions';
+import type { PostWithProfile } from '@/integrations/supabase/utils';
+import { restrictedAudienceMessage, type PostAudience } from '@/lib/audience';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, AlertCircle, Lock, FileX, RefreshCcw, Loader2 } from 'lucide-react';
+
+type PostStatus = 'loading' | 'ready' | 'private' | 'not_found' | 'error';
+
+const PostDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [post, setPost] = useState<PostWithProfile | null>(null);
+  const [status, setStatus] = useState<PostStatus>('loading');
+  const [restrictedAudience, setRestrictedAudience] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (authLoading || !id) return;
+
+    const fetchPost = async () => {
+      try {
+        setStatus('loading');
+
+        const postData = await getPostById(id);
+
+        // Sem acesso, a publicação some da consulta; o banco diz se ela existe para outro público
+        if (!postData) {
+          const audience = await getRestrictedPostAudience(id);
+          setPost(null);
+          setRestrictedAudience(audience);
+          setStatus(audience ? 'private' : 'not_found');
+          return;
+        }
+
+        // O link de um repost leva à publicação original
+        if (isPlainRepost(postData)) {
+          if (postData.repost_of) {
+            navigate(`/post/${postData.repost_of.id}`, { replace: true });
+          } else {
+            setPost(null);
+            setStatus('not_found');
+          }
+          return;
+        }
+
+        const [hasLiked, repostedIds] = await Promise.all([
+          user ? hasUserLikedPost(user.id, postData.id) : false,
+          getUserRepostedPostIds(user?.id, [postData.id])
+        ]);
+
+        setPost({ ...postData, has_liked: hasLiked, has_reposted: repostedIds.includes(postData.id) });
+        setStatus('ready');
+      } catch (error) {
+        console.error('Erro ao carregar publicação:', error);
+        setStatus('error');
+      }
+    };
+
+    fetchPost();
+  }, [id, user, authLoading, refreshKey, navigate]);
+
+  const handleBack = () => {
+    if (window.history.length > 1) {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
+  const renderContent = () => {
+    if (authLoading || status === 'loading') {
+      return (
+        <div className="flex flex-col items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+          <p className="text-muted-foreground">Carregando publicação...</p>
+        </div>
+      );
+    }
+
+    if (status === 'error') {
+      return (
+        <Alert variant="default" className="bg-background border-primary/50">
+          <AlertCircle className="h-4 w-4 text-primary" />
+          <AlertTitle className="text-foreground">Ocorreu um erro</AlertTitle>
+          <AlertDescription className="text-muted-foreground">
+            Não foi possível carregar esta publicação. Verifique sua conexão e tente novamente.
+          </AlertDescription>
+          <Button
+            size="sm"
+            className="mt-2 bg-primary text-primary-foreground hover:bg-primary/90"
+            onClick={() => setRefreshKey(prev => prev + 1)}
+          >
+            <RefreshCcw className="mr-2 h-4 w-4" />
+            Tentar Novamente
+          </Button>
+        </Alert>
+      );
+    }
+
+    if (status === 'private') {
+      return (
+        <div className="text-center py-16">
+          <Lock className="h-10 w-10 mx-auto opacity-30" />
+          <p className="mt-4 font-medium">Esta publicação é restrita</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {restrictedAudienceMessage(restrictedAudience || '')}
+          </p>
+          <Button variant="outline" className="mt-4" asChild>
+            <Link to="/">Voltar ao início</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (status === 'not_found' || !post) {
+      return (
+        <div className="text-center py-16">
+          <FileX className="h-10 w-10 mx-auto opacity-30" />
+          <p className="mt-4 font-medium">Publicação não encontrada</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Ela pode ter sido removida pelo autor.
+          </p>
+          <Button variant="outline" className="mt-4" asChild>
+            <Link to="/">Voltar ao início</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <Post
+        id={post.id}
+        author={{
+          id: post.user_id,
+          name: post.profiles.full_name || post.profiles.username,
+          username: post.profiles.username,
+          avatar: post.profiles.avatar_url || 'https://via.placeholder.com/150',
+          verified: post.profiles.username?.toLowerCase() === 'outliersofc'
+        }}
+        content={post.content}
+        images={post.images || []}
+        media={post.media}
+        tags={post.tags || []}
+        audience={post.audience as PostAudience}
+        timestamp={new Date(post.created_at).toLocaleString('pt-BR', {
+          day: '2-digit',
+          month: '2-digit',
+          year: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit'
+        })}
+        createdAt={post.created_at}
+        updatedAt={post.updated_at}
+        hiddenAt={post.hidden_at}
+        likes={post.likes}
+        comments={post.comments}
+        reposts={post.reposts}
+        hasLiked={post.has_liked}
+        hasReposted={post.has_reposted}
+        quotedPost={post.repost_of}
+        hasPoll={post.has_poll}
+        defaultShowComments
+        onDeleted={() => navigate('/')}
+      />
+    );
+  };
+
+  return (
+    <PageTransition>
+      <main className="min-h-screen pb-20 bg-background text-foreground">
+        <div className="max-w-xl mx-auto px-4 pt-4">
+          <div className="flex items-center mb-4">
+            <Button variant="ghost" onClick={handleBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Voltar
+            </Button>
+            <h1 className="text-xl font-bold">Publicação</h1>
+          </div>
+
+          {renderContent()}
+        </div>
+
+        {user && <BottomNav />}
+      </main>
+    </PageTransition>
+  );
+};
+
+export default PostDetail;
@@ -0,0 +1,146 @@
+import React, { useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserBlocks } from '@/hooks/useUserBlocks';
+import CloseFriendsList from '@/components/follow/CloseFriendsList';
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { getUserBlocks } from '@/integrations/supabase/functions';
+
+type UserBlock = Awaited<ReturnType<typeof getUserBlocks>>[number];
+
+const PrivacySettings: React.FC = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { removeBlock, isSaving } = useUserBlocks();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/');
+      toast.error('Você precisa estar logado para configurar a privacidade');
+    }
+  }, [user, authLoading, navigate]);
+
+  const { data: blocks = [], isPending, isError, refetch } = useQuery({
+    queryKey: ['user_blocks', 'list', user?.id ?? null],
+    queryFn: () => getUserBlocks(user!.id),
+    enabled: !!user,
+  });
+
+  const blockedUsers = blocks.filter(block => block.kind === 'block');
+  const mutedUsers = blocks.filter(block => block.kind === 'mute');
+
+  const renderList = (list: UserBlock[], emptyText: string, actionLabel: string) => {
+    if (list.length === 0) {
+      return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {list.map(block => (
+          <div key={block.id} className="flex items-center gap-3">
+            <Link to={`/profile/${block.profile?.username}`} className="flex items-center gap-3 flex-1 min-w-0">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={block.profile?.avatar_url || undefined} alt={block.profile?.username} />
+                <AvatarFallback>{block.profile?.username?.[0]?.toUpperCase() || 'U'}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {block.profile?.full_name || block.profile?.username || 'Usuário'}
+                </p>
+                {block.profile && (
+                  <p className="text-xs text-muted-foreground truncate">@{block.profile.username}</p>
+                )}
+              </div>
+            </Link>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => removeBlock(block.blocked_id)}
+              disabled={isSaving}
+            >
+              {actionLabel}
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || isPending) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (isError) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">Não foi possível carregar suas configurações.</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="mt-4">
+            Tentar novamente
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <section>
+          <h2 className="font-semibold mb-1">Amigos próximos</h2>
+          <p className="text-xs text-muted-foreground mb-3">
+            Publicações para amigos próximos só aparecem para estas pessoas. Elas não são avisadas quando entram na lista.
+          </p>
+          <CloseFriendsList />
+        </section>
+
+        <Separator />
+
+        <section>
+          <h2 className="font-semibold mb-1">Contas bloqueadas</h2>
+          <p className="text-xs text-muted-foreground mb-3">
+            Vocês não podem ver o perfil, seguir, comentar, mencionar ou enviar mensagens um ao outro.
+          </p>
+          {renderList(blockedUsers, 'Nenhuma conta bloqueada.', 'Desbloquear')}
+        </section>
+
+        <Separator />
+
+        <section>
+          <h2 className="font-semibold mb-1">Contas silenciadas</h2>
+          <p className="text-xs text-muted-foreground mb-3">
+            As publicações e comentários dessas contas não aparecem para você. Elas não são avisadas.
+          </p>
+          {renderList(mutedUsers, 'Nenhuma conta silenciada.', 'Reativar')}
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <PageTransition>
+      <div className="container max-w-md mx-auto pb-20 pt-4">
+        <div className="flex items-center mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/profile')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold ml-2">Privacidade</h1>
+        </div>
+
+        {renderContent()}
+      </div>
+      <BottomNav />
+    </PageTransition>
+  );
+};
+
+export default PrivacySettings;
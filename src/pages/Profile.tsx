@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { getProfileStats } from '@/integrations/supabase/functions';
 import { useAuth } from '@/hooks/useAuth';
 import PageTransition from '@/components/layout/PageTransition';
 import BottomNav from '@/components/layout/BottomNav';
@@ -10,10 +11,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getPostsByUserId, getUserLikedPostIds, getSavedPostsByUserId } from '@/integrations/supabase/functions';
+import { useQueryClient } from '@tanstack/react-query';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { motion } from 'framer-motion';
-import Post from '@/components/feed/Post';
+import FeedList from '@/components/feed/FeedList';
+import MediaViewer from '@/components/feed/MediaViewer';
+import CollectionGrid from '@/components/collections/CollectionGrid';
 import { 
   Pencil, 
   User, 
@@ -27,13 +30,43 @@ import {
   Share2,
   BookmarkIcon,
   Grid3X3Icon,
-  Image as ImageIcon
+  Image as ImageIcon,
+  MoreHorizontal,
+  Ban,
+  VolumeX,
+  Volume2,
+  Settings,
+  Loader2,
+  Flag,
+  ShieldCheck,
+  Lock
 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import FollowButton from '@/components/follow/FollowButton';
 import FollowersDialog from '@/components/follow/FollowersDialog';
+import MessageButton from '@/components/messages/MessageButton';
+import { useUserBlocks } from '@/hooks/useUserBlocks';
+import { useModerator } from '@/hooks/useModerator';
+import ReportDialog from '@/components/moderation/ReportDialog';
 import BannerUpload from '@/components/profile/BannerUpload';
+import { getMediaAttachments } from '@/lib/media';
 
 interface ProfileType {
   id: string;
@@ -46,36 +79,20 @@ interface ProfileType {
   linkedin_url: string | null;
   website_url: string | null;
   is_public: boolean | null;
+  messages_mutuals_only: boolean;
   post_count: number;
   follower_count: number;
   following_count: number;
-}
-
-interface PostType {
-  id: string;
-  content: string;
-  images: string[] | null;
-  created_at: string;
-  profiles: {
-    username: string;
-    avatar_url: string | null;
-    full_name: string | null;
-  };
-  likes: number;
-  comments: number;
-  has_liked: boolean;
+  can_view_content: boolean;
 }
 
 const Profile: React.FC = () => {
   const { user, isLoading: authLoading } = useAuth();
   const navigate = useNavigate();
   const { username } = useParams<{ username: string }>();
+  const queryClient = useQueryClient();
   const [profileData, setProfileData] = useState<ProfileType | null>(null);
   const [isProfileLoading, setIsProfileLoading] = useState(true);
-  const [userPosts, setUserPosts] = useState<PostType[]>([]);
-  const [savedPosts, setSavedPosts] = useState<PostType[]>([]);
-  const [isPostsLoading, setIsPostsLoading] = useState(true);
-  const [isSavedPostsLoading, setIsSavedPostsLoading] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [isOwnProfile, setIsOwnProfile] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
@@ -83,16 +100,19 @@ const Profile: React.FC = () => {
   const [loadError, setLoadError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('posts');
   const [isFullImageOpen, setIsFullImageOpen] = useState(false);
+  const [isBlockConfirmOpen, setIsBlockConfirmOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const { isModerator } = useModerator();
+  const { isBlocked, isBlockedBy, isMuted, setBlock, removeBlock, isSaving: isBlockSaving } = useUserBlocks();
 
   useEffect(() => {
     console.log('Profile page load state:', { 
       authLoading, 
       isProfileLoading, 
-      isPostsLoading,
       username: username || 'own profile'
     });
     
-    if (isProfileLoading || isPostsLoading) {
+    if (isProfileLoading) {
       const timer = setTimeout(() => {
         setShowLoadingHelp(true);
       }, 2000); // Reduced from 3000 to 2000 ms for faster feedback
@@ -101,7 +121,7 @@ const Profile: React.FC = () => {
     } else {
       setShowLoadingHelp(false);
     }
-  }, [isProfileLoading, isPostsLoading, authLoading]);
+  }, [isProfileLoading, authLoading]);
 
   useEffect(() => {
     if (!authLoading) {
@@ -128,26 +148,7 @@ const Profile: React.FC = () => {
           }
         };
         
-        const loadPosts = async () => {
-          let attempts = 2;
-          while (attempts >= 0) {
-            try {
-              await fetchUserPosts(user.id);
-              break; // Exit loop if successful
-            } catch (error) {
-              console.error(`Error loading posts (attempt ${2-attempts}/2):`, error);
-              if (attempts > 0) {
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                attempts--;
-              } else {
-                setIsPostsLoading(false);
-              }
-            }
-          }
-        };
-        
         loadProfile();
-        loadPosts();
       } else if (username) {
         console.log('Profile: Loading profile for username:', username);
         setIsOwnProfile(false);
@@ -178,12 +179,6 @@ const Profile: React.FC = () => {
     }
   }, [username, user, authLoading, navigate, refreshKey]);
 
-  useEffect(() => {
-    if (activeTab === 'saved' && user && !isSavedPostsLoading && savedPosts.length === 0) {
-      fetchSavedPosts(user.id);
-    }
-  }, [activeTab, user, savedPosts.length, isSavedPostsLoading]);
-
   const fetchProfile = async (userId: string) => {
     try {
       console.log('Profile: Starting to fetch profile data for userId:', userId);
@@ -207,60 +202,14 @@ const Profile: React.FC = () => {
       
       console.log('Profile: Successfully fetched profile data');
       
-      const countController = new AbortController();
-      const countTimeoutId = setTimeout(() => countController.abort(), 5000);
-      
-      let postCount = 0;
-      try {
-        const { count, error: postCountError } = await supabase
-          .from('posts')
-          .select('*', { count: 'exact', head: true })
-          .eq('user_id', userId);
-          
-        if (!postCountError) {
-          postCount = count || 0;
-        }
-      } catch (error) {
-        console.error('Error counting posts, using fallback:', error);
-      }
-      
-      let followerCount = 0;
-      try {
-        const { count, error: followerCountError } = await supabase
-          .from('follows')
-          .select('*', { count: 'exact', head: true })
-          .eq('following_id', userId);
-
-        if (!followerCountError) {
-          followerCount = count || 0;
-        }
-      } catch (error) {
-        console.error('Error counting followers, using fallback:', error);
-      }
-      
-      let followingCount = 0;
-      try {
-        const { count, error: followingCountError } = await supabase
-          .from('follows')
-          .select('*', { count: 'exact', head: true })
-          .eq('follower_id', userId);
-
-        if (!followingCountError) {
-          followingCount = count || 0;
-        }
-      } catch (error) {
-        console.error('Error counting following, using fallback:', error);
-      }
-      
-      clearTimeout(countTimeoutId);
+      // Contagens vêm do servidor: contas privadas escondem as linhas por trás delas
+      const stats = await getProfileStats(data.id);
       
-      console.log('Profile: User has', postCount, 'posts,', followerCount, 'followers and is following', followingCount, 'users');
+      console.log('Profile: User has', stats.post_count, 'posts,', stats.follower_count, 'followers and is following', stats.following_count, 'users');
       
       const completeProfile: ProfileType = {
         ...data,
-        post_count: postCount,
-        follower_count: followerCount,
-        following_count: followingCount,
+        ...stats,
         banner_url: data.banner_url || null
       };
       
@@ -312,66 +261,18 @@ const Profile: React.FC = () => {
         setIsOwnProfile(true);
       }
       
-      const countController = new AbortController();
-      const countTimeoutId = setTimeout(() => countController.abort(), 5000);
+      // Contagens vêm do servidor: contas privadas escondem as linhas por trás delas
+      const stats = await getProfileStats(data.id);
       
-      let postCount = 0;
-      try {
-        const { count, error: postCountError } = await supabase
-          .from('posts')
-          .select('*', { count: 'exact', head: true })
-          .eq('user_id', data.id);
-          
-        if (!postCountError) {
-          postCount = count || 0;
-        }
-      } catch (error) {
-        console.error('Error counting posts, using fallback:', error);
-      }
-      
-      let followerCount = 0;
-      try {
-        const { count, error: followerCountError } = await supabase
-          .from('follows')
-          .select('*', { count: 'exact', head: true })
-          .eq('following_id', data.id);
-
-        if (!followerCountError) {
-          followerCount = count || 0;
-        }
-      } catch (error) {
-        console.error('Error counting followers, using fallback:', error);
-      }
-      
-      let followingCount = 0;
-      try {
-        const { count, error: followingCountError } = await supabase
-          .from('follows')
-          .select('*', { count: 'exact', head: true })
-          .eq('follower_id', data.id);
-
-        if (!followingCountError) {
-          followingCount = count || 0;
-        }
-      } catch (error) {
-        console.error('Error counting following, using fallback:', error);
-      }
-      
-      clearTimeout(countTimeoutId);
-      
-      console.log('Profile: User has', postCount, 'posts,', followerCount, 'followers and is following', followingCount, 'users');
+      console.log('Profile: User has', stats.post_count, 'posts,', stats.follower_count, 'followers and is following', stats.following_count, 'users');
       
       const completeProfile: ProfileType = {
         ...data,
-        post_count: postCount,
-        follower_count: followerCount,
-        following_count: followingCount,
+        ...stats,
         banner_url: data.banner_url || null
       };
       
       setProfileData(completeProfile);
-      
-      fetchUserPosts(data.id);
     } catch (error: any) {
       console.error('Error fetching profile by username:', error);
       setLoadError(`Erro ao carregar perfil: ${error.message || 'Conexão falhou'}`);
@@ -384,101 +285,6 @@ const Profile: React.FC = () => {
     }
   };
 
-  const fetchUserPosts = async (userId: string) => {
-    try {
-      console.log('Profile: Starting to fetch posts for userId:', userId);
-      setIsPostsLoading(true);
-      
-      const postsData = await getPostsByUserId(userId);
-      console.log('Profile: Received posts data:', { 
-        postCount: postsData?.length || 0,
-        success: !!postsData 
-      });
-      
-      if (!postsData || postsData.length === 0) {
-        console.log('Profile: No posts found for this user');
-        setUserPosts([]);
-        setIsPostsLoading(false);
-        return;
-      }
-      
-      let enhancedPosts = [...postsData];
-      
-      if (user) {
-        console.log('Profile: Fetching liked posts for user');
-        try {
-          const likedPostIds = await getUserLikedPostIds(user.id);
-          console.log('Profile: User has liked', likedPostIds.length, 'posts');
-          
-          enhancedPosts = postsData.map(post => ({
-            ...post,
-            has_liked: likedPostIds.includes(post.id)
-          }));
-        } catch (error) {
-          console.error('Error fetching liked posts, continuing without like status:', error);
-        }
-      }
-      
-      setUserPosts(enhancedPosts as PostType[]);
-      console.log('Profile: Posts processing complete');
-    } catch (error: any) {
-      console.error('Error fetching user posts:', error);
-      setLoadError(`Erro ao carregar publicações: ${error.message || 'Conexão falhou'}`);
-      toast.error('Erro ao carregar publicações', {
-        description: error.message || 'Tente novamente mais tarde',
-      });
-    } finally {
-      setIsPostsLoading(false);
-    }
-  };
-
-  const fetchSavedPosts = async (userId: string) => {
-    try {
-      console.log('Profile: Starting to fetch saved posts for userId:', userId);
-      setIsSavedPostsLoading(true);
-      
-      const savedPostsData = await getSavedPostsByUserId(userId);
-      console.log('Profile: Received saved posts data:', { 
-        postCount: savedPostsData?.length || 0,
-        success: !!savedPostsData 
-      });
-      
-      if (!savedPostsData || savedPostsData.length === 0) {
-        console.log('Profile: No saved posts found for this user');
-        setSavedPosts([]);
-        setIsSavedPostsLoading(false);
-        return;
-      }
-      
-      let enhancedPosts = [...savedPostsData];
-      
-      if (user) {
-        console.log('Profile: Fetching liked posts for user');
-        try {
-          const likedPostIds = await getUserLikedPostIds(user.id);
-          console.log('Profile: User has liked', likedPostIds.length, 'posts');
-          
-          enhancedPosts = savedPostsData.map(post => ({
-            ...post,
-            has_liked: likedPostIds.includes(post.id)
-          }));
-        } catch (error) {
-          console.error('Error fetching liked posts, continuing without like status:', error);
-        }
-      }
-      
-      setSavedPosts(enhancedPosts as PostType[]);
-      console.log('Profile: Saved posts processing complete');
-    } catch (error: any) {
-      console.error('Error fetching saved posts:', error);
-      toast.error('Erro ao carregar publicações salvas', {
-        description: error.message || 'Tente novamente mais tarde',
-      });
-    } finally {
-      setIsSavedPostsLoading(false);
-    }
-  };
-
   const handleEditClick = () => {
     setIsEditMode(true);
   };
@@ -507,6 +313,33 @@ const Profile: React.FC = () => {
     }
   };
 
+  const handleBlock = () => {
+    if (!profileData) return;
+
+    setBlock(
+      { targetUserId: profileData.id, kind: 'block' },
+      {
+        onSuccess: () => {
+          setIsBlockConfirmOpen(false);
+          toast.success(`@${profileData.username} foi bloqueado`);
+        },
+      }
+    );
+  };
+
+  const handleToggleMute = () => {
+    if (!profileData) return;
+
+    if (isMuted(profileData.id)) {
+      removeBlock(profileData.id, { onSuccess: () => toast.success(`@${profileData.username} foi reativado`) });
+    } else {
+      setBlock(
+        { targetUserId: profileData.id, kind: 'mute' },
+        { onSuccess: () => toast.success(`Publicações de @${profileData.username} não aparecerão mais no seu feed`) }
+      );
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text).then(() => {
       toast.success('Link copiado para a área de transferência');
@@ -519,6 +352,7 @@ const Profile: React.FC = () => {
   const handleRefresh = () => {
     console.log('Profile: Refreshing page data');
     setRefreshKey(prevKey => prevKey + 1);
+    queryClient.invalidateQueries({ queryKey: ['posts'] });
     setShowLoadingHelp(false);
     setLoadError(null);
     
@@ -585,10 +419,19 @@ const Profile: React.FC = () => {
             </div>
             <ProfileForm initialData={profileData || undefined} onSuccess={handleProfileUpdated} />
           </div>
+        ) : profileData && !isOwnProfile && isBlockedBy(profileData.id) ? (
+          <div className="flex items-center justify-center min-h-screen">
+            <div className="text-center">
+              <p className="text-xl">Este perfil não está disponível</p>
+              <Button variant="link" asChild className="mt-4">
+                <Link to="/">Voltar ao início</Link>
+              </Button>
+            </div>
+          </div>
         ) : profileData ? (
           <div className="max-w-xl mx-auto">
             <div className="relative mb-4">
-              <div className="h-32 bg-gradient-to-r from-primary/20 to-primary/40 w-full relative">
+              <div className="aspect-[3/1] bg-gradient-to-r from-primary/20 to-primary/40 w-full relative">
                 {profileData.banner_url && (
                   <img 
                     src={profileData.banner_url} 
@@ -599,12 +442,17 @@ const Profile: React.FC = () => {
                 <BannerUpload 
                   userId={profileData.id} 
                   currentBanner={profileData.banner_url} 
+                  avatarUrl={profileData.avatar_url}
+                  username={profileData.username}
                   onBannerChange={handleBannerChange}
                 />
               </div>
               <div className="px-4">
                 <div className="flex justify-between -mt-16">
-                  <Avatar className="h-24 w-24 border-4 border-background cursor-pointer">
+                  <Avatar
+                    className="h-24 w-24 border-4 border-background cursor-pointer"
+                    onClick={() => profileData.avatar_url && setIsFullImageOpen(true)}
+                  >
                     <AvatarImage 
                       src={profileData.avatar_url || undefined} 
                       alt={profileData.username} 
@@ -616,18 +464,73 @@ const Profile: React.FC = () => {
                   
                   <div className="mt-16 flex gap-2">
                     {isOwnProfile ? (
-                      <Button variant="outline" onClick={handleEditClick}>
-                        Editar Perfil
-                      </Button>
+                      <>
+                        <Button variant="outline" onClick={handleEditClick}>
+                          Editar Perfil
+                        </Button>
+                        <Button variant="ghost" size="icon" asChild>
+                          <Link to="/settings/privacy">
+                            <Settings className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        {isModerator && (
+                          <Button variant="ghost" size="icon" asChild>
+                            <Link to="/admin/moderation">
+                              <ShieldCheck className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        )}
+                      </>
                     ) : (
-                      <FollowButton 
-                        targetUserId={profileData.id} 
-                        onFollowChange={handleFollowChange}
-                      />
+                      <>
+                        <FollowButton 
+                          targetUserId={profileData.id} 
+                          onFollowChange={handleFollowChange}
+                        />
+                        <MessageButton targetUserId={profileData.id} />
+                      </>
                     )}
                     <Button variant="ghost" size="icon" onClick={handleShare}>
                       <Share2 className="h-4 w-4" />
                     </Button>
+                    {!isOwnProfile && user && !isBlocked(profileData.id) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" disabled={isBlockSaving}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={handleToggleMute}>
+                            {isMuted(profileData.id) ? (
+                              <>
+                                <Volume2 className="mr-2 h-4 w-4" />
+                                <span>Reativar @{profileData.username}</span>
+                              </>
+                            ) : (
+                              <>
+                                <VolumeX className="mr-2 h-4 w-4" />
+                                <span>Silenciar @{profileData.username}</span>
+                              </>
+                            )}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setIsBlockConfirmOpen(true)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Ban className="mr-2 h-4 w-4" />
+                            <span>Bloquear @{profileData.username}</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setIsReportOpen(true)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Flag className="mr-2 h-4 w-4" />
+                            <span>Denunciar @{profileData.username}</span>
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </div>
                 </div>
                 
@@ -640,6 +543,9 @@ const Profile: React.FC = () => {
                         Oficial
                       </Badge>
                     )}
+                    {profileData.is_public === false && (
+                      <Lock className="h-4 w-4 text-muted-foreground" aria-label="Conta privada" />
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">@{profileData.username}</p>
                   {profileData.industry && (
@@ -656,6 +562,7 @@ const Profile: React.FC = () => {
                       username={profileData.username}
                       followersCount={profileData.follower_count}
                       followingCount={profileData.following_count}
+                      canViewConnections={profileData.can_view_content}
                     />
                   </div>
                   
@@ -685,6 +592,22 @@ const Profile: React.FC = () => {
               </div>
             </div>
             
+            {!isOwnProfile && isBlocked(profileData.id) ? (
+              <div className="text-center py-10 px-4">
+                <Ban className="h-10 w-10 mx-auto opacity-30" />
+                <p className="mt-4 text-muted-foreground">
+                  Você bloqueou @{profileData.username}. Desbloqueie para ver as publicações.
+                </p>
+              </div>
+            ) : !profileData.can_view_content ? (
+              <div className="text-center py-10 px-4">
+                <Lock className="h-10 w-10 mx-auto opacity-30" />
+                <p className="mt-4 font-medium">Esta conta é privada</p>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  Siga @{profileData.username} para ver as publicações e conexões.
+                </p>
+              </div>
+            ) : (
             <Tabs defaultValue="posts" value={activeTab} onValueChange={setActiveTab} className="w-full px-4">
               <TabsList className="w-full">
                 <TabsTrigger value="posts" className="flex-1">
@@ -698,136 +621,95 @@ const Profile: React.FC = () => {
               </TabsList>
               
               <TabsContent value="posts" className="mt-4">
-                {isPostsLoading ? (
-                  <div className="flex flex-col justify-center items-center py-10">
-                    <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mb-4" />
-                    <p className="text-muted-foreground">Carregando publicações...</p>
-                    
-                    {(showLoadingHelp || loadError) && (
-                      <div className="mt-8 max-w-md text-center">
-                        <Alert variant="default" className="bg-background border-primary/50">
-                          <AlertCircle className="h-4 w-4 text-primary" />
-                          <AlertTitle className="text-foreground">
-                            {loadError ? 'Ocorreu um erro' : 'Está demorando mais que o esperado'}
-                          </AlertTitle>
-                          <AlertDescription className="text-muted-foreground">
-                            {loadError || 'O sistema pode estar enfrentando dificuldades de conexão. Tente recarregar a página.'}
-                          </AlertDescription>
-                          <Button 
-                            size="sm" 
-                            className="mt-2 bg-primary text-primary-foreground hover:bg-primary/90"
-                            onClick={handleRefresh}
-                          >
-                            <RefreshCcw className="mr-2 h-4 w-4" />
-                            Tentar Novamente
-                          </Button>
-                        </Alert>
-                      </div>
-                    )}
-                  </div>
-                ) : userPosts.length > 0 ? (
-                  <div className="space-y-4">
-                    {userPosts.map((post, index) => (
-                      <motion.div
-                        key={post.id}
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                      >
-                        <Post 
-                          id={post.id}
-                          author={{
-                            name: post.profiles.full_name || post.profiles.username,
-                            username: post.profiles.username,
-                            avatar: post.profiles.avatar_url || 'https://via.placeholder.com/150',
-                            verified: post.profiles.username?.toLowerCase() === 'outliersofc'
-                          }}
-                          content={post.content}
-                          images={post.images || []}
-                          timestamp={new Date(post.created_at).toLocaleString('pt-BR', {
-                            day: '2-digit',
-                            month: '2-digit',
-                            year: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                          likes={post.likes}
-                          comments={post.comments}
-                          hasLiked={post.has_liked}
-                          onRefresh={() => setRefreshKey(prev => prev + 1)}
-                        />
-                      </motion.div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-center py-10">
-                    <Grid3X3Icon className="h-10 w-10 mx-auto opacity-30" />
-                    <p className="mt-4 text-muted-foreground">Nenhuma publicação para exibir</p>
-                    {isOwnProfile && (
-                      <Button variant="outline" className="mt-4" asChild>
-                        <Link to="/create">Criar sua primeira publicação</Link>
-                      </Button>
-                    )}
-                  </div>
-                )}
+                <FeedList
+                  scope={{ type: 'user', userId: profileData.id }}
+                  emptyState={
+                    <div className="text-center py-10">
+                      <Grid3X3Icon className="h-10 w-10 mx-auto opacity-30" />
+                      <p className="mt-4 text-muted-foreground">Nenhuma publicação para exibir</p>
+                      {isOwnProfile && (
+                        <Button variant="outline" className="mt-4" asChild>
+                          <Link to="/create">Criar sua primeira publicação</Link>
+                        </Button>
+                      )}
+                    </div>
+                  }
+                />
               </TabsContent>
               
               <TabsContent value="saved" className="mt-4">
                 {!isOwnProfile ? (
                   <div className="text-center py-10">
                     <BookmarkIcon className="h-10 w-10 mx-auto opacity-30" />
-                    <p className="mt-4 text-muted-foreground">Posts salvos são visíveis apenas para você</p>
-                  </div>
-                ) : isSavedPostsLoading ? (
-                  <div className="flex flex-col justify-center items-center py-10">
-                    <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mb-4" />
-                    <p className="text-muted-foreground">Carregando publicações salvas...</p>
-                  </div>
-                ) : savedPosts.length > 0 ? (
-                  <div className="space-y-4">
-                    {savedPosts.map((post, index) => (
-                      <motion.div
-                        key={post.id}
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                      >
-                        <Post 
-                          id={post.id}
-                          author={{
-                            name: post.profiles.full_name || post.profiles.username,
-                            username: post.profiles.username,
-                            avatar: post.profiles.avatar_url || 'https://via.placeholder.com/150',
-                            verified: post.profiles.username?.toLowerCase() === 'outliersofc'
-                          }}
-                          content={post.content}
-                          images={post.images || []}
-                          timestamp={new Date(post.created_at).toLocaleString('pt-BR', {
-                            day: '2-digit',
-                            month: '2-digit',
-                            year: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                          likes={post.likes}
-                          comments={post.comments}
-                          hasLiked={post.has_liked}
-                          onRefresh={() => setRefreshKey(prev => prev + 1)}
-                        />
-                      </motion.div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-center py-10">
-                    <BookmarkIcon className="h-10 w-10 mx-auto opacity-30" />
-                    <p className="mt-4 text-muted-foreground">Nenhum item salvo</p>
-                    <Button variant="outline" className="mt-4" asChild>
-                      <Link to="/explore">Explorar publicações</Link>
-                    </Button>
+                    <p className="mt-4 text-muted-foreground">Itens salvos são privados; coleções compartilhadas são abertas pelo link</p>
                   </div>
+                ) : user && (
+                  <>
+                    <CollectionGrid />
+                    <h2 className="font-semibold mt-6 mb-3">Todos os salvos</h2>
+                    <FeedList
+                      scope={{ type: 'saved', userId: user.id }}
+                      emptyState={
+                        <div className="text-center py-10">
+                          <BookmarkIcon className="h-10 w-10 mx-auto opacity-30" />
+                          <p className="mt-4 text-muted-foreground">Nenhum item salvo</p>
+                          <Button variant="outline" className="mt-4" asChild>
+                            <Link to="/explore">Explorar publicações</Link>
+                          </Button>
+                        </div>
+                      }
+                    />
+                  </>
                 )}
               </TabsContent>
             </Tabs>
+            )}
+
+            {profileData.avatar_url && (
+              <MediaViewer
+                media={getMediaAttachments([profileData.avatar_url]).map(attachment => ({
+                  ...attachment,
+                  alt: `Foto de perfil de @${profileData.username}`
+                }))}
+                startIndex={0}
+                open={isFullImageOpen}
+                onOpenChange={setIsFullImageOpen}
+              />
+            )}
+
+            {!isOwnProfile && user && (
+              <ReportDialog
+                open={isReportOpen}
+                onOpenChange={setIsReportOpen}
+                targetType="profile"
+                targetId={profileData.id}
+              />
+            )}
+
+            <AlertDialog open={isBlockConfirmOpen} onOpenChange={setIsBlockConfirmOpen}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Bloquear @{profileData.username}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Vocês deixarão de se seguir e não poderão ver o perfil, comentar, mencionar
+                    ou enviar mensagens um ao outro. A pessoa não será avisada.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isBlockSaving}>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleBlock();
+                    }}
+                    disabled={isBlockSaving}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    {isBlockSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Bloquear'}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           </div>
         ) : (
           <div className="flex items-center justify-center min-h-screen">
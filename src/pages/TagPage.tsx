@@ -0,0 +1,62 @@
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import PageTransition from '@/components/layout/PageTransition';
+import BottomNav from '@/components/layout/BottomNav';
+import FeedList from '@/components/feed/FeedList';
+import { useAuth } from '@/hooks/useAuth';
+import { normalizeTag } from '@/lib/tags';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Hash } from 'lucide-react';
+
+const TagPage: React.FC = () => {
+  const { name = '' } = useParams<{ name: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const tag = normalizeTag(decodeURIComponent(name));
+
+  const handleBack = () => {
+    if (window.history.length > 1) {
+      navigate(-1);
+    } else {
+      navigate('/explore');
+    }
+  };
+
+  return (
+    <PageTransition>
+      <main className="min-h-screen pb-20 bg-background text-foreground">
+        <div className="max-w-xl mx-auto px-4 pt-4">
+          <div className="flex items-center mb-4">
+            <Button variant="ghost" onClick={handleBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Voltar
+            </Button>
+            <h1 className="text-xl font-bold truncate">{tag || 'Tag'}</h1>
+          </div>
+
+          {tag ? (
+            <FeedList
+              key={tag}
+              scope={{ type: 'tag', tag }}
+              emptyState={
+                <div className="text-center py-16">
+                  <Hash className="h-10 w-10 mx-auto opacity-30" />
+                  <p className="mt-4 font-medium">Nenhuma publicação com {tag}</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Use essa tag em uma publicação para começar a conversa.
+                  </p>
+                </div>
+              }
+            />
+          ) : (
+            <p className="text-center text-muted-foreground py-16">Tag inválida</p>
+          )}
+        </div>
+
+        {user && <BottomNav />}
+      </main>
+    </PageTransition>
+  );
+};
+
+export default TagPage;
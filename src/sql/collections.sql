@@ -0,0 +1,103 @@
+-- Saved-post collections. Each saved post can belong to one of the user's named collections
+-- and carry a private note. Collections are private unless the owner shares them, in which
+-- case anyone with the link can see the collection and its items (still subject to the
+-- visibility of each post).
+CREATE TABLE IF NOT EXISTS public.collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 200),
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS collections_user_id_idx ON public.collections(user_id, created_at DESC);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners and link holders can see collections" ON public.collections;
+CREATE POLICY "Owners and link holders can see collections"
+  ON public.collections FOR SELECT
+  USING (auth.uid() = user_id OR is_shared);
+
+DROP POLICY IF EXISTS "Users manage their collections" ON public.collections;
+CREATE POLICY "Users manage their collections"
+  ON public.collections FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION touch_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collections_touch ON public.collections;
+CREATE TRIGGER collections_touch
+  BEFORE UPDATE ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_collection();
+
+-- Deleting a collection keeps its posts saved, just without a collection
+ALTER TABLE public.saved_posts
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+ALTER TABLE public.saved_posts
+  ADD COLUMN IF NOT EXISTS note TEXT CHECK (note IS NULL OR char_length(note) <= 500);
+
+CREATE INDEX IF NOT EXISTS saved_posts_collection_id_idx
+  ON public.saved_posts (collection_id, created_at DESC, id DESC)
+  WHERE collection_id IS NOT NULL;
+
+-- A post is saved once per user; saving again moves it between collections
+DELETE FROM public.saved_posts a
+  USING public.saved_posts b
+  WHERE a.user_id = b.user_id AND a.post_id = b.post_id AND a.created_at < b.created_at;
+
+CREATE UNIQUE INDEX IF NOT EXISTS saved_posts_user_id_post_id_key ON public.saved_posts (user_id, post_id);
+
+-- Moving an item or editing its note updates the row in place
+DROP POLICY IF EXISTS "Users can update their saved posts" ON public.saved_posts;
+CREATE POLICY "Users can update their saved posts"
+  ON public.saved_posts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Items of a shared collection are visible to everyone who can see the collection
+DROP POLICY IF EXISTS "Items of shared collections are visible" ON public.saved_posts;
+CREATE POLICY "Items of shared collections are visible"
+  ON public.saved_posts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.collections c
+      WHERE c.id = saved_posts.collection_id AND c.is_shared
+    )
+  );
+
+-- Saved posts can only go into the saver's own collections
+CREATE OR REPLACE FUNCTION validate_saved_post_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.collection_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.collections WHERE id = NEW.collection_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Coleção não encontrada';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS saved_posts_validate_collection ON public.saved_posts;
+CREATE TRIGGER saved_posts_validate_collection
+  BEFORE INSERT OR UPDATE OF collection_id ON public.saved_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_saved_post_collection();
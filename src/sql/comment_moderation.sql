@@ -0,0 +1,113 @@
+-- Editing and removing comments. A removed comment that still has replies is kept as a
+-- placeholder (deleted_at set, content cleared) so the thread below it is preserved.
+ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON public.comments(parent_id);
+
+-- Replies go away together with their placeholder when it is finally removed
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_parent_id_fkey;
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- Authors may only change the text of their own live comments
+DROP POLICY IF EXISTS "Authors can update their comments" ON public.comments;
+CREATE POLICY "Authors can update their comments"
+  ON public.comments FOR UPDATE
+  USING (auth.uid() = user_id AND deleted_at IS NULL)
+  WITH CHECK (auth.uid() = user_id AND deleted_at IS NULL);
+
+-- Comment authors and the author of the post can remove a comment
+DROP POLICY IF EXISTS "Authors and post owners can delete comments" ON public.comments;
+CREATE POLICY "Authors and post owners can delete comments"
+  ON public.comments FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = comments.post_id
+      AND p.user_id = auth.uid()
+    )
+  );
+
+-- Bump updated_at on edits and keep the thread structure immutable
+CREATE OR REPLACE FUNCTION touch_comment_on_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.post_id := OLD.post_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.user_id := OLD.user_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.content IS DISTINCT FROM OLD.content AND NEW.deleted_at IS NULL THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_touch_on_edit ON public.comments;
+CREATE TRIGGER comments_touch_on_edit
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_comment_on_edit();
+
+-- Remove a comment as its author or as the post author. Returns 'removed' when the comment
+-- became a placeholder because it has replies, 'deleted' when the row was deleted. Placeholders
+-- left without replies are cleaned up on the way up the thread.
+CREATE OR REPLACE FUNCTION delete_comment(target_comment_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.comments%ROWTYPE;
+  post_author_id UUID;
+  next_parent_id UUID;
+BEGIN
+  SELECT * INTO target FROM public.comments WHERE id = target_comment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comentário não encontrado';
+  END IF;
+
+  SELECT user_id INTO post_author_id FROM public.posts WHERE id = target.post_id;
+
+  IF auth.uid() IS NULL OR (auth.uid() <> target.user_id AND auth.uid() IS DISTINCT FROM post_author_id) THEN
+    RAISE EXCEPTION 'Sem permissão para excluir este comentário';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.comments WHERE parent_id = target.id) THEN
+    UPDATE public.comments
+    SET content = '', deleted_at = NOW(), deleted_by = auth.uid()
+    WHERE id = target.id;
+
+    DELETE FROM public.comment_likes WHERE comment_id = target.id;
+    DELETE FROM public.notifications WHERE comment_id = target.id;
+
+    RETURN 'removed';
+  END IF;
+
+  DELETE FROM public.comments WHERE id = target.id;
+  next_parent_id := target.parent_id;
+
+  WHILE next_parent_id IS NOT NULL LOOP
+    SELECT * INTO target FROM public.comments WHERE id = next_parent_id;
+
+    EXIT WHEN NOT FOUND
+      OR target.deleted_at IS NULL
+      OR EXISTS (SELECT 1 FROM public.comments WHERE parent_id = target.id);
+
+    DELETE FROM public.comments WHERE id = target.id;
+    next_parent_id := target.parent_id;
+  END LOOP;
+
+  RETURN 'deleted';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_comment(UUID) TO authenticated;
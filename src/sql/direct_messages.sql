@@ -0,0 +1,277 @@
+-- Direct messages: one-to-one and small group conversations
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS messages_mutuals_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  title TEXT,
+  is_group BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Read receipt: everything sent up to this moment has been seen by the participant
+  last_read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (CHAR_LENGTH(TRIM(content)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS conversation_participants_user_id_idx ON public.conversation_participants(user_id);
+CREATE INDEX IF NOT EXISTS messages_conversation_id_idx ON public.messages(conversation_id, created_at DESC);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so the participant policies can check membership without recursing into themselves
+CREATE OR REPLACE FUNCTION is_conversation_participant(target_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = target_conversation_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+-- Whether the caller may start a conversation with the target user
+CREATE OR REPLACE FUNCTION can_message(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    target_user_id = auth.uid()
+    OR NOT COALESCE((SELECT messages_mutuals_only FROM public.profiles WHERE id = target_user_id), FALSE)
+    OR (
+      EXISTS (SELECT 1 FROM public.follows WHERE follower_id = auth.uid() AND following_id = target_user_id)
+      AND EXISTS (SELECT 1 FROM public.follows WHERE follower_id = target_user_id AND following_id = auth.uid())
+    )
+  );
+$$;
+
+DROP POLICY IF EXISTS "Participants can view their conversations" ON public.conversations;
+CREATE POLICY "Participants can view their conversations"
+  ON public.conversations FOR SELECT
+  USING (is_conversation_participant(id));
+
+DROP POLICY IF EXISTS "Participants can view conversation members" ON public.conversation_participants;
+CREATE POLICY "Participants can view conversation members"
+  ON public.conversation_participants FOR SELECT
+  USING (is_conversation_participant(conversation_id));
+
+DROP POLICY IF EXISTS "Participants can update their read marker" ON public.conversation_participants;
+CREATE POLICY "Participants can update their read marker"
+  ON public.conversation_participants FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- The policy picks the rows; the grant limits the columns. Without it a user could point their
+-- own participant row at another conversation and read or post there.
+REVOKE UPDATE ON public.conversation_participants FROM anon, authenticated;
+GRANT UPDATE (last_read_at) ON public.conversation_participants TO authenticated;
+
+DROP POLICY IF EXISTS "Participants can view messages" ON public.messages;
+CREATE POLICY "Participants can view messages"
+  ON public.messages FOR SELECT
+  USING (is_conversation_participant(conversation_id));
+
+DROP POLICY IF EXISTS "Participants can send messages" ON public.messages;
+CREATE POLICY "Participants can send messages"
+  ON public.messages FOR INSERT
+  WITH CHECK (auth.uid() = sender_id AND is_conversation_participant(conversation_id));
+
+-- Keep the inbox ordering current and mark the sender's own message as read
+CREATE OR REPLACE FUNCTION handle_new_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = GREATEST(last_read_at, NEW.created_at)
+  WHERE conversation_id = NEW.conversation_id
+  AND user_id = NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_handle_new_message ON public.messages;
+CREATE TRIGGER messages_handle_new_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_message();
+
+-- Start a conversation with the given users (the caller is added automatically). A one-to-one
+-- conversation is reused when it already exists. Groups are limited to 8 people in total.
+CREATE OR REPLACE FUNCTION start_conversation(
+  participant_ids UUID[],
+  conversation_title TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  other_ids UUID[];
+  other_id UUID;
+  existing_id UUID;
+  new_conversation_id UUID;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'É necessário estar logado para enviar mensagens';
+  END IF;
+
+  SELECT ARRAY_AGG(DISTINCT participant_id) INTO other_ids
+  FROM UNNEST(participant_ids) AS participant_id
+  WHERE participant_id IS NOT NULL AND participant_id <> caller_id;
+
+  IF other_ids IS NULL OR CARDINALITY(other_ids) = 0 THEN
+    RAISE EXCEPTION 'Escolha pelo menos uma pessoa para conversar';
+  END IF;
+
+  IF CARDINALITY(other_ids) > 7 THEN
+    RAISE EXCEPTION 'Grupos podem ter no máximo 8 pessoas';
+  END IF;
+
+  FOREACH other_id IN ARRAY other_ids LOOP
+    IF NOT can_message(other_id) THEN
+      RAISE EXCEPTION 'Algumas pessoas só recebem mensagens de conexões mútuas';
+    END IF;
+  END LOOP;
+
+  IF CARDINALITY(other_ids) = 1 THEN
+    SELECT c.id INTO existing_id
+    FROM public.conversations c
+    JOIN public.conversation_participants mine ON mine.conversation_id = c.id AND mine.user_id = caller_id
+    JOIN public.conversation_participants theirs ON theirs.conversation_id = c.id AND theirs.user_id = other_ids[1]
+    WHERE NOT c.is_group
+    LIMIT 1;
+
+    IF existing_id IS NOT NULL THEN
+      RETURN existing_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.conversations (created_by, title, is_group)
+  VALUES (
+    caller_id,
+    CASE WHEN CARDINALITY(other_ids) > 1 THEN NULLIF(TRIM(conversation_title), '') END,
+    CARDINALITY(other_ids) > 1
+  )
+  RETURNING id INTO new_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT new_conversation_id, participant_id
+  FROM UNNEST(other_ids || caller_id) AS participant_id;
+
+  RETURN new_conversation_id;
+END;
+$$;
+
+-- Inbox rows for the caller: last message and how many messages from others are unread
+CREATE OR REPLACE FUNCTION conversation_summaries()
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  is_group BOOLEAN,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_sender_id UUID,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id,
+    c.title,
+    c.is_group,
+    c.last_message_at,
+    last_message.id,
+    last_message.content,
+    last_message.sender_id,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.messages m
+      WHERE m.conversation_id = c.id
+      AND m.sender_id <> auth.uid()
+      AND m.created_at > COALESCE(cp.last_read_at, '-infinity')
+    ) AS unread_count
+  FROM public.conversations c
+  JOIN public.conversation_participants cp ON cp.conversation_id = c.id AND cp.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.content, m.sender_id FROM public.messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON TRUE
+  ORDER BY c.last_message_at DESC NULLS LAST;
+$$;
+
+-- Number of conversations with unread messages, for the navigation badge
+CREATE OR REPLACE FUNCTION unread_conversations_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.conversation_participants cp
+  WHERE cp.user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.conversation_id = cp.conversation_id
+    AND m.sender_id <> auth.uid()
+    AND m.created_at > COALESCE(cp.last_read_at, '-infinity')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_conversation_participant(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_message(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_conversation(UUID[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION conversation_summaries() TO authenticated;
+GRANT EXECUTE ON FUNCTION unread_conversations_count() TO authenticated;
+
+-- Deliver new messages and read receipts through Realtime (policies above still apply)
+DO $$
+DECLARE
+  realtime_table TEXT;
+BEGIN
+  FOREACH realtime_table IN ARRAY ARRAY['messages', 'conversation_participants']
+  LOOP
+    IF NOT EXISTS (
+      SELECT FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = realtime_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Posts for the following feed: the caller's own posts and those of the accounts they follow.
+-- Filtering here keeps the request the same size however many accounts are followed; the
+-- client still orders, pages and filters on top of it. A plain SQL function running with the
+-- caller's rights, so Postgres inlines it (the feed ordering index keeps working) and the posts
+-- policies still decide what is visible.
+CREATE OR REPLACE FUNCTION following_feed_posts()
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  WHERE p.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid() AND f.following_id = p.user_id
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION following_feed_posts() TO authenticated;
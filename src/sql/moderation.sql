@@ -0,0 +1,321 @@
+-- Reports and moderation. Users report posts, comments or profiles; moderators resolve open
+-- reports by hiding the content, warning or suspending its author, or dismissing the report.
+-- Every decision is recorded in moderation_actions.
+
+-- Moderators are granted by inserting rows here from the SQL editor
+CREATE TABLE IF NOT EXISTS public.moderators (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.moderators WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION is_moderator() TO authenticated;
+
+DROP POLICY IF EXISTS "Moderators can see the moderator list" ON public.moderators;
+CREATE POLICY "Moderators can see the moderator list"
+  ON public.moderators FOR SELECT
+  USING (auth.uid() = user_id OR is_moderator());
+
+-- Moderation state on content and accounts
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE;
+
+-- Hidden content stays visible only to its author and to moderators. Restrictive policies are
+-- combined with AND, so this applies on top of the existing read policies.
+DROP POLICY IF EXISTS "Hidden posts are visible to authors and moderators" ON public.posts;
+CREATE POLICY "Hidden posts are visible to authors and moderators"
+  ON public.posts AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR auth.uid() = user_id OR is_moderator());
+
+DROP POLICY IF EXISTS "Hidden comments are visible to authors and moderators" ON public.comments;
+CREATE POLICY "Hidden comments are visible to authors and moderators"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR auth.uid() = user_id OR is_moderator());
+
+-- Authors can still edit their own rows, but only moderators change the moderation columns
+CREATE OR REPLACE FUNCTION protect_moderation_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_moderator() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'profiles' THEN
+    NEW.suspended_until := OLD.suspended_until;
+  ELSE
+    NEW.hidden_at := OLD.hidden_at;
+    NEW.hidden_by := OLD.hidden_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_protect_moderation ON public.posts;
+CREATE TRIGGER posts_protect_moderation
+  BEFORE UPDATE ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_moderation_columns();
+
+DROP TRIGGER IF EXISTS comments_protect_moderation ON public.comments;
+CREATE TRIGGER comments_protect_moderation
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_moderation_columns();
+
+DROP TRIGGER IF EXISTS profiles_protect_moderation ON public.profiles;
+CREATE TRIGGER profiles_protect_moderation
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_moderation_columns();
+
+-- Suspended accounts cannot post, comment or send messages. The trigger argument names the
+-- column holding the author of the new row.
+CREATE OR REPLACE FUNCTION prevent_suspended_write()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author_suspended_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT suspended_until INTO author_suspended_until
+  FROM public.profiles
+  WHERE id = (to_jsonb(NEW) ->> TG_ARGV[0])::UUID;
+
+  IF author_suspended_until IS NOT NULL AND author_suspended_until > NOW() THEN
+    RAISE EXCEPTION 'Sua conta está suspensa até %', to_char(author_suspended_until, 'DD/MM/YYYY HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_prevent_suspended ON public.posts;
+CREATE TRIGGER posts_prevent_suspended
+  BEFORE INSERT ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_write('user_id');
+
+DROP TRIGGER IF EXISTS comments_prevent_suspended ON public.comments;
+CREATE TRIGGER comments_prevent_suspended
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_write('user_id');
+
+DROP TRIGGER IF EXISTS messages_prevent_suspended ON public.messages;
+CREATE TRIGGER messages_prevent_suspended
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_suspended_write('sender_id');
+
+-- Reports
+CREATE TABLE IF NOT EXISTS public.reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'profile')),
+  target_id UUID NOT NULL,
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (
+    reason IN ('spam', 'harassment', 'hate', 'violence', 'nudity', 'self_harm', 'misinformation', 'other')
+  ),
+  details TEXT CHECK (char_length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution TEXT,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reports_status_created_at_idx ON public.reports(status, created_at);
+CREATE INDEX IF NOT EXISTS reports_target_idx ON public.reports(target_type, target_id);
+
+-- One open report per person and target
+CREATE UNIQUE INDEX IF NOT EXISTS reports_open_unique_idx
+  ON public.reports(reporter_id, target_type, target_id)
+  WHERE status = 'open';
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can report content" ON public.reports;
+CREATE POLICY "Users can report content"
+  ON public.reports FOR INSERT
+  WITH CHECK (auth.uid() = reporter_id);
+
+DROP POLICY IF EXISTS "Reporters and moderators can see reports" ON public.reports;
+CREATE POLICY "Reporters and moderators can see reports"
+  ON public.reports FOR SELECT
+  USING (auth.uid() = reporter_id OR is_moderator());
+
+-- Resolve the reported user from the target and keep the moderation fields server-controlled
+CREATE OR REPLACE FUNCTION prepare_report()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.target_user_id := CASE NEW.target_type
+    WHEN 'post' THEN (SELECT user_id FROM public.posts WHERE id = NEW.target_id)
+    WHEN 'comment' THEN (SELECT user_id FROM public.comments WHERE id = NEW.target_id)
+    WHEN 'profile' THEN (SELECT id FROM public.profiles WHERE id = NEW.target_id)
+  END;
+
+  IF NEW.target_user_id IS NULL THEN
+    RAISE EXCEPTION 'Conteúdo não encontrado';
+  END IF;
+
+  IF NEW.target_user_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'Você não pode denunciar seu próprio conteúdo';
+  END IF;
+
+  NEW.status := 'open';
+  NEW.resolution := NULL;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reports_prepare ON public.reports;
+CREATE TRIGGER reports_prepare
+  BEFORE INSERT ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_report();
+
+-- Audit trail of moderator decisions, written only by resolve_report
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  moderator_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'warn', 'suspend', 'dismiss')),
+  target_type TEXT NOT NULL,
+  target_id UUID NOT NULL,
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  suspended_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS moderation_actions_created_at_idx ON public.moderation_actions(created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Moderators can see the audit trail" ON public.moderation_actions;
+CREATE POLICY "Moderators can see the audit trail"
+  ON public.moderation_actions FOR SELECT
+  USING (is_moderator());
+
+-- Apply a decision to a report. Every open report about the same target is closed with it,
+-- and the reported user is notified of warnings, suspensions and hidden content.
+CREATE OR REPLACE FUNCTION resolve_report(
+  target_report_id UUID,
+  decision TEXT,
+  moderator_note TEXT DEFAULT NULL,
+  suspension_days INTEGER DEFAULT 7
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report public.reports%ROWTYPE;
+  report_post_id UUID;
+  new_suspended_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Apenas moderadores podem resolver denúncias';
+  END IF;
+
+  SELECT * INTO report FROM public.reports WHERE id = target_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Denúncia não encontrada';
+  END IF;
+
+  IF report.status <> 'open' THEN
+    RAISE EXCEPTION 'Esta denúncia já foi resolvida';
+  END IF;
+
+  IF decision NOT IN ('hide', 'warn', 'suspend', 'dismiss') THEN
+    RAISE EXCEPTION 'Decisão inválida: %', decision;
+  END IF;
+
+  report_post_id := CASE report.target_type
+    WHEN 'post' THEN report.target_id
+    WHEN 'comment' THEN (SELECT post_id FROM public.comments WHERE id = report.target_id)
+  END;
+
+  IF decision = 'hide' THEN
+    IF report.target_type = 'post' THEN
+      UPDATE public.posts SET hidden_at = NOW(), hidden_by = auth.uid() WHERE id = report.target_id;
+    ELSIF report.target_type = 'comment' THEN
+      UPDATE public.comments SET hidden_at = NOW(), hidden_by = auth.uid() WHERE id = report.target_id;
+    ELSE
+      RAISE EXCEPTION 'Perfis não podem ser ocultados; use advertência ou suspensão';
+    END IF;
+
+    INSERT INTO public.notifications (type, user_id, post_id, comment_id)
+    VALUES (
+      'moderation_hidden',
+      report.target_user_id,
+      report_post_id,
+      CASE WHEN report.target_type = 'comment' THEN report.target_id END
+    );
+  ELSIF decision = 'warn' THEN
+    INSERT INTO public.notifications (type, user_id, post_id)
+    VALUES ('moderation_warning', report.target_user_id, report_post_id);
+  ELSIF decision = 'suspend' THEN
+    IF suspension_days IS NULL OR suspension_days < 1 THEN
+      RAISE EXCEPTION 'A suspensão precisa ter pelo menos um dia';
+    END IF;
+
+    new_suspended_until := NOW() + make_interval(days => suspension_days);
+
+    UPDATE public.profiles
+    SET suspended_until = GREATEST(COALESCE(suspended_until, NOW()), new_suspended_until)
+    WHERE id = report.target_user_id;
+
+    INSERT INTO public.notifications (type, user_id)
+    VALUES ('moderation_suspension', report.target_user_id);
+  END IF;
+
+  UPDATE public.reports
+  SET status = CASE WHEN decision = 'dismiss' THEN 'dismissed' ELSE 'resolved' END,
+    resolution = decision,
+    resolved_by = auth.uid(),
+    resolved_at = NOW()
+  WHERE target_type = report.target_type
+  AND target_id = report.target_id
+  AND status = 'open';
+
+  INSERT INTO public.moderation_actions (
+    report_id, moderator_id, action, target_type, target_id, target_user_id, note, suspended_until
+  )
+  VALUES (
+    report.id, auth.uid(), decision, report.target_type, report.target_id, report.target_user_id,
+    NULLIF(trim(moderator_note), ''), new_suspended_until
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_report(UUID, TEXT, TEXT, INTEGER) TO authenticated;
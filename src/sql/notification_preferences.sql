@@ -0,0 +1,118 @@
+-- Per-user notification preferences: muted types, actors and posts plus an optional quiet-hours window
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  muted_types TEXT[] NOT NULL DEFAULT '{}',
+  muted_actor_ids UUID[] NOT NULL DEFAULT '{}',
+  muted_post_ids UUID[] NOT NULL DEFAULT '{}',
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Preferences are private: other users' notifications only meet them in the insert trigger below
+DROP POLICY IF EXISTS "Users can view their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can view their notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can create their notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update their notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Decide how a notification should be delivered to its recipient:
+--   'skip'    muted type, actor or post: the notification is never stored
+--   'silent'  inside quiet hours: stored already read, so it does not raise the unread badge
+--   'deliver' everything else
+CREATE OR REPLACE FUNCTION notification_delivery(
+  recipient_id UUID,
+  notification_type TEXT,
+  notification_actor_id UUID DEFAULT NULL,
+  notification_post_id UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prefs public.notification_preferences%ROWTYPE;
+  local_time TIME;
+BEGIN
+  SELECT * INTO prefs FROM public.notification_preferences WHERE user_id = recipient_id;
+
+  IF NOT FOUND THEN
+    RETURN 'deliver';
+  END IF;
+
+  IF notification_type = ANY(prefs.muted_types)
+    OR (notification_actor_id IS NOT NULL AND notification_actor_id = ANY(prefs.muted_actor_ids))
+    OR (notification_post_id IS NOT NULL AND notification_post_id = ANY(prefs.muted_post_ids))
+  THEN
+    RETURN 'skip';
+  END IF;
+
+  IF prefs.quiet_hours_start IS NOT NULL AND prefs.quiet_hours_end IS NOT NULL THEN
+    local_time := (NOW() AT TIME ZONE prefs.timezone)::TIME;
+
+    -- The window may cross midnight (e.g. 22:00 to 07:00)
+    IF (prefs.quiet_hours_start <= prefs.quiet_hours_end
+          AND local_time >= prefs.quiet_hours_start AND local_time < prefs.quiet_hours_end)
+      OR (prefs.quiet_hours_start > prefs.quiet_hours_end
+          AND (local_time >= prefs.quiet_hours_start OR local_time < prefs.quiet_hours_end))
+    THEN
+      RETURN 'silent';
+    END IF;
+  END IF;
+
+  RETURN 'deliver';
+END;
+$$;
+
+-- Internal to the trigger: called directly it would tell anyone whether the recipient muted
+-- them or a post, or is inside quiet hours
+REVOKE EXECUTE ON FUNCTION notification_delivery(UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Enforce the preferences for every insert. Moderation notices about the recipient's own content
+-- always arrive, whatever was muted and even during quiet hours.
+CREATE OR REPLACE FUNCTION apply_notification_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delivery TEXT;
+BEGIN
+  IF NEW.type LIKE 'moderation\_%' THEN
+    RETURN NEW;
+  END IF;
+
+  delivery := notification_delivery(NEW.user_id, NEW.type, NEW.actor_id, NEW.post_id);
+
+  IF delivery = 'skip' THEN
+    RETURN NULL;
+  END IF;
+
+  IF delivery = 'silent' THEN
+    NEW.read := TRUE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_apply_preferences ON public.notifications;
+CREATE TRIGGER notifications_apply_preferences
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_notification_preferences();
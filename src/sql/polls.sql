@@ -0,0 +1,251 @@
+-- Polls attached to posts. A poll has 2 to 4 options, a closing time and either single or
+-- multiple choice. Each user votes once: poll_voters holds one row per voter and poll, and
+-- votes are only cast through cast_poll_vote(). Counts are revealed to voters, to the author
+-- and to everyone once the poll closes.
+CREATE TABLE IF NOT EXISTS public.polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL UNIQUE REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  allows_multiple BOOLEAN NOT NULL DEFAULT FALSE,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set when the author was notified that the poll ended
+  closed_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS polls_pending_close_idx ON public.polls(closes_at) WHERE closed_notified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 80),
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_voters (
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (poll_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  poll_id UUID NOT NULL,
+  option_id UUID NOT NULL REFERENCES public.poll_options(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  PRIMARY KEY (option_id, user_id),
+  FOREIGN KEY (poll_id, user_id) REFERENCES public.poll_voters(poll_id, user_id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_voters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Polls and options follow the visibility of their post, which the posts policies decide
+DROP POLICY IF EXISTS "Polls are visible with their post" ON public.polls;
+CREATE POLICY "Polls are visible with their post"
+  ON public.polls FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.posts p WHERE p.id = polls.post_id));
+
+DROP POLICY IF EXISTS "Poll options are visible with their poll" ON public.poll_options;
+CREATE POLICY "Poll options are visible with their poll"
+  ON public.poll_options FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.polls pl WHERE pl.id = poll_options.poll_id));
+
+-- Who voted for what stays private; counts come from poll_results()
+DROP POLICY IF EXISTS "Users can see their own poll participation" ON public.poll_voters;
+CREATE POLICY "Users can see their own poll participation"
+  ON public.poll_voters FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can see their own poll votes" ON public.poll_votes;
+CREATE POLICY "Users can see their own poll votes"
+  ON public.poll_votes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- The rules every poll follows, shared by create_poll() and scheduled posts (post_drafts.sql).
+-- Returns the trimmed, non-empty labels.
+CREATE OR REPLACE FUNCTION validated_poll_options(option_labels TEXT[])
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  labels TEXT[];
+BEGIN
+  labels := ARRAY(SELECT btrim(label) FROM UNNEST(option_labels) AS label WHERE btrim(label) <> '');
+
+  IF CARDINALITY(labels) NOT BETWEEN 2 AND 4 THEN
+    RAISE EXCEPTION 'Uma enquete precisa de 2 a 4 opções';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT LOWER(label)) FROM UNNEST(labels) AS label) <> CARDINALITY(labels) THEN
+    RAISE EXCEPTION 'As opções da enquete precisam ser diferentes';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM UNNEST(labels) AS label WHERE char_length(label) > 80) THEN
+    RAISE EXCEPTION 'As opções da enquete podem ter no máximo 80 caracteres';
+  END IF;
+
+  RETURN labels;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_poll_duration(duration INTERVAL)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF duration IS NULL OR duration < INTERVAL '5 minutes' OR duration > INTERVAL '7 days' THEN
+    RAISE EXCEPTION 'A enquete precisa durar entre 5 minutos e 7 dias';
+  END IF;
+END;
+$$;
+
+-- Attach a poll to one of the caller's posts
+CREATE OR REPLACE FUNCTION create_poll(
+  target_post_id UUID,
+  option_labels TEXT[],
+  poll_closes_at TIMESTAMP WITH TIME ZONE,
+  poll_allows_multiple BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_poll_id UUID;
+  labels TEXT[];
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.posts WHERE id = target_post_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Publicação não encontrada';
+  END IF;
+
+  labels := validated_poll_options(option_labels);
+  PERFORM check_poll_duration(poll_closes_at - NOW());
+
+  INSERT INTO public.polls (post_id, user_id, allows_multiple, closes_at)
+  VALUES (target_post_id, auth.uid(), COALESCE(poll_allows_multiple, FALSE), poll_closes_at)
+  RETURNING id INTO new_poll_id;
+
+  INSERT INTO public.poll_options (poll_id, position, label)
+  SELECT new_poll_id, ordinality - 1, label
+  FROM UNNEST(labels) WITH ORDINALITY AS label;
+
+  RETURN new_poll_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_poll(UUID, TEXT[], TIMESTAMP WITH TIME ZONE, BOOLEAN) TO authenticated;
+
+-- Cast the caller's only vote; a second call fails on the poll_voters primary key
+CREATE OR REPLACE FUNCTION cast_poll_vote(target_poll_id UUID, option_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  poll public.polls%ROWTYPE;
+  chosen UUID[];
+BEGIN
+  SELECT * INTO poll FROM public.polls WHERE id = target_poll_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = poll.post_id
+    AND p.hidden_at IS NULL
+    AND can_view_post(p.user_id, p.audience)
+    AND can_view_profile_content(p.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Enquete não encontrada';
+  END IF;
+
+  IF poll.closes_at <= NOW() THEN
+    RAISE EXCEPTION 'Esta enquete já foi encerrada';
+  END IF;
+
+  chosen := ARRAY(SELECT DISTINCT UNNEST(option_ids));
+
+  IF CARDINALITY(chosen) = 0 OR (NOT poll.allows_multiple AND CARDINALITY(chosen) > 1) THEN
+    RAISE EXCEPTION 'Escolha uma opção válida';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll.id AND id = ANY(chosen)) <> CARDINALITY(chosen) THEN
+    RAISE EXCEPTION 'Escolha uma opção válida';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.poll_voters (poll_id, user_id) VALUES (poll.id, auth.uid());
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Você já votou nesta enquete';
+  END;
+
+  INSERT INTO public.poll_votes (poll_id, option_id, user_id)
+  SELECT poll.id, option_id, auth.uid() FROM UNNEST(chosen) AS option_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_poll_vote(UUID, UUID[]) TO authenticated;
+
+-- Vote counts per option, empty while the caller is not allowed to see them yet
+CREATE OR REPLACE FUNCTION poll_results(target_poll_id UUID)
+RETURNS TABLE (option_id UUID, vote_count BIGINT, voter_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    (SELECT COUNT(*) FROM public.poll_votes v WHERE v.option_id = o.id),
+    (SELECT COUNT(*) FROM public.poll_voters pv WHERE pv.poll_id = pl.id)
+  FROM public.polls pl
+  JOIN public.poll_options o ON o.poll_id = pl.id
+  WHERE pl.id = target_poll_id
+  -- Same visibility rules as voting: not hidden by moderators and readable by the caller
+  AND EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = pl.post_id
+    AND p.hidden_at IS NULL
+    AND can_view_post(p.user_id, p.audience)
+    AND can_view_profile_content(p.user_id)
+  )
+  AND (
+    pl.closes_at <= NOW()
+    OR pl.user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.poll_voters pv WHERE pv.poll_id = pl.id AND pv.user_id = auth.uid())
+  )
+  ORDER BY o.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION poll_results(UUID) TO anon, authenticated;
+
+-- Tell authors their polls ended; runs every minute through pg_cron
+CREATE OR REPLACE FUNCTION notify_closed_polls()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH closed AS (
+    UPDATE public.polls
+    SET closed_notified_at = NOW()
+    WHERE closed_notified_at IS NULL AND closes_at <= NOW()
+    RETURNING user_id, post_id
+  )
+  INSERT INTO public.notifications (type, user_id, post_id)
+  SELECT 'poll_closed', user_id, post_id FROM closed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_closed_polls() FROM PUBLIC;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('notify-closed-polls', '* * * * *', 'SELECT public.notify_closed_polls()');
@@ -0,0 +1,204 @@
+-- Post audiences. Each post is visible to one audience: everyone ('public'), the author's
+-- followers ('followers'), people the author follows back ('mutuals') or the author's close
+-- friends list ('close_friends'). posts.is_public is kept in sync for older readers.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS audience TEXT NOT NULL DEFAULT 'public';
+
+ALTER TABLE public.posts DROP CONSTRAINT IF EXISTS posts_audience_check;
+ALTER TABLE public.posts
+  ADD CONSTRAINT posts_audience_check CHECK (audience IN ('public', 'followers', 'mutuals', 'close_friends'));
+
+-- Posts marked private before audiences existed go to followers
+UPDATE public.posts SET audience = 'followers' WHERE is_public = FALSE AND audience = 'public';
+
+ALTER TABLE public.post_revisions ADD COLUMN IF NOT EXISTS audience TEXT;
+
+CREATE TABLE IF NOT EXISTS public.close_friends (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  friend_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, friend_id),
+  CHECK (user_id <> friend_id)
+);
+
+ALTER TABLE public.close_friends ENABLE ROW LEVEL SECURITY;
+
+-- The list is private to its owner; people are not told they were added
+DROP POLICY IF EXISTS "Users manage their close friends" ON public.close_friends;
+CREATE POLICY "Users manage their close friends"
+  ON public.close_friends FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Whether the caller belongs to the audience of a post
+CREATE OR REPLACE FUNCTION can_view_post(author_id UUID, post_audience TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT author_id = auth.uid()
+    OR is_moderator()
+    OR CASE post_audience
+      WHEN 'public' THEN TRUE
+      WHEN 'followers' THEN EXISTS (
+        SELECT 1 FROM public.follows WHERE follower_id = auth.uid() AND following_id = author_id
+      )
+      WHEN 'mutuals' THEN EXISTS (
+        SELECT 1 FROM public.follows WHERE follower_id = auth.uid() AND following_id = author_id
+      ) AND EXISTS (
+        SELECT 1 FROM public.follows WHERE follower_id = author_id AND following_id = auth.uid()
+      )
+      WHEN 'close_friends' THEN EXISTS (
+        SELECT 1 FROM public.close_friends WHERE user_id = author_id AND friend_id = auth.uid()
+      )
+      ELSE FALSE
+    END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_view_post(UUID, TEXT) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Posts are visible to their audience" ON public.posts;
+CREATE POLICY "Posts are visible to their audience"
+  ON public.posts AS RESTRICTIVE FOR SELECT
+  USING (can_view_post(user_id, audience));
+
+-- Audience of a post the caller cannot read, so the app can tell "restricted" from "deleted"
+CREATE OR REPLACE FUNCTION restricted_post_audience(target_post_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT audience FROM public.posts
+  WHERE id = target_post_id
+  AND hidden_at IS NULL
+  AND NOT (can_view_post(user_id, audience) AND can_view_profile_content(user_id));
+$$;
+
+GRANT EXECUTE ON FUNCTION restricted_post_audience(UUID) TO anon, authenticated;
+
+-- audience is the source of truth; is_public mirrors it
+CREATE OR REPLACE FUNCTION sync_post_is_public()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.is_public := NEW.audience = 'public';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_sync_is_public ON public.posts;
+CREATE TRIGGER posts_sync_is_public
+  BEFORE INSERT OR UPDATE OF audience ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_post_is_public();
+
+-- Archive audience changes together with the other edits
+CREATE OR REPLACE FUNCTION archive_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.images IS DISTINCT FROM OLD.images
+    OR NEW.tags IS DISTINCT FROM OLD.tags
+    OR NEW.audience IS DISTINCT FROM OLD.audience
+  THEN
+    INSERT INTO public.post_revisions (post_id, user_id, content, images, tags, is_public, audience, edited_at)
+    VALUES (
+      OLD.id, OLD.user_id, OLD.content, OLD.images, OLD.tags, OLD.is_public, OLD.audience,
+      COALESCE(OLD.updated_at, OLD.created_at)
+    );
+
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Revisions follow the visibility of their post, which the posts policies already decide
+DROP POLICY IF EXISTS "Revisions are visible with their post" ON public.post_revisions;
+CREATE POLICY "Revisions are visible with their post"
+  ON public.post_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.posts p WHERE p.id = post_revisions.post_id));
+
+-- Search used to keep only public posts; the audience policy now decides what the caller sees
+CREATE OR REPLACE FUNCTION search_posts(
+  search_query TEXT DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  filter_author_id UUID DEFAULT NULL,
+  date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  has_media BOOLEAN DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (id UUID, rank REAL, highlighted_content TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN COALESCE(TRIM(search_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('public.portuguese_unaccent', search_query)
+    END AS query
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN q.query IS NULL THEN 0::REAL
+      ELSE ts_rank_cd(to_tsvector('public.portuguese_unaccent', COALESCE(p.content, '')), q.query)
+    END AS rank,
+    CASE
+      WHEN q.query IS NULL THEN p.content
+      ELSE ts_headline(
+        'public.portuguese_unaccent',
+        p.content,
+        q.query,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"'
+      )
+    END AS highlighted_content
+  FROM public.posts p, q
+  WHERE (q.query IS NULL OR to_tsvector('public.portuguese_unaccent', COALESCE(p.content, '')) @@ q.query)
+    AND (
+      filter_tags IS NULL
+      OR CARDINALITY(filter_tags) = 0
+      OR ARRAY(SELECT LOWER(tag) FROM UNNEST(p.tags) AS tag) @> ARRAY(SELECT LOWER(tag) FROM UNNEST(filter_tags) AS tag)
+    )
+    AND (filter_author_id IS NULL OR p.user_id = filter_author_id)
+    AND (date_from IS NULL OR p.created_at >= date_from)
+    AND (date_to IS NULL OR p.created_at < date_to)
+    AND (
+      has_media IS NULL
+      OR (has_media AND CARDINALITY(COALESCE(p.images, '{}')) > 0)
+      OR (NOT has_media AND CARDINALITY(COALESCE(p.images, '{}')) = 0)
+    )
+  ORDER BY rank DESC, p.created_at DESC, p.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+-- The post count on a profile only includes posts the caller can see
+CREATE OR REPLACE FUNCTION profile_stats(target_user_id UUID)
+RETURNS TABLE (post_count BIGINT, follower_count BIGINT, following_count BIGINT, can_view_content BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COUNT(*) FROM public.posts p
+      WHERE p.user_id = target_user_id
+      AND (p.user_id = auth.uid() OR (can_view_post(p.user_id, p.audience) AND p.hidden_at IS NULL))
+    ),
+    (SELECT COUNT(*) FROM public.follows WHERE following_id = target_user_id),
+    (SELECT COUNT(*) FROM public.follows WHERE follower_id = target_user_id),
+    can_view_profile_content(target_user_id);
+$$;
@@ -0,0 +1,171 @@
+-- Drafts and scheduled posts. A draft holds everything the post form needs; setting
+-- scheduled_at turns it into a scheduled post that publish_scheduled_posts() creates once
+-- the time comes. Media is stored as already uploaded URLs. The poll, when there is one,
+-- is kept as {"options": [...], "duration_minutes": n, "allows_multiple": bool} and is
+-- created together with the post.
+CREATE TABLE IF NOT EXISTS public.post_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  images TEXT[] NOT NULL DEFAULT '{}',
+  -- Metadata for each of the images, see post_media.sql
+  media JSONB NOT NULL DEFAULT '[]',
+  tags TEXT[],
+  audience TEXT NOT NULL DEFAULT 'public' CHECK (audience IN ('public', 'followers', 'mutuals', 'close_friends')),
+  poll JSONB,
+  scheduled_at TIMESTAMP WITH TIME ZONE,
+  -- Why the last publishing attempt failed; the draft is unscheduled when that happens
+  publish_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS post_drafts_user_idx ON public.post_drafts(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS post_drafts_scheduled_idx ON public.post_drafts(scheduled_at) WHERE scheduled_at IS NOT NULL;
+
+ALTER TABLE public.post_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own drafts" ON public.post_drafts;
+CREATE POLICY "Users can manage their own drafts"
+  ON public.post_drafts FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- How long the draft's poll stays open, NULL when the duration is missing or not a number
+CREATE OR REPLACE FUNCTION draft_poll_duration(poll JSONB)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(poll -> 'duration_minutes') = 'number'
+      THEN make_interval(mins => (poll ->> 'duration_minutes')::NUMERIC::INT)
+  END
+$$;
+
+-- Option labels of the draft's poll, as written in the form
+CREATE OR REPLACE FUNCTION draft_poll_options(poll JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY(
+    SELECT jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(poll -> 'options') = 'array' THEN poll -> 'options' ELSE '[]' END
+    )
+  )
+$$;
+
+-- Scheduling needs a time in the future; editing a draft clears a previous publishing error.
+-- The poll duration is checked on every save. The options only once the draft is scheduled,
+-- since an unscheduled draft may hold a poll that is still being written; from then on the
+-- poll follows the same rules as create_poll(), so publishing cannot fail on it.
+CREATE OR REPLACE FUNCTION validate_post_draft()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.scheduled_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at)
+    AND NEW.scheduled_at < NOW() + INTERVAL '1 minute' THEN
+    RAISE EXCEPTION 'Escolha um horário no futuro para agendar a publicação';
+  END IF;
+
+  IF NEW.scheduled_at IS NOT NULL
+    AND btrim(NEW.content) = ''
+    AND CARDINALITY(NEW.images) = 0
+    AND NEW.poll IS NULL THEN
+    RAISE EXCEPTION 'Adicione texto ou mídia à publicação agendada';
+  END IF;
+
+  IF NEW.poll IS NOT NULL THEN
+    PERFORM check_poll_duration(draft_poll_duration(NEW.poll));
+
+    IF NEW.scheduled_at IS NOT NULL THEN
+      PERFORM validated_poll_options(draft_poll_options(NEW.poll));
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := NOW();
+    IF NEW.publish_error IS NOT DISTINCT FROM OLD.publish_error THEN
+      NEW.publish_error := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_drafts_validate ON public.post_drafts;
+CREATE TRIGGER post_drafts_validate
+  BEFORE INSERT OR UPDATE ON public.post_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_post_draft();
+
+-- Publish every scheduled post that is due. Each draft is handled on its own: a failure
+-- (suspended account, invalid poll...) keeps the draft, unschedules it and tells the author.
+-- Runs every minute through pg_cron.
+CREATE OR REPLACE FUNCTION publish_scheduled_posts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft public.post_drafts%ROWTYPE;
+  new_post_id UUID;
+  new_poll_id UUID;
+  poll_labels TEXT[];
+BEGIN
+  FOR draft IN
+    SELECT * FROM public.post_drafts
+    WHERE scheduled_at IS NOT NULL AND scheduled_at <= NOW()
+    ORDER BY scheduled_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      INSERT INTO public.posts (user_id, content, images, media, tags, audience)
+      VALUES (draft.user_id, draft.content, draft.images, draft.media, draft.tags, draft.audience)
+      RETURNING id INTO new_post_id;
+
+      -- Same checks as create_poll(), which needs auth.uid() and so cannot run here
+      IF draft.poll IS NOT NULL THEN
+        poll_labels := validated_poll_options(draft_poll_options(draft.poll));
+        PERFORM check_poll_duration(draft_poll_duration(draft.poll));
+
+        INSERT INTO public.polls (post_id, user_id, allows_multiple, closes_at)
+        VALUES (
+          new_post_id,
+          draft.user_id,
+          COALESCE((draft.poll ->> 'allows_multiple')::BOOLEAN, FALSE),
+          NOW() + draft_poll_duration(draft.poll)
+        )
+        RETURNING id INTO new_poll_id;
+
+        INSERT INTO public.poll_options (poll_id, position, label)
+        SELECT new_poll_id, ordinality - 1, label
+        FROM UNNEST(poll_labels) WITH ORDINALITY AS label;
+      END IF;
+
+      DELETE FROM public.post_drafts WHERE id = draft.id;
+
+      INSERT INTO public.notifications (type, user_id, post_id)
+      VALUES ('scheduled_post_published', draft.user_id, new_post_id);
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.post_drafts
+      SET scheduled_at = NULL, publish_error = SQLERRM
+      WHERE id = draft.id;
+
+      INSERT INTO public.notifications (type, user_id)
+      VALUES ('scheduled_post_failed', draft.user_id);
+    END;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_posts() FROM PUBLIC;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('publish-scheduled-posts', '* * * * *', 'SELECT public.publish_scheduled_posts()');
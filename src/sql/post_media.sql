@@ -0,0 +1,93 @@
+-- Typed media attachments. posts.images stays the ordered list of URLs that edits, revisions,
+-- search and storage cleanup already work with; posts.media holds one entry per URL:
+-- {"url", "kind": "image" | "video", "mime_type", "width", "height", "duration" (seconds),
+--  "poster_url", "placeholder", "alt"}. The trigger below keeps both in sync, so an edit that only
+-- reorders or removes images keeps the metadata of what is left. Rows from before this column
+-- get entries inferred from the URL the next time they are written; the client does the same
+-- when reading them.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE public.post_drafts ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]';
+
+-- Longest video accepted, in seconds. Keep in sync with MAX_VIDEO_DURATION in src/lib/media.ts
+CREATE OR REPLACE FUNCTION max_video_duration()
+RETURNS INT
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT 180 $$;
+
+-- One entry per URL, in the order of urls: the metadata given for that URL when there is
+-- any, otherwise just the kind guessed from the extension
+CREATE OR REPLACE FUNCTION build_post_media(urls TEXT[], media JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      COALESCE(
+        (
+          SELECT item
+          FROM jsonb_array_elements(CASE WHEN jsonb_typeof(media) = 'array' THEN media ELSE '[]' END) AS item
+          WHERE item ->> 'url' = u.url
+          LIMIT 1
+        ),
+        jsonb_build_object(
+          'url', u.url,
+          'kind', CASE WHEN u.url ~* '\.(mp4|webm|mov)(\?|$)' THEN 'video' ELSE 'image' END
+        )
+      )
+      ORDER BY u.position
+    ),
+    '[]'
+  )
+  FROM unnest(COALESCE(urls, '{}')) WITH ORDINALITY AS u(url, position)
+$$;
+
+CREATE OR REPLACE FUNCTION sync_post_media()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  item JSONB;
+BEGIN
+  -- A plain repost carries nothing but the reference. Nested so drafts, which have no
+  -- repost_of_id, never evaluate it.
+  IF TG_TABLE_NAME = 'posts' THEN
+    IF NEW.repost_of_id IS NOT NULL AND NEW.content = '' THEN
+      NEW.media := '[]';
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  NEW.media := build_post_media(NEW.images, NEW.media);
+
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.media)
+  LOOP
+    IF COALESCE(item ->> 'kind', '') NOT IN ('image', 'video') THEN
+      RAISE EXCEPTION 'Tipo de mídia inválido';
+    END IF;
+
+    IF length(item ->> 'alt') > 1000 THEN
+      RAISE EXCEPTION 'A descrição da mídia pode ter no máximo 1000 caracteres';
+    END IF;
+
+    IF item ->> 'kind' = 'video' AND (item ->> 'duration')::NUMERIC > max_video_duration() THEN
+      RAISE EXCEPTION 'Vídeos podem ter no máximo % segundos', max_video_duration();
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_sync_media ON public.posts;
+CREATE TRIGGER posts_sync_media
+  BEFORE INSERT OR UPDATE OF images, media, content ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_post_media();
+
+DROP TRIGGER IF EXISTS post_drafts_sync_media ON public.post_drafts;
+CREATE TRIGGER post_drafts_sync_media
+  BEFORE INSERT OR UPDATE OF images, media ON public.post_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_post_media();
@@ -0,0 +1,90 @@
+-- Edit history for posts: every edit stores the previous version in post_revisions
+CREATE TABLE IF NOT EXISTS public.post_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  images TEXT[],
+  tags TEXT[],
+  is_public BOOLEAN,
+  -- When this version was originally published (created_at or updated_at of the post at that time)
+  edited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS post_revisions_post_id_idx ON public.post_revisions(post_id, created_at DESC);
+
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are visible to whoever can see the post
+DROP POLICY IF EXISTS "Revisions are visible with their post" ON public.post_revisions;
+CREATE POLICY "Revisions are visible with their post"
+  ON public.post_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_revisions.post_id
+      AND (p.is_public IS DISTINCT FROM FALSE OR p.user_id = auth.uid())
+    )
+  );
+
+-- Archive the previous version and bump updated_at whenever the author edits a post
+CREATE OR REPLACE FUNCTION archive_post_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.images IS DISTINCT FROM OLD.images
+    OR NEW.tags IS DISTINCT FROM OLD.tags
+    OR NEW.is_public IS DISTINCT FROM OLD.is_public
+  THEN
+    INSERT INTO public.post_revisions (post_id, user_id, content, images, tags, is_public, edited_at)
+    VALUES (OLD.id, OLD.user_id, OLD.content, OLD.images, OLD.tags, OLD.is_public, COALESCE(OLD.updated_at, OLD.created_at));
+
+    NEW.updated_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_archive_revision ON public.posts;
+CREATE TRIGGER posts_archive_revision
+  BEFORE UPDATE ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION archive_post_revision();
+
+-- Deleting a post removes its likes, comments, saved entries and notifications
+ALTER TABLE public.likes DROP CONSTRAINT IF EXISTS likes_post_id_fkey;
+ALTER TABLE public.likes
+  ADD CONSTRAINT likes_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_post_id_fkey;
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.saved_posts DROP CONSTRAINT IF EXISTS saved_posts_post_id_fkey;
+ALTER TABLE public.saved_posts
+  ADD CONSTRAINT saved_posts_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.comment_likes DROP CONSTRAINT IF EXISTS comment_likes_comment_id_fkey;
+ALTER TABLE public.comment_likes
+  ADD CONSTRAINT comment_likes_comment_id_fkey FOREIGN KEY (comment_id) REFERENCES public.comments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_comment_id_fkey;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_comment_id_fkey FOREIGN KEY (comment_id) REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- Only authors can change or remove their posts
+DROP POLICY IF EXISTS "Authors can update their posts" ON public.posts;
+CREATE POLICY "Authors can update their posts"
+  ON public.posts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Authors can delete their posts" ON public.posts;
+CREATE POLICY "Authors can delete their posts"
+  ON public.posts FOR DELETE
+  USING (auth.uid() = user_id);
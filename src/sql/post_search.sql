@@ -0,0 +1,80 @@
+-- Portuguese full-text search over posts: accent-insensitive with stemming
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'portuguese_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION public.portuguese_unaccent (COPY = pg_catalog.portuguese);
+    ALTER TEXT SEARCH CONFIGURATION public.portuguese_unaccent
+      ALTER MAPPING FOR hword, hword_part, word
+      WITH unaccent, portuguese_stem;
+  END IF;
+END;
+$$;
+
+-- Expression index instead of a stored tsvector column, so post payloads stay small
+CREATE INDEX IF NOT EXISTS posts_content_search_idx
+  ON public.posts
+  USING GIN (to_tsvector('public.portuguese_unaccent', COALESCE(content, '')));
+
+CREATE INDEX IF NOT EXISTS posts_tags_idx ON public.posts USING GIN (tags);
+
+-- Search posts visible to the caller. Every filter is optional; without a query the results
+-- are ordered by date. highlighted_content wraps matched words in <mark></mark>.
+CREATE OR REPLACE FUNCTION search_posts(
+  search_query TEXT DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  filter_author_id UUID DEFAULT NULL,
+  date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  has_media BOOLEAN DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (id UUID, rank REAL, highlighted_content TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN COALESCE(TRIM(search_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('public.portuguese_unaccent', search_query)
+    END AS query
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN q.query IS NULL THEN 0::REAL
+      ELSE ts_rank_cd(to_tsvector('public.portuguese_unaccent', COALESCE(p.content, '')), q.query)
+    END AS rank,
+    CASE
+      WHEN q.query IS NULL THEN p.content
+      ELSE ts_headline(
+        'public.portuguese_unaccent',
+        p.content,
+        q.query,
+        'HighlightAll=true, StartSel="<mark>", StopSel="</mark>"'
+      )
+    END AS highlighted_content
+  FROM public.posts p, q
+  WHERE (p.is_public IS DISTINCT FROM FALSE OR p.user_id = auth.uid())
+    AND (q.query IS NULL OR to_tsvector('public.portuguese_unaccent', COALESCE(p.content, '')) @@ q.query)
+    AND (
+      filter_tags IS NULL
+      OR CARDINALITY(filter_tags) = 0
+      OR ARRAY(SELECT LOWER(tag) FROM UNNEST(p.tags) AS tag) @> ARRAY(SELECT LOWER(tag) FROM UNNEST(filter_tags) AS tag)
+    )
+    AND (filter_author_id IS NULL OR p.user_id = filter_author_id)
+    AND (date_from IS NULL OR p.created_at >= date_from)
+    AND (date_to IS NULL OR p.created_at < date_to)
+    AND (
+      has_media IS NULL
+      OR (has_media AND CARDINALITY(COALESCE(p.images, '{}')) > 0)
+      OR (NOT has_media AND CARDINALITY(COALESCE(p.images, '{}')) = 0)
+    )
+  ORDER BY rank DESC, p.created_at DESC, p.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_posts(TEXT, TEXT[], UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, BOOLEAN, INTEGER, INTEGER) TO anon, authenticated;
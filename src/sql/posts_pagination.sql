@@ -0,0 +1,13 @@
+-- Indexes backing keyset pagination over (created_at, id) in getPostsPage
+
+-- Global feed and following feed ordering
+CREATE INDEX IF NOT EXISTS posts_created_at_id_idx
+  ON public.posts (created_at DESC, id DESC);
+
+-- Profile posts tab
+CREATE INDEX IF NOT EXISTS posts_user_id_created_at_id_idx
+  ON public.posts (user_id, created_at DESC, id DESC);
+
+-- Saved posts tab, ordered by when the post was saved
+CREATE INDEX IF NOT EXISTS saved_posts_user_id_created_at_id_idx
+  ON public.saved_posts (user_id, created_at DESC, id DESC);
@@ -0,0 +1,208 @@
+-- Private accounts. When profiles.is_public is false, following the account creates a pending
+-- request that the owner approves or denies; until then posts, comments and connection lists
+-- of the account are hidden from the requester.
+CREATE TABLE IF NOT EXISTS public.follow_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requester_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (requester_id, target_id),
+  CHECK (requester_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS follow_requests_target_id_idx ON public.follow_requests(target_id, created_at DESC);
+
+ALTER TABLE public.follow_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Both sides can see follow requests" ON public.follow_requests;
+CREATE POLICY "Both sides can see follow requests"
+  ON public.follow_requests FOR SELECT
+  USING (auth.uid() = requester_id OR auth.uid() = target_id);
+
+DROP POLICY IF EXISTS "Users can request to follow" ON public.follow_requests;
+CREATE POLICY "Users can request to follow"
+  ON public.follow_requests FOR INSERT
+  WITH CHECK (auth.uid() = requester_id);
+
+-- The requester cancels, the owner denies
+DROP POLICY IF EXISTS "Both sides can remove follow requests" ON public.follow_requests;
+CREATE POLICY "Both sides can remove follow requests"
+  ON public.follow_requests FOR DELETE
+  USING (auth.uid() = requester_id OR auth.uid() = target_id);
+
+-- Whether the caller can see the posts and connections of a user
+CREATE OR REPLACE FUNCTION can_view_profile_content(owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT owner_id = auth.uid()
+    OR COALESCE((SELECT is_public FROM public.profiles WHERE id = owner_id), TRUE) IS DISTINCT FROM FALSE
+    OR EXISTS (SELECT 1 FROM public.follows WHERE follower_id = auth.uid() AND following_id = owner_id)
+    OR is_moderator();
+$$;
+
+GRANT EXECUTE ON FUNCTION can_view_profile_content(UUID) TO anon, authenticated;
+
+-- Requests only make sense for private accounts nobody blocked and the requester doesn't follow yet
+CREATE OR REPLACE FUNCTION validate_follow_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_blocked_between(NEW.requester_id, NEW.target_id) THEN
+    RAISE EXCEPTION 'Não é possível seguir este usuário';
+  END IF;
+
+  IF COALESCE((SELECT is_public FROM public.profiles WHERE id = NEW.target_id), TRUE) IS DISTINCT FROM FALSE THEN
+    RAISE EXCEPTION 'Esta conta é pública; siga diretamente';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = NEW.requester_id AND following_id = NEW.target_id
+  ) THEN
+    RAISE EXCEPTION 'Você já segue esta conta';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS follow_requests_validate ON public.follow_requests;
+CREATE TRIGGER follow_requests_validate
+  BEFORE INSERT ON public.follow_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_follow_request();
+
+-- Private accounts can only be followed through an approved request: the follow must be
+-- inserted by the account owner (approve_follow_request runs as them) while the request still
+-- exists. The requester can create the request row, so its presence alone proves nothing.
+CREATE OR REPLACE FUNCTION enforce_private_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE((SELECT is_public FROM public.profiles WHERE id = NEW.following_id), TRUE) IS NOT DISTINCT FROM FALSE
+    AND (
+      auth.uid() IS DISTINCT FROM NEW.following_id
+      OR NOT EXISTS (
+        SELECT 1 FROM public.follow_requests
+        WHERE requester_id = NEW.follower_id AND target_id = NEW.following_id
+      )
+    )
+  THEN
+    RAISE EXCEPTION 'Esta conta é privada; envie uma solicitação para seguir';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS follows_enforce_private ON public.follows;
+CREATE TRIGGER follows_enforce_private
+  BEFORE INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_private_follow();
+
+-- Approve a pending request addressed to the caller
+CREATE OR REPLACE FUNCTION approve_follow_request(target_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.follow_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request FROM public.follow_requests WHERE id = target_request_id;
+
+  IF NOT FOUND OR request.target_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Solicitação não encontrada';
+  END IF;
+
+  INSERT INTO public.follows (follower_id, following_id)
+  VALUES (request.requester_id, request.target_id)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.follow_requests WHERE id = request.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_follow_request(UUID) TO authenticated;
+
+-- Turning a private account public accepts every pending request
+CREATE OR REPLACE FUNCTION accept_requests_on_public()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_public IS NOT DISTINCT FROM FALSE AND NEW.is_public IS DISTINCT FROM FALSE THEN
+    INSERT INTO public.follows (follower_id, following_id)
+    SELECT requester_id, target_id
+    FROM public.follow_requests
+    WHERE target_id = NEW.id
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM public.follow_requests WHERE target_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_accept_requests_on_public ON public.profiles;
+CREATE TRIGGER profiles_accept_requests_on_public
+  AFTER UPDATE OF is_public ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION accept_requests_on_public();
+
+-- Restrictive policies are combined with AND, on top of the existing read policies
+DROP POLICY IF EXISTS "Private accounts' posts are visible to approved followers" ON public.posts;
+CREATE POLICY "Private accounts' posts are visible to approved followers"
+  ON public.posts AS RESTRICTIVE FOR SELECT
+  USING (can_view_profile_content(user_id));
+
+DROP POLICY IF EXISTS "Comments follow the visibility of their post" ON public.comments;
+CREATE POLICY "Comments follow the visibility of their post"
+  ON public.comments AS RESTRICTIVE FOR SELECT
+  USING (can_view_profile_content((SELECT p.user_id FROM public.posts p WHERE p.id = comments.post_id)));
+
+-- Connection lists of a private account are hidden, except for rows involving the caller
+DROP POLICY IF EXISTS "Private accounts' connections are visible to approved followers" ON public.follows;
+CREATE POLICY "Private accounts' connections are visible to approved followers"
+  ON public.follows AS RESTRICTIVE FOR SELECT
+  USING (
+    auth.uid() = follower_id
+    OR auth.uid() = following_id
+    OR (can_view_profile_content(follower_id) AND can_view_profile_content(following_id))
+  );
+
+-- Profile header numbers stay visible on private accounts even though the rows behind them are not
+CREATE OR REPLACE FUNCTION profile_stats(target_user_id UUID)
+RETURNS TABLE (post_count BIGINT, follower_count BIGINT, following_count BIGINT, can_view_content BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COUNT(*) FROM public.posts p
+      WHERE p.user_id = target_user_id
+      AND (p.user_id = auth.uid() OR (p.is_public IS DISTINCT FROM FALSE AND p.hidden_at IS NULL))
+    ),
+    (SELECT COUNT(*) FROM public.follows WHERE following_id = target_user_id),
+    (SELECT COUNT(*) FROM public.follows WHERE follower_id = target_user_id),
+    can_view_profile_content(target_user_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION profile_stats(UUID) TO anon, authenticated;
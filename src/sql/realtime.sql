@@ -0,0 +1,23 @@
+-- Publish the tables the client listens to through Supabase Realtime
+DO $$
+DECLARE
+  realtime_table TEXT;
+BEGIN
+  FOREACH realtime_table IN ARRAY ARRAY['posts', 'likes', 'comments', 'notifications']
+  LOOP
+    IF NOT EXISTS (
+      SELECT FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = realtime_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- DELETE events only carry the primary key by default; the client needs post_id and user_id
+-- to adjust like and comment counts, so keep the full old row
+ALTER TABLE public.likes REPLICA IDENTITY FULL;
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
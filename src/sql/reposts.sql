@@ -0,0 +1,118 @@
+-- Reposts and quotes. Both are posts pointing at the original through repost_of_id: a repost has
+-- no content of its own, a quote adds commentary. There is no foreign key so a quote keeps its
+-- reference (and can say so) after the original is deleted; plain reposts go away with it.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS repost_of_id UUID;
+
+CREATE INDEX IF NOT EXISTS posts_repost_of_id_idx ON public.posts(repost_of_id) WHERE repost_of_id IS NOT NULL;
+
+-- One plain repost per user and original
+CREATE UNIQUE INDEX IF NOT EXISTS posts_one_repost_per_user_idx
+  ON public.posts(user_id, repost_of_id)
+  WHERE repost_of_id IS NOT NULL AND content = '';
+
+-- Only public posts the caller can see can be reposted, so resharing never widens an audience.
+-- Reposting a repost points at the original instead.
+CREATE OR REPLACE FUNCTION validate_repost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original public.posts%ROWTYPE;
+BEGIN
+  IF NEW.repost_of_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO original FROM public.posts WHERE id = NEW.repost_of_id;
+
+  IF FOUND AND original.repost_of_id IS NOT NULL AND original.content = '' THEN
+    NEW.repost_of_id := original.repost_of_id;
+    SELECT * INTO original FROM public.posts WHERE id = NEW.repost_of_id;
+  END IF;
+
+  IF NOT FOUND OR original.hidden_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Publicação não encontrada';
+  END IF;
+
+  IF is_blocked_between(NEW.user_id, original.user_id) THEN
+    RAISE EXCEPTION 'Não é possível repostar esta publicação';
+  END IF;
+
+  IF original.audience <> 'public' OR NOT can_view_profile_content(original.user_id)
+    OR COALESCE((SELECT is_public FROM public.profiles WHERE id = original.user_id), TRUE) IS NOT DISTINCT FROM FALSE
+  THEN
+    RAISE EXCEPTION 'Apenas publicações públicas podem ser repostadas';
+  END IF;
+
+  -- A plain repost carries nothing but the reference
+  IF NEW.content = '' THEN
+    NEW.images := NULL;
+    NEW.tags := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_validate_repost ON public.posts;
+CREATE TRIGGER posts_validate_repost
+  BEFORE INSERT ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_repost();
+
+-- The reference is fixed once the post exists
+CREATE OR REPLACE FUNCTION protect_repost_reference()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.repost_of_id := OLD.repost_of_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_protect_repost_reference ON public.posts;
+CREATE TRIGGER posts_protect_repost_reference
+  BEFORE UPDATE OF repost_of_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_repost_reference();
+
+-- Deleting a post removes its plain reposts; quotes stay and show the original as unavailable
+CREATE OR REPLACE FUNCTION delete_reposts_of_post()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.posts WHERE repost_of_id = OLD.id AND content = '';
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_delete_reposts ON public.posts;
+CREATE TRIGGER posts_delete_reposts
+  AFTER DELETE ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_reposts_of_post();
+
+-- Number of reposts and quotes of each post in a page, including those by accounts the caller
+-- cannot see. Posts that were never reposted are left out.
+DROP FUNCTION IF EXISTS repost_count(UUID);
+
+CREATE OR REPLACE FUNCTION repost_counts(target_post_ids UUID[])
+RETURNS TABLE (post_id UUID, repost_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT repost_of_id, COUNT(*)
+  FROM public.posts
+  WHERE repost_of_id = ANY(target_post_ids) AND hidden_at IS NULL
+  GROUP BY repost_of_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION repost_counts(UUID[]) TO anon, authenticated;
@@ -0,0 +1,68 @@
+-- Tags are case-insensitive: store them as lowercase "#name" (the client normalizes new ones)
+UPDATE public.posts
+SET tags = ARRAY(
+  SELECT DISTINCT ON (normalized) normalized
+  FROM (
+    SELECT '#' || LOWER(REGEXP_REPLACE(REGEXP_REPLACE(tag, '^#+', ''), '\s+', '', 'g')) AS normalized, ordinality
+    FROM UNNEST(tags) WITH ORDINALITY AS t(tag, ordinality)
+  ) n
+  WHERE normalized <> '#'
+  ORDER BY normalized, ordinality
+)
+WHERE tags IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM UNNEST(tags) AS tag
+    WHERE tag <> '#' || LOWER(REGEXP_REPLACE(REGEXP_REPLACE(tag, '^#+', ''), '\s+', '', 'g'))
+  );
+
+CREATE INDEX IF NOT EXISTS posts_tags_idx ON public.posts USING GIN (tags);
+
+-- Trending tags over a sliding window. Each post counts less the older it is (exponential decay
+-- over the window) and the total is multiplied by the growth against the previous window, so a tag
+-- that is accelerating beats one with a large but flat volume.
+CREATE OR REPLACE FUNCTION trending_tags(
+  window_hours INTEGER DEFAULT 24,
+  result_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  tag TEXT,
+  recent_count INTEGER,
+  previous_count INTEGER,
+  velocity REAL,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH tagged AS (
+    SELECT
+      UNNEST(p.tags) AS tag,
+      EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600.0 AS age_hours
+    FROM public.posts p
+    WHERE p.is_public IS DISTINCT FROM FALSE
+      AND p.tags IS NOT NULL
+      AND p.created_at >= NOW() - MAKE_INTERVAL(hours => window_hours * 2)
+  ),
+  stats AS (
+    SELECT
+      tagged.tag,
+      COUNT(*) FILTER (WHERE age_hours < window_hours)::INTEGER AS recent_count,
+      COUNT(*) FILTER (WHERE age_hours >= window_hours)::INTEGER AS previous_count,
+      COALESCE(SUM(EXP(-age_hours / window_hours)) FILTER (WHERE age_hours < window_hours), 0) AS weighted_recent
+    FROM tagged
+    GROUP BY tagged.tag
+  )
+  SELECT
+    stats.tag,
+    stats.recent_count,
+    stats.previous_count,
+    -- Change in posts per hour between the previous and the current window
+    ((stats.recent_count - stats.previous_count)::REAL / window_hours)::REAL AS velocity,
+    (stats.weighted_recent * (stats.recent_count + 1)::REAL / (stats.previous_count + 1))::REAL AS score
+  FROM stats
+  WHERE stats.recent_count >= 2
+  ORDER BY score DESC, stats.recent_count DESC, stats.tag
+  LIMIT result_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION trending_tags(INTEGER, INTEGER) TO anon, authenticated;
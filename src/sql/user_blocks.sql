@@ -0,0 +1,203 @@
+-- Blocking and muting. A block works both ways (no follows, comments, mentions, notifications or
+-- DMs between the two users and the profile is hidden); a mute only hides the muted user's posts
+-- and comments from the person who muted them.
+CREATE TABLE IF NOT EXISTS public.user_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'block' CHECK (kind IN ('block', 'mute')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_blocks_blocked_id_idx ON public.user_blocks(blocked_id);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own blocks" ON public.user_blocks;
+CREATE POLICY "Users manage their own blocks"
+  ON public.user_blocks FOR ALL
+  USING (auth.uid() = blocker_id)
+  WITH CHECK (auth.uid() = blocker_id);
+
+-- Whether either user blocked the other
+CREATE OR REPLACE FUNCTION is_blocked_between(first_user_id UUID, second_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE kind = 'block'
+    AND (
+      (blocker_id = first_user_id AND blocked_id = second_user_id)
+      OR (blocker_id = second_user_id AND blocked_id = first_user_id)
+    )
+  );
+$$;
+
+-- Users whose content the caller should not see: 'blocked' and 'muted' by the caller, and
+-- 'blocked_by' for people who blocked the caller (the caller cannot read those rows directly)
+CREATE OR REPLACE FUNCTION hidden_user_relations()
+RETURNS TABLE (user_id UUID, relation TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT blocked_id, CASE WHEN kind = 'block' THEN 'blocked' ELSE 'muted' END
+  FROM public.user_blocks
+  WHERE blocker_id = auth.uid()
+  UNION ALL
+  SELECT blocker_id, 'blocked_by'
+  FROM public.user_blocks
+  WHERE blocked_id = auth.uid()
+  AND kind = 'block';
+$$;
+
+GRANT EXECUTE ON FUNCTION is_blocked_between(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION hidden_user_relations() TO authenticated;
+
+-- Blocking someone removes the follows between both users
+CREATE OR REPLACE FUNCTION remove_follows_on_block()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind = 'block' THEN
+    DELETE FROM public.follows
+    WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+    OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_blocks_remove_follows ON public.user_blocks;
+CREATE TRIGGER user_blocks_remove_follows
+  AFTER INSERT OR UPDATE OF kind ON public.user_blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_follows_on_block();
+
+-- No new follows between blocked users
+CREATE OR REPLACE FUNCTION prevent_blocked_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF is_blocked_between(NEW.follower_id, NEW.following_id) THEN
+    RAISE EXCEPTION 'Não é possível seguir este usuário';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS follows_prevent_blocked ON public.follows;
+CREATE TRIGGER follows_prevent_blocked
+  BEFORE INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_blocked_follow();
+
+-- No comments on posts (or replies to comments) of someone who blocked the commenter, or whom they blocked
+CREATE OR REPLACE FUNCTION prevent_blocked_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_blocked_between(NEW.user_id, (SELECT user_id FROM public.posts WHERE id = NEW.post_id))
+    OR (
+      NEW.parent_id IS NOT NULL
+      AND is_blocked_between(NEW.user_id, (SELECT user_id FROM public.comments WHERE id = NEW.parent_id))
+    )
+  THEN
+    RAISE EXCEPTION 'Não é possível comentar nesta publicação';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_prevent_blocked ON public.comments;
+CREATE TRIGGER comments_prevent_blocked
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_blocked_comment();
+
+-- Drop notifications between blocked users (mentions included)
+CREATE OR REPLACE FUNCTION skip_blocked_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.actor_id IS NOT NULL AND is_blocked_between(NEW.user_id, NEW.actor_id) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_skip_blocked ON public.notifications;
+CREATE TRIGGER notifications_skip_blocked
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION skip_blocked_notification();
+
+-- DMs: blocked users cannot start a conversation ...
+CREATE OR REPLACE FUNCTION can_message(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND NOT is_blocked_between(auth.uid(), target_user_id)
+    AND (
+      target_user_id = auth.uid()
+      OR NOT COALESCE((SELECT messages_mutuals_only FROM public.profiles WHERE id = target_user_id), FALSE)
+      OR (
+        EXISTS (SELECT 1 FROM public.follows WHERE follower_id = auth.uid() AND following_id = target_user_id)
+        AND EXISTS (SELECT 1 FROM public.follows WHERE follower_id = target_user_id AND following_id = auth.uid())
+      )
+    );
+$$;
+
+-- ... nor keep writing in an existing one-to-one conversation
+CREATE OR REPLACE FUNCTION prevent_blocked_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.conversation_participants cp ON cp.conversation_id = c.id
+    WHERE c.id = NEW.conversation_id
+    AND NOT c.is_group
+    AND cp.user_id <> NEW.sender_id
+    AND is_blocked_between(NEW.sender_id, cp.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Não é possível enviar mensagens para este usuário';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_prevent_blocked ON public.messages;
+CREATE TRIGGER messages_prevent_blocked
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_blocked_message();